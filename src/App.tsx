@@ -1,29 +1,16 @@
-import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { UserProvider, useUser } from './contexts/UserContext';
 import { HomePage } from './components/HomePage';
-import { UserNameModal } from './components/UserNameModal';
+import { InvitePage } from './components/InvitePage';
+import { AuthModal } from './components/AuthModal';
 
 function AppContent() {
-  const { userName, setUserName } = useUser();
-  const [showNameModal, setShowNameModal] = useState(false);
-
-  useEffect(() => {
-    if (!userName) {
-      setShowNameModal(true);
-    }
-  }, [userName]);
-
-  const handleNameSubmit = (name: string) => {
-    setUserName(name);
-    setShowNameModal(false);
-  };
+  const { user, userName, loading } = useUser();
 
   return (
     <>
-      <UserNameModal
-        isOpen={showNameModal}
-        onSubmit={handleNameSubmit}
+      <AuthModal
+        isOpen={!loading && !user}
         title="Welcome to Global Chat"
       />
       
@@ -32,6 +19,7 @@ function AppContent() {
           <Routes>
             <Route path="/" element={<HomePage />} />
             <Route path="/room/:roomId" element={<HomePage />} />
+            <Route path="/invite/:token" element={<InvitePage />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </Router>
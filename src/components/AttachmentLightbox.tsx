@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { MessageAttachment } from '../lib/supabase';
+import { formatFileSize } from '../lib/storage';
+import { useAttachmentUrls } from '../hooks/useAttachmentUrls';
+
+interface AttachmentLightboxProps {
+  images: MessageAttachment[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+export function AttachmentLightbox({ images, initialIndex, onClose }: AttachmentLightboxProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const image = images[index];
+  const urls = useAttachmentUrls(images);
+
+  const showPrevious = () => setIndex(i => (i - 1 + images.length) % images.length);
+  const showNext = () => setIndex(i => (i + 1) % images.length);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowLeft') {
+        setIndex(i => (i - 1 + images.length) % images.length);
+      } else if (e.key === 'ArrowRight') {
+        setIndex(i => (i + 1) % images.length);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [images.length, onClose]);
+
+  if (!image) return null;
+
+  // Rendered into the body so animated message rows can't offset the overlay
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 bg-black/90 flex flex-col"
+      onClick={onClose}
+    >
+      <div className="flex items-center justify-between p-4 text-white" onClick={(e) => e.stopPropagation()}>
+        <div className="min-w-0">
+          <p className="font-medium truncate">{image.name}</p>
+          <p className="text-xs text-white/60">
+            {formatFileSize(image.size)}
+            {images.length > 1 && ` • ${index + 1} of ${images.length}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <a
+            href={urls[image.path]}
+            download={image.name}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            title="Download"
+          >
+            <Download className="w-5 h-5" />
+          </a>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center gap-4 px-4 pb-4">
+        {images.length > 1 && (
+          <button
+            onClick={(e) => { e.stopPropagation(); showPrevious(); }}
+            className="p-2 text-white hover:bg-white/10 rounded-full transition-colors"
+            title="Previous"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+        )}
+        <img
+          src={urls[image.path]}
+          alt={image.name}
+          className="max-h-full max-w-full object-contain rounded-lg shadow-2xl"
+          onClick={(e) => e.stopPropagation()}
+        />
+        {images.length > 1 && (
+          <button
+            onClick={(e) => { e.stopPropagation(); showNext(); }}
+            className="p-2 text-white hover:bg-white/10 rounded-full transition-colors"
+            title="Next"
+          >
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
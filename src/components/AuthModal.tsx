@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { User, Mail } from 'lucide-react';
+import { useUser } from '../contexts/UserContext';
+
+interface AuthModalProps {
+  isOpen: boolean;
+  title?: string;
+}
+
+type AuthMode = 'guest' | 'signin' | 'signup';
+
+const MODES: { key: AuthMode; label: string }[] = [
+  { key: 'guest', label: 'Guest' },
+  { key: 'signin', label: 'Sign in' },
+  { key: 'signup', label: 'Create account' }
+];
+
+export function AuthModal({ isOpen, title = 'Welcome' }: AuthModalProps) {
+  const { suggestedName, signInAnonymously, signInWithPassword, signUp } = useUser();
+  const [mode, setMode] = useState<AuthMode>('guest');
+  const [name, setName] = useState(suggestedName || '');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  if (!isOpen) return null;
+
+  const needsName = mode !== 'signin';
+  const needsCredentials = mode !== 'guest';
+  const isValid = (!needsName || name.trim().length >= 2) &&
+    (!needsCredentials || (email.trim() && password.length >= 6));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSubmitting(true);
+    setError('');
+    setNotice('');
+
+    try {
+      if (mode === 'guest') {
+        await signInAnonymously(name.trim());
+      } else if (mode === 'signin') {
+        await signInWithPassword(email.trim(), password);
+      } else {
+        const signedIn = await signUp(email.trim(), password, name.trim());
+        if (!signedIn) {
+          setNotice('Check your email to confirm your account, then sign in');
+          setMode('signin');
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong, please try again');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8">
+        <div className="text-center mb-6">
+          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            {mode === 'guest' ? <User className="w-8 h-8 text-blue-600" /> : <Mail className="w-8 h-8 text-blue-600" />}
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+          <p className="text-gray-600 mt-2">
+            {mode === 'guest'
+              ? 'Choose a name to chat as a guest, you can save your account later'
+              : mode === 'signin'
+                ? 'Sign in with your email and password'
+                : 'Create an account to use it on any device'}
+          </p>
+        </div>
+
+        <div className="flex gap-1 p-1 bg-gray-100 rounded-lg mb-6">
+          {MODES.map(({ key, label }) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => {
+                setMode(key);
+                setError('');
+              }}
+              className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors ${
+                mode === key ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {needsName && (
+            <div>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Display name..."
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-lg"
+                minLength={2}
+                maxLength={30}
+                required
+                autoFocus
+              />
+              <p className="text-sm text-gray-500 mt-2">Name must be at least 2 characters long</p>
+            </div>
+          )}
+
+          {needsCredentials && (
+            <>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email"
+                autoComplete="email"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                required
+                autoFocus={!needsName}
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password (at least 6 characters)"
+                autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                minLength={6}
+                required
+              />
+            </>
+          )}
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          {notice && <p className="text-green-600 text-sm">{notice}</p>}
+
+          <button
+            type="submit"
+            disabled={!isValid || submitting}
+            className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors font-semibold text-lg"
+          >
+            {submitting
+              ? 'Please wait...'
+              : mode === 'guest' ? 'Continue to Chat' : mode === 'signin' ? 'Sign in' : 'Create account'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
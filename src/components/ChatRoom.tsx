@@ -1,25 +1,88 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Send, Users, Settings, ArrowLeft, Share, Mic, MicOff, Video, VideoOff, Smile, Search, Bell, BellOff, Phone, PhoneOff, Volume2, VolumeX, Hash, Zap, Clock, MessageCircle, Wifi, WifiOff, RefreshCw, Activity, X } from 'lucide-react';
-import { Room, Message } from '../lib/supabase';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Send, Users, Settings, ArrowLeft, Share, Mic, MicOff, Video, VideoOff, Smile, Search, Bell, BellOff, Phone, PhoneOff, Volume2, VolumeX, Hash, Zap, Clock, MessageCircle, Wifi, WifiOff, RefreshCw, Activity, X, ArrowDown, ArrowUp, Paperclip, Upload, Eye, EyeOff, LogOut, ShieldCheck, ShieldOff, Crown, Timer, UserX, Ban } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Room, Message, MessageSearchResult, MessageMention, RoomParticipant } from '../lib/supabase';
 import { useUser } from '../contexts/UserContext';
 import { useRealtimeMessages } from '../hooks/useRealtimeMessages';
 import { useTypingIndicator } from '../hooks/useTypingIndicator';
 import { useRoomParticipants } from '../hooks/useRoomParticipants';
+import { useRoomSanctions } from '../hooks/useRoomSanctions';
 import { usePresence } from '../hooks/usePresence';
 import { useWebRTC } from '../hooks/useWebRTC';
+import { useMessageReactions } from '../hooks/useMessageReactions';
+import { useMessageSearch } from '../hooks/useMessageSearch';
+import { useAttachmentUploads } from '../hooks/useAttachmentUploads';
+import { useReadReceipts } from '../hooks/useReadReceipts';
+import { useConnectionState } from '../hooks/useConnectionState';
+import { reconnectRealtime } from '../lib/realtime';
 import { TypingIndicator } from './TypingIndicator';
 import { RoomSettings } from './RoomSettings';
 import { MessageBubble } from './MessageBubble';
+import { SystemMessageGroup } from './SystemMessage';
 import { EmojiPicker } from './EmojiPicker';
 import { VideoCall } from './VideoCall';
+import { ThreadPanel } from './ThreadPanel';
+import { SearchResultsPanel } from './SearchResultsPanel';
+import { ComposerAttachments } from './ComposerAttachments';
+import { MarkdownContent } from './MarkdownContent';
+import { MentionsInbox } from './MentionsInbox';
+import { StatusMenu } from './StatusMenu';
+import { ParticipantMenu, ParticipantAction } from './ParticipantMenu';
+import { SanctionModal } from './SanctionModal';
+import { MentionAutocomplete } from './MentionAutocomplete';
+import { markdownToPlainText, formatMention } from '../lib/markdown';
+import { PRESENCE_STATUS_DOT_CLASSES, PRESENCE_STATUS_LABELS, getActiveCustomStatus } from '../lib/presence';
+import { ROOM_ROLE_LABELS, canModerateMember, hasRoomPermission } from '../lib/roles';
+import { formatSanctionEnd } from '../lib/sanctions';
+import { VirtualMessageList, VirtualMessageListHandle } from './VirtualMessageList';
 
 interface ChatRoomProps {
   room: Room;
   onLeave: () => void;
 }
 
+// Optimistic messages keep their client key once stored, so rows don't remount
+const getMessageKey = (message: Message) => message.client_id || message.id;
+
+// Consecutive system messages are rendered as one row of event lines
+type TimelineItem =
+  | { type: 'message'; message: Message }
+  | { type: 'events'; messages: Message[] };
+
+const buildTimeline = (messages: Message[]) =>
+  messages.reduce<TimelineItem[]>((items, message) => {
+    const last = items[items.length - 1];
+    if (message.message_type !== 'system') {
+      items.push({ type: 'message', message });
+    } else if (last?.type === 'events') {
+      last.messages.push(message);
+    } else {
+      items.push({ type: 'events', messages: [message] });
+    }
+    return items;
+  }, []);
+
+const firstMessageOf = (item: TimelineItem) => item.type === 'message' ? item.message : item.messages[0];
+const lastMessageOf = (item: TimelineItem) =>
+  item.type === 'message' ? item.message : item.messages[item.messages.length - 1];
+
+const getTimelineKey = (item: TimelineItem) =>
+  item.type === 'message' ? getMessageKey(item.message) : `events-${item.messages[0].id}`;
+
+const showErrorToast = (text: string) => {
+  const toast = document.createElement('div');
+  toast.className = 'fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 animate-in slide-in-from-top-2';
+  toast.textContent = text;
+  document.body.appendChild(toast);
+  setTimeout(() => {
+    if (document.body.contains(toast)) {
+      document.body.removeChild(toast);
+    }
+  }, 4000);
+};
+
 export function ChatRoom({ room, onLeave }: ChatRoomProps) {
-  const { userName } = useUser();
+  const { user, userName } = useUser();
   const [newMessage, setNewMessage] = useState('');
   const [showSettings, setShowSettings] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
@@ -30,17 +93,104 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [showVideoCall, setShowVideoCall] = useState(false);
-  const [lastMessageCount, setLastMessageCount] = useState(0);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
-  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout>();
+  const lastMessageIdRef = useRef<string | undefined>();
+  const pendingJumpIdRef = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragDepthRef = useRef(0);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const messageListRef = useRef<VirtualMessageListHandle>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; text: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [expandedEventGroups, setExpandedEventGroups] = useState<Set<string>>(new Set());
+  const [showUnreadBanner, setShowUnreadBanner] = useState(true);
+  const [isPageVisible, setIsPageVisible] = useState(!document.hidden);
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedMessageId = searchParams.get('message');
   const notificationSoundRef = useRef<HTMLAudioElement>();
 
-  const { messages, loading, connectionStatus, sendMessage, refetch } = useRealtimeMessages(room.id);
-  const { typingUsers, startTyping, stopTyping } = useTypingIndicator(room.id, userName || '');
-  const { participants, participantCount, loading: participantsLoading, refetch: refetchParticipants } = useRoomParticipants(room.id, userName || '');
-  const { onlineUsers, connectionStatus: presenceStatus } = usePresence(room.id, userName || '');
-  const webRTC = useWebRTC(room.id, userName || '');
+  const {
+    messages,
+    loading,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    loadEditHistory,
+    hasMore,
+    loadingOlder,
+    loadOlderMessages,
+    hasNewer,
+    loadingNewer,
+    loadNewerMessages,
+    loadMessagesAround,
+    jumpToLatest,
+    refetch,
+    referencedMessages,
+    activeThreadId,
+    threadReplies,
+    threadLoading,
+    openThread,
+    closeThread
+  } = useRealtimeMessages(room.id, user?.id || '');
+  const { typingUsers, startTyping, stopTyping, startActivity, stopActivity } = useTypingIndicator(room.id, userName || '');
+  const {
+    participants,
+    participantCount,
+    loading: participantsLoading,
+    refetch: refetchParticipants,
+    leaveRoom,
+    setParticipantRole,
+    transferOwnership
+  } = useRoomParticipants(room.id, user?.id || '', userName || '');
+  // The owner may not have a participant row yet right after creating the room
+  const ownRole = participants.find(p => p.user_id === user?.id)?.role
+    ?? (currentRoom.owner_id === user?.id ? 'owner' : null);
+  const canModerate = hasRoomPermission(ownRole, 'moderate_messages');
+  const [sanctionTarget, setSanctionTarget] = useState<{ participant: RoomParticipant; kind: 'ban' | 'timeout' } | null>(null);
+  // Kicked or banned users are sent back to the room list right away
+  const { timeouts, ownTimeout, sanctionParticipant, liftSanction } = useRoomSanctions(room.id, user?.id, (sanction) => {
+    showErrorToast(sanction.kind === 'kick'
+      ? `You were removed from ${currentRoom.name}`
+      : `You are banned from ${currentRoom.name} ${formatSanctionEnd(sanction)}`);
+    onLeave();
+  });
+  const {
+    onlineUsers,
+    status: ownStatus,
+    doNotDisturb,
+    customStatus,
+    setDoNotDisturb,
+    setCustomStatus
+  } = usePresence(room.id, user?.id || '', userName || '');
+  const connectionState = useConnectionState();
+  const webRTC = useWebRTC(room.id, user?.id || '', userName || '');
+  const { reactionsByMessage, toggleReaction } = useMessageReactions(room.id, user?.id || '', userName || '');
+  const search = useMessageSearch(room.id, showSearch ? searchQuery : '');
+  const { unreadAtEntry, markAsRead, getSeenBy } = useReadReceipts(room.id, user?.id || '', userName || '');
+  const isSearchOpen = showSearch && searchQuery.trim().length > 0;
+  const {
+    pending: pendingAttachments,
+    isUploading,
+    readyAttachments,
+    addFiles,
+    removeAttachment,
+    clearAttachments
+  } = useAttachmentUploads(currentRoom);
+
+  // Show others that a file is on its way
+  useEffect(() => {
+    if (isUploading) {
+      startActivity('uploading');
+    } else {
+      stopActivity('uploading');
+    }
+  }, [isUploading, startActivity, stopActivity]);
 
   // Initialize notification sound
   useEffect(() => {
@@ -49,22 +199,95 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
     notificationSoundRef.current.volume = 0.3;
   }, []);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when a new message arrives at the end of the list
   useEffect(() => {
-    if (messages.length > lastMessageCount) {
+    const lastMessage = messages[messages.length - 1];
+    const previousLastId = lastMessageIdRef.current;
+    lastMessageIdRef.current = lastMessage?.id;
+
+    // While an earlier part of the history is shown the last message isn't the newest
+    if (!lastMessage || lastMessage.id === previousLastId || hasNewer) return;
+
+    const isNearBottom = messageListRef.current?.isNearBottom() ?? true;
+    const isOwn = !!user && lastMessage.user_id === user.id;
+
+    if (!previousLastId) {
+      scrollToBottom('auto');
+    } else if (isNearBottom || isOwn) {
       scrollToBottom();
-      
-      // Play notification sound for new messages from others
-      if (messages.length > 0 && notifications && soundEnabled) {
-        const lastMessage = messages[messages.length - 1];
-        if (lastMessage.user_name !== userName && !lastMessage.id.startsWith('temp-')) {
-          playNotificationSound();
-        }
+    }
+
+    // Play notification sound for new messages from others
+    if (previousLastId && notifications && soundEnabled && !doNotDisturb && !isOwn && !lastMessage.id.startsWith('temp-') &&
+      lastMessage.message_type !== 'system') {
+      playNotificationSound();
+    }
+  }, [messages, user, notifications, soundEnabled, doNotDisturb, hasNewer]);
+
+  // Scroll to a search result once the history around it has been loaded
+  useEffect(() => {
+    const messageId = pendingJumpIdRef.current;
+    if (!messageId || !messages.some(msg => msg.id === messageId)) return;
+
+    pendingJumpIdRef.current = null;
+    jumpToMessage(messageId);
+  });
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsPageVisible(!document.hidden);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // The newest message counts as read while the end of the conversation is on screen
+  const markLatestAsRead = () => {
+    // Wait for the entry state so the "New messages" divider isn't lost
+    if (!unreadAtEntry || hasNewer || !isPageVisible) return;
+    if (!(messageListRef.current?.isNearBottom() ?? true)) return;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (!messages[i].id.startsWith('temp-')) {
+        markAsRead(messages[i]);
+        return;
       }
-      
-      setLastMessageCount(messages.length);
     }
-  }, [messages.length, userName, notifications, soundEnabled, lastMessageCount]);
+  };
+
+  useEffect(() => {
+    markLatestAsRead();
+  });
+
+  const jumpToFirstUnread = () => {
+    setShowUnreadBanner(false);
+    if (unreadAtEntry?.firstUnreadId) {
+      showMessage(unreadAtEntry.firstUnreadId);
+    }
+  };
+
+  // Open a message linked from the URL, e.g. from the mentions inbox
+  useEffect(() => {
+    if (!linkedMessageId || loading) return;
+
+    setSearchParams({}, { replace: true });
+    showMessage(linkedMessageId);
+  });
+
+  // The list keeps the visible messages in place when an older page is prepended
+  const handleMessagesNearTop = () => {
+    if (!hasMore || loadingOlder) return;
+    loadOlderMessages();
+  };
+
+  const handleMessagesNearBottom = () => {
+    markLatestAsRead();
+    if (!hasNewer || loadingNewer) return;
+    loadNewerMessages();
+  };
+
+  const handleJumpToLatest = async () => {
+    await jumpToLatest();
+    scrollToBottom('auto');
+  };
 
   // Auto-focus input when component mounts
   useEffect(() => {
@@ -77,7 +300,7 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
   // Auto-refresh data every 10 seconds
   useEffect(() => {
     const interval = setInterval(() => {
-      if (connectionStatus === 'disconnected' || presenceStatus === 'disconnected') {
+      if (connectionState === 'disconnected') {
         console.log('🔄 Connection issues detected, refreshing...');
         refetch();
         refetchParticipants();
@@ -85,10 +308,11 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
     }, 15000);
 
     return () => clearInterval(interval);
-  }, [connectionStatus, presenceStatus, refetch, refetchParticipants]);
+  }, [connectionState, refetch, refetchParticipants]);
 
   const playNotificationSound = () => {
-    if (!soundEnabled) return;
+    // Do not disturb mutes every sound, whatever the sound toggle says
+    if (!soundEnabled || doNotDisturb) return;
     
     try {
       // Create a simple notification sound using Web Audio API
@@ -111,26 +335,30 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
     }
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const scrollToBottom = (behavior: ScrollBehavior = 'smooth') => {
+    messageListRef.current?.scrollToBottom(behavior);
   };
 
   const handleMessageSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !userName) return;
+    if ((!newMessage.trim() && readyAttachments.length === 0) || !userName || isUploading || ownTimeout) return;
 
-    let messageContent = newMessage.trim();
-    
-    // Add reply context if replying
-    if (replyingTo) {
-      messageContent = `@${replyingTo.user_name}: ${messageContent}`;
-      setReplyingTo(null);
-    }
+    const messageContent = newMessage.trim();
+    const replyToId = replyingTo?.id || null;
+    const attachments = readyAttachments;
+    setReplyingTo(null);
 
     setNewMessage('');
+    setMentionQuery(null);
+    clearAttachments();
     stopTyping();
+
+    // Return to the live end of the conversation before sending
+    if (hasNewer) {
+      await handleJumpToLatest();
+    }
     
-    await sendMessage(messageContent, userName);
+    await sendMessage(messageContent, userName, { replyToId, attachments });
     
     // Immediate focus back to input
     setTimeout(() => {
@@ -138,8 +366,92 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
     }, 0);
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  // Count nested enter/leave events so the drop overlay doesn't flicker
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Grow the composer with its content, up to a limit
+  useEffect(() => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+
+    textarea.style.height = 'auto';
+    textarea.style.height = `${Math.min(textarea.scrollHeight, 200)}px`;
+  }, [newMessage]);
+
+  // An @ at the start of a word before the caret opens the mention autocomplete
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(/(^|\s)@([^\s@[\]]{0,50})$/);
+    if (match) {
+      setMentionQuery({ start: caret - match[2].length - 1, text: match[2] });
+      setMentionIndex(0);
+    } else {
+      setMentionQuery(null);
+    }
+  };
+
+  const insertMention = (mentionedUser: string) => {
+    if (!mentionQuery) return;
+
+    const caret = mentionQuery.start + mentionQuery.text.length + 1;
+    const mention = `${formatMention(mentionedUser)} `;
+    setNewMessage(prev => prev.slice(0, mentionQuery.start) + mention + prev.slice(caret));
+    setMentionQuery(null);
+
+    const nextCaret = mentionQuery.start + mention.length;
+    setTimeout(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    }, 0);
+  };
+
+  const mentionCandidates = useMemo(() => {
+    if (!mentionQuery) return [];
+
+    const query = mentionQuery.text.toLowerCase();
+    return participants
+      .filter(p => p.user_id !== user?.id && p.user_name.toLowerCase().includes(query))
+      .sort((a, b) =>
+        Number(b.user_name.toLowerCase().startsWith(query)) - Number(a.user_name.toLowerCase().startsWith(query)) ||
+        Number(b.is_online) - Number(a.is_online)
+      )
+      .slice(0, 6);
+  }, [mentionQuery, participants, user]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setNewMessage(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
     if (e.target.value.trim()) {
       startTyping();
     } else {
@@ -147,8 +459,30 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionQuery && mentionCandidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(prev => (prev + step + mentionCandidates.length) % mentionCandidates.length);
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && !e.nativeEvent.isComposing) {
+        e.preventDefault();
+        insertMention(mentionCandidates[Math.min(mentionIndex, mentionCandidates.length - 1)].user_name);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    // Enter inside an unclosed ``` block adds a line instead of sending
+    const isInCodeBlock = (newMessage.match(/```/g) || []).length % 2 === 1;
+
+    if (e.key === 'Enter' && !e.shiftKey && !isInCodeBlock && !e.nativeEvent.isComposing) {
       e.preventDefault();
       handleMessageSubmit(e);
     } else if (e.key === 'Escape') {
@@ -182,12 +516,121 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
     inputRef.current?.focus();
   };
 
-  const filteredMessages = searchQuery 
-    ? messages.filter(msg => 
-        msg.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        msg.user_name.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : messages;
+  const handleOpenThread = (message: Message) => {
+    // Replies open the thread of the message they belong to
+    openThread(message.reply_to_id || message.id);
+  };
+
+  const handleThreadReply = (content: string) => {
+    if (!userName || !activeThreadId) return;
+    if (ownTimeout) {
+      showErrorToast(`You are timed out ${formatSanctionEnd(ownTimeout)}`);
+      return;
+    }
+    sendMessage(content, userName, { replyToId: activeThreadId });
+  };
+
+  const jumpToMessage = (messageId: string) => {
+    const target = messagesById.get(messageId);
+
+    if (target?.message_type === 'system') {
+      // System messages live inside an event group, open it and scroll there
+      const group = timeline.find(item => item.type === 'events' && item.messages.some(msg => msg.id === messageId));
+      if (group) {
+        const groupKey = getTimelineKey(group);
+        setExpandedEventGroups(prev => new Set(prev).add(groupKey));
+        messageListRef.current?.scrollToKey(groupKey);
+      }
+      return;
+    }
+
+    if (!target || !messageListRef.current?.scrollToKey(getMessageKey(target))) {
+      // Not in the loaded history, show it in its thread instead
+      openThread(messageId);
+      return;
+    }
+
+    setHighlightedMessageId(messageId);
+
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 2000);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const canEditMessage = (message: Message) => {
+    if (!user || message.user_id !== user.id || message.id.startsWith('temp-') || message.deleted_at) {
+      return false;
+    }
+    if (currentRoom.edit_window_minutes === null || currentRoom.edit_window_minutes === undefined) {
+      return true;
+    }
+    return Date.now() - new Date(message.created_at).getTime() < currentRoom.edit_window_minutes * 60000;
+  };
+
+  const messagesById = useMemo(() => {
+    const map = new Map<string, Message>(Object.entries(referencedMessages));
+    messages.forEach(msg => map.set(msg.id, msg));
+    return map;
+  }, [messages, referencedMessages]);
+
+  const timeline = useMemo(() => buildTimeline(messages), [messages]);
+
+  const toggleEventGroup = (key: string) => {
+    setExpandedEventGroups(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
+  const replyCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    messages.forEach(msg => {
+      if (msg.reply_to_id) {
+        counts.set(msg.reply_to_id, (counts.get(msg.reply_to_id) || 0) + 1);
+      }
+    });
+    return counts;
+  }, [messages]);
+
+  // Scrolls to any message of the room, loading the history around it if needed
+  const showMessage = async (messageId: string) => {
+    if (messages.some(msg => msg.id === messageId)) {
+      jumpToMessage(messageId);
+      return;
+    }
+
+    pendingJumpIdRef.current = messageId;
+    if (!await loadMessagesAround(messageId)) {
+      pendingJumpIdRef.current = null;
+    }
+  };
+
+  const handleSearchResultSelect = (result: MessageSearchResult) => {
+    showMessage(result.id);
+  };
+
+  const handleMentionSelect = (mention: MessageMention) => {
+    if (mention.room_id === room.id) {
+      showMessage(mention.message_id);
+    } else {
+      navigate(`/room/${mention.room_id}?message=${mention.message_id}`);
+    }
+  };
+
+  const closeSearch = () => {
+    setShowSearch(false);
+    setSearchQuery('');
+  };
 
   const formatTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString([], { 
@@ -211,17 +654,103 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
     }
   };
 
-  const getOnlineStatus = (participantName: string) => {
-    return onlineUsers.some(user => user.user_name === participantName && user.is_online);
+  // Going back keeps the membership; leaving gives it up
+  const handleLeaveRoom = async () => {
+    if (!confirm(`Leave ${currentRoom.name}? You will no longer be listed as a member.`)) return;
+
+    try {
+      await leaveRoom();
+      onLeave();
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to leave the room');
+    }
   };
 
-  const onlineParticipants = participants.filter(p => getOnlineStatus(p.user_name));
-  const offlineParticipants = participants.filter(p => !getOnlineStatus(p.user_name));
+  // Role changes and sanctions are checked again by the database
+  const getParticipantActions = (participant: RoomParticipant): ParticipantAction[] => {
+    if (participant.user_id === user?.id) return [];
+
+    const runAction = (action: () => Promise<void>) => () => {
+      action().catch(err => showErrorToast(err instanceof Error ? err.message : 'Something went wrong'));
+    };
+    const actions: ParticipantAction[] = [];
+
+    if (ownRole === 'owner') {
+      actions.push(participant.role === 'moderator'
+        ? {
+            label: 'Remove moderator',
+            icon: ShieldOff,
+            onSelect: runAction(() => setParticipantRole(participant.user_id, 'member'))
+          }
+        : {
+            label: 'Make moderator',
+            icon: ShieldCheck,
+            onSelect: runAction(() => setParticipantRole(participant.user_id, 'moderator'))
+          });
+    }
+
+    if (canModerateMember(ownRole, participant.role)) {
+      actions.push(
+        timeouts.has(participant.user_id)
+          ? {
+              label: 'End timeout',
+              icon: Timer,
+              onSelect: runAction(() => liftSanction(participant.user_id, 'timeout'))
+            }
+          : {
+              label: 'Time out...',
+              icon: Timer,
+              onSelect: () => setSanctionTarget({ participant, kind: 'timeout' })
+            },
+        {
+          label: 'Kick',
+          icon: UserX,
+          danger: true,
+          onSelect: () => {
+            if (!confirm(`Remove ${participant.user_name} from ${currentRoom.name}? They can join again.`)) return;
+            runAction(() => sanctionParticipant(participant.user_id, 'kick'))();
+          }
+        },
+        {
+          label: 'Ban...',
+          icon: Ban,
+          danger: true,
+          onSelect: () => setSanctionTarget({ participant, kind: 'ban' })
+        }
+      );
+    }
+
+    if (ownRole === 'owner') {
+      actions.push({
+        label: 'Transfer ownership',
+        icon: Crown,
+        danger: true,
+        onSelect: () => {
+          if (!confirm(`Transfer ${currentRoom.name} to ${participant.user_name}? You will stay on as a moderator.`)) return;
+          runAction(() => transferOwnership(participant.user_id))();
+        }
+      });
+    }
+
+    return actions;
+  };
+
+  const getOnlineStatus = (participantId: string) => {
+    return onlineUsers.some(user => user.user_id === participantId && user.is_online);
+  };
+
+  const getUserPresence = (participantId: string | null | undefined) => {
+    if (!participantId) return null;
+    return onlineUsers.find(user => user.user_id === participantId && user.is_online) || null;
+  };
+
+  const onlineParticipants = participants.filter(p => getOnlineStatus(p.user_id));
+  const offlineParticipants = participants.filter(p => !getOnlineStatus(p.user_id));
 
   const getConnectionStatusColor = () => {
-    if (connectionStatus === 'connected' && presenceStatus === 'connected') {
+    if (connectionState === 'connected') {
       return 'text-green-600 bg-green-100';
-    } else if (connectionStatus === 'connecting' || presenceStatus === 'connecting') {
+    } else if (connectionState === 'connecting') {
       return 'text-yellow-600 bg-yellow-100';
     } else {
       return 'text-red-600 bg-red-100';
@@ -229,9 +758,9 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
   };
 
   const getConnectionStatusText = () => {
-    if (connectionStatus === 'connected' && presenceStatus === 'connected') {
+    if (connectionState === 'connected') {
       return 'Connected';
-    } else if (connectionStatus === 'connecting' || presenceStatus === 'connecting') {
+    } else if (connectionState === 'connecting') {
       return 'Connecting...';
     } else {
       return 'Disconnected';
@@ -295,7 +824,7 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
           <div className="flex items-center gap-2">
             {/* Connection Status Indicator */}
             <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium ${getConnectionStatusColor()}`}>
-              {connectionStatus === 'connected' && presenceStatus === 'connected' ? (
+              {connectionState === 'connected' ? (
                 <Wifi className="w-3 h-3" />
               ) : (
                 <WifiOff className="w-3 h-3" />
@@ -306,6 +835,7 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
             {/* Manual Refresh */}
             <button
               onClick={() => {
+                reconnectRealtime();
                 refetch();
                 refetchParticipants();
               }}
@@ -315,6 +845,22 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
               <RefreshCw className="w-4 h-4" />
             </button>
 
+            {/* Status */}
+            {userName && (
+              <StatusMenu
+                status={ownStatus}
+                doNotDisturb={doNotDisturb}
+                customStatus={customStatus}
+                onDoNotDisturbChange={setDoNotDisturb}
+                onCustomStatusChange={setCustomStatus}
+              />
+            )}
+
+            {/* Mentions */}
+            {user && (
+              <MentionsInbox userId={user.id} currentRoomId={room.id} onSelect={handleMentionSelect} />
+            )}
+
             {/* Search */}
             <button
               onClick={() => setShowSearch(!showSearch)}
@@ -326,10 +872,10 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
             {/* Sound Toggle */}
             <button
               onClick={() => setSoundEnabled(!soundEnabled)}
-              className={`p-2 rounded-lg transition-colors ${soundEnabled ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:bg-gray-100'}`}
-              title={soundEnabled ? 'Disable sounds' : 'Enable sounds'}
+              className={`p-2 rounded-lg transition-colors ${soundEnabled && !doNotDisturb ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:bg-gray-100'}`}
+              title={doNotDisturb ? 'Sounds are muted while do not disturb is on' : soundEnabled ? 'Disable sounds' : 'Enable sounds'}
             >
-              {soundEnabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+              {soundEnabled && !doNotDisturb ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
             </button>
 
             {/* Notifications */}
@@ -395,6 +941,14 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
             >
               <Settings className="w-5 h-5" />
             </button>
+
+            <button
+              onClick={handleLeaveRoom}
+              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Leave room"
+            >
+              <LogOut className="w-5 h-5" />
+            </button>
           </div>
         </div>
 
@@ -406,15 +960,14 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search messages and users..."
+                onKeyDown={(e) => e.key === 'Escape' && closeSearch()}
+                placeholder="Search messages..."
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
                 autoFocus
               />
-              {searchQuery && (
-                <p className="text-sm text-gray-500 mt-2">
-                  Found {filteredMessages.length} messages
-                </p>
-              )}
+              <p className="text-xs text-gray-500 mt-2">
+                Use "quotes" for phrases, -word to exclude, and from:name, before:YYYY-MM-DD or after:YYYY-MM-DD to filter
+              </p>
             </div>
           </div>
         )}
@@ -431,63 +984,197 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
 
       {/* Messages Area */}
       <div className="flex-1 overflow-hidden flex">
-        <div className="flex-1 flex flex-col">
-          <div 
-            ref={messagesContainerRef}
-            className="flex-1 overflow-y-auto px-4 py-4 scroll-smooth"
-          >
-            <div className="max-w-4xl mx-auto space-y-1">
-              {filteredMessages.length === 0 && !loading ? (
+        <div
+          className="flex-1 flex flex-col relative"
+          onDragEnter={handleDragEnter}
+          onDragOver={(e) => isDraggingFiles && e.preventDefault()}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {/* Drop Overlay */}
+          {isDraggingFiles && (
+            <div className="absolute inset-0 z-20 m-4 flex flex-col items-center justify-center gap-3 rounded-2xl border-4 border-dashed border-blue-400 bg-blue-50/90 text-blue-700 pointer-events-none">
+              <Upload className="w-12 h-12" />
+              <p className="text-lg font-semibold">Drop files to attach</p>
+            </div>
+          )}
+
+          {/* Unread Messages Notice */}
+          {showUnreadBanner && unreadAtEntry && unreadAtEntry.count > 0 && (
+            <div className="bg-red-50 border-b border-red-200 px-4 py-2">
+              <div className="max-w-4xl mx-auto flex items-center justify-between gap-3">
+                <p className="text-sm text-red-700">
+                  {unreadAtEntry.count} new {unreadAtEntry.count === 1 ? 'message' : 'messages'} since your last visit
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={jumpToFirstUnread}
+                    className="flex items-center gap-1 text-sm font-medium text-red-700 hover:text-red-800"
+                  >
+                    Jump to first unread
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setShowUnreadBanner(false)}
+                    className="p-1 hover:bg-red-100 rounded transition-colors text-red-600"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {messages.length === 0 && !loading ? (
+            <div className="flex-1 overflow-y-auto px-4 py-4">
+              <div className="max-w-4xl mx-auto">
                 <div className="text-center py-12">
                   <MessageCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-gray-600 mb-2">
-                    {searchQuery ? 'No messages found' : 'No messages yet'}
+                    No messages yet
                   </h3>
                   <p className="text-gray-500">
-                    {searchQuery ? 'Try a different search term' : 'Be the first to start the conversation!'}
+                    Be the first to start the conversation!
                   </p>
                 </div>
-              ) : (
-                filteredMessages.map((message, index) => {
-                  const isOwnMessage = message.user_name === userName;
-                  const prevMessage = filteredMessages[index - 1];
-                  const nextMessage = filteredMessages[index + 1];
-                  
-                  const showAvatar = !prevMessage || prevMessage.user_name !== message.user_name;
-                  const showName = showAvatar && !isOwnMessage;
-                  const isLastInGroup = !nextMessage || nextMessage.user_name !== message.user_name;
-                  const showDate = !prevMessage || 
-                    formatDate(prevMessage.created_at) !== formatDate(message.created_at);
-                  
+                <TypingIndicator typingUsers={typingUsers} />
+              </div>
+            </div>
+          ) : (
+            <VirtualMessageList
+              ref={messageListRef}
+              items={timeline}
+              getKey={getTimelineKey}
+              getDateLabel={(item) => formatDate(firstMessageOf(item).created_at)}
+              onNearTop={handleMessagesNearTop}
+              onNearBottom={handleMessagesNearBottom}
+              followOutput={!hasNewer}
+              className="px-4 py-4"
+              header={
+                <div className="max-w-4xl mx-auto">
+                  {loadingOlder && (
+                    <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                      Loading earlier messages...
+                    </div>
+                  )}
+                  {!hasMore && messages.length > 0 && (
+                    <div className="text-center py-4 text-xs text-gray-400">
+                      This is the beginning of #{currentRoom.name}
+                    </div>
+                  )}
+                </div>
+              }
+              footer={
+                <div className="max-w-4xl mx-auto">
+                  {loadingNewer && (
+                    <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                      Loading newer messages...
+                    </div>
+                  )}
+                  {!hasNewer && <TypingIndicator typingUsers={typingUsers} />}
+                </div>
+              }
+              renderItem={(item, index) => {
+                const prevItem = timeline[index - 1];
+                const nextItem = timeline[index + 1];
+                const firstMessage = firstMessageOf(item);
+                const prevMessage = prevItem?.type === 'message' ? prevItem.message : undefined;
+                const nextMessage = nextItem?.type === 'message' ? nextItem.message : undefined;
+
+                const showDate = !prevItem ||
+                  formatDate(lastMessageOf(prevItem).created_at) !== formatDate(firstMessage.created_at);
+                const dateSeparator = showDate && (
+                  <div className="text-center my-6">
+                    <span className="bg-white/90 backdrop-blur-sm px-4 py-2 rounded-full text-xs text-gray-500 border shadow-sm">
+                      {formatDate(firstMessage.created_at)}
+                    </span>
+                  </div>
+                );
+
+                if (item.type === 'events') {
+                  const groupKey = getTimelineKey(item);
                   return (
-                    <div key={message.id}>
-                      {showDate && (
-                        <div className="text-center my-6">
-                          <span className="bg-white/90 backdrop-blur-sm px-4 py-2 rounded-full text-xs text-gray-500 border shadow-sm">
-                            {formatDate(message.created_at)}
-                          </span>
-                        </div>
-                      )}
-                      
-                      <MessageBubble
-                        message={message}
-                        isOwnMessage={isOwnMessage}
-                        showAvatar={showAvatar}
-                        showName={showName}
-                        isLastInGroup={isLastInGroup}
+                    <div className="max-w-4xl mx-auto pb-1">
+                      {dateSeparator}
+                      <SystemMessageGroup
+                        messages={item.messages}
                         formatTime={formatTime}
-                        onReply={handleReply}
-                        isOnline={getOnlineStatus(message.user_name)}
+                        expanded={expandedEventGroups.has(groupKey)}
+                        onToggle={() => toggleEventGroup(groupKey)}
                       />
                     </div>
                   );
-                })
-              )}
-              
-              <TypingIndicator typingUsers={typingUsers} />
-              <div ref={messagesEndRef} />
+                }
+
+                const message = item.message;
+                const isOwnMessage = !!user && message.user_id === user.id;
+                const showAvatar = !prevMessage || prevMessage.user_name !== message.user_name;
+                const showName = showAvatar && !isOwnMessage;
+                const isLastInGroup = !nextMessage || nextMessage.user_name !== message.user_name;
+
+                return (
+                  <div className="max-w-4xl mx-auto pb-1">
+                    {dateSeparator}
+
+                    {message.id === unreadAtEntry?.firstUnreadId && (
+                      <div className="flex items-center gap-3 my-4 px-4">
+                        <div className="flex-1 h-px bg-red-300"></div>
+                        <span className="text-xs font-semibold text-red-500 uppercase tracking-wide">New messages</span>
+                        <div className="flex-1 h-px bg-red-300"></div>
+                      </div>
+                    )}
+
+                    <MessageBubble
+                      message={message}
+                      isOwnMessage={isOwnMessage}
+                      showAvatar={showAvatar}
+                      showName={showName}
+                      isLastInGroup={isLastInGroup}
+                      formatTime={formatTime}
+                      onReply={handleReply}
+                      presence={getUserPresence(message.user_id)}
+                      replyTo={message.reply_to_id ? messagesById.get(message.reply_to_id) : null}
+                      replyCount={replyCounts.get(message.id) || 0}
+                      isHighlighted={highlightedMessageId === message.id}
+                      onJumpToMessage={jumpToMessage}
+                      onOpenThread={handleOpenThread}
+                      reactions={reactionsByMessage[message.id]}
+                      currentUserName={userName}
+                      currentUserId={user?.id}
+                      onToggleReaction={toggleReaction}
+                      canEdit={canEditMessage(message)}
+                      canDelete={(isOwnMessage || canModerate) && !message.id.startsWith('temp-')}
+                      onEdit={editMessage}
+                      onDelete={deleteMessage}
+                      onLoadEditHistory={loadEditHistory}
+                      seenBy={isOwnMessage && isLastInGroup && !message.send_status ? getSeenBy(message) : undefined}
+                      onRetry={retryMessage}
+                      onDiscard={discardMessage}
+                    />
+                  </div>
+                );
+              }}
+            />
+          )}
+
+          {/* Viewing History Notice */}
+          {hasNewer && (
+            <div className="bg-amber-50 border-t border-amber-200 px-4 py-2">
+              <div className="max-w-4xl mx-auto flex items-center justify-between gap-3">
+                <p className="text-sm text-amber-800">You're viewing older messages</p>
+                <button
+                  onClick={handleJumpToLatest}
+                  className="flex items-center gap-1 text-sm font-medium text-amber-800 hover:text-amber-900"
+                >
+                  Jump to latest
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Reply Preview */}
           {replyingTo && (
@@ -497,7 +1184,7 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
                   <div className="w-1 h-8 bg-blue-500 rounded-full"></div>
                   <div>
                     <p className="text-sm font-medium text-blue-700">Replying to {replyingTo.user_name}</p>
-                    <p className="text-sm text-blue-600 truncate max-w-xs">{replyingTo.content}</p>
+                    <p className="text-sm text-blue-600 truncate max-w-xs">{markdownToPlainText(replyingTo.content) || '📎 Attachment'}</p>
                   </div>
                 </div>
                 <button
@@ -510,29 +1197,91 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
             </div>
           )}
 
+          {/* Timeout Notice */}
+          {ownTimeout && (
+            <div className="bg-orange-50 border-t border-orange-200 px-4 py-2">
+              <p className="max-w-4xl mx-auto flex items-center gap-2 text-sm text-orange-800">
+                <Timer className="w-4 h-4" />
+                A moderator timed you out. You can read along and post again {formatSanctionEnd(ownTimeout)}.
+              </p>
+            </div>
+          )}
+
           {/* Enhanced Message Input */}
           <div className="bg-white/95 backdrop-blur-md border-t border-gray-200 p-4 shadow-lg relative">
             <form onSubmit={handleMessageSubmit} className="max-w-4xl mx-auto">
+              <ComposerAttachments attachments={pendingAttachments} onRemove={removeAttachment} />
+
+              {/* Formatting Preview */}
+              {showPreview && (
+                <div className="mb-3 max-h-60 overflow-y-auto px-4 py-3 border border-gray-200 rounded-2xl bg-gray-50">
+                  {newMessage.trim() ? (
+                    <MarkdownContent content={newMessage} currentUserName={userName || undefined} className="text-sm leading-relaxed text-gray-900" />
+                  ) : (
+                    <p className="text-sm text-gray-400">
+                      Nothing to preview. Use **bold**, *italic*, `code`, ```code blocks```, &gt; quotes, [links](https://...) and @ to mention someone.
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="flex gap-3 items-end">
                 <div className="flex-1 relative">
-                  <input
+                  {mentionQuery && (
+                    <MentionAutocomplete
+                      candidates={mentionCandidates}
+                      selectedIndex={mentionIndex}
+                      onSelect={insertMention}
+                      onHover={setMentionIndex}
+                    />
+                  )}
+                  <textarea
                     ref={inputRef}
-                    type="text"
+                    rows={1}
                     value={newMessage}
                     onChange={handleInputChange}
-                    onKeyPress={handleKeyPress}
+                    onKeyDown={handleKeyDown}
+                    onPaste={handlePaste}
+                    onClick={(e) => updateMentionQuery(newMessage, e.currentTarget.selectionStart)}
+                    onBlur={() => setMentionQuery(null)}
                     placeholder={replyingTo ? `Reply to ${replyingTo.user_name}...` : "Type your message..."}
-                    className="w-full px-4 py-3 pr-24 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all duration-200 shadow-sm focus:shadow-md"
+                    className="block w-full px-4 py-3 pr-28 border border-gray-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-shadow duration-200 shadow-sm focus:shadow-md resize-none disabled:bg-gray-50 disabled:cursor-not-allowed"
                     maxLength={1000}
                     autoComplete="off"
+                    disabled={!!ownTimeout}
                   />
-                  <div className="absolute right-4 top-1/2 transform -translate-y-1/2 flex items-center gap-2">
+                  <div className="absolute right-4 bottom-3 flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setShowPreview(!showPreview)}
+                      className={`p-1 rounded-md transition-colors ${showPreview ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-gray-600'}`}
+                      title={showPreview ? 'Hide formatting preview' : 'Preview formatting'}
+                    >
+                      {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
                     <span className={`text-xs ${newMessage.length > 900 ? 'text-red-500' : 'text-gray-400'}`}>
                       {newMessage.length}/1000
                     </span>
                   </div>
                 </div>
 
+                {/* Attach Button */}
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="p-3 text-gray-600 hover:bg-gray-100 rounded-2xl transition-colors"
+                  title="Attach files"
+                >
+                  <Paperclip className="w-5 h-5" />
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={currentRoom.allowed_attachment_types?.join(',')}
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+
                 {/* Emoji Picker Button */}
                 <div className="relative">
                   <button
@@ -551,7 +1300,8 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
                 
                 <button
                   type="submit"
-                  disabled={!newMessage.trim()}
+                  disabled={(!newMessage.trim() && readyAttachments.length === 0) || isUploading || !!ownTimeout}
+                  title={isUploading ? 'Waiting for uploads to finish...' : undefined}
                   className="bg-gradient-to-r from-blue-600 to-purple-600 text-white p-3 rounded-2xl hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 hover:scale-105 active:scale-95 shadow-lg hover:shadow-xl"
                 >
                   <Send className="w-5 h-5" />
@@ -561,8 +1311,38 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
           </div>
         </div>
 
+        {/* Search Results Panel */}
+        {isSearchOpen && (
+          <SearchResultsPanel
+            results={search.results}
+            loading={search.loading}
+            error={search.error}
+            hasMore={search.hasMore}
+            formatTime={formatTime}
+            formatDate={formatDate}
+            onSelect={handleSearchResultSelect}
+            onLoadMore={search.loadMore}
+            onClose={closeSearch}
+          />
+        )}
+
+        {/* Thread Panel */}
+        {activeThreadId && !isSearchOpen && (
+          <ThreadPanel
+            parent={messagesById.get(activeThreadId) || null}
+            replies={threadReplies}
+            loading={threadLoading}
+            userName={userName}
+            userId={user?.id}
+            formatTime={formatTime}
+            onSend={handleThreadReply}
+            onJumpToMessage={jumpToMessage}
+            onClose={closeThread}
+          />
+        )}
+
         {/* Enhanced Participants Sidebar */}
-        <div className="hidden lg:block w-80 bg-white/95 backdrop-blur-md border-l border-gray-200 shadow-lg">
+        <div className={`${activeThreadId || isSearchOpen ? 'hidden' : 'hidden lg:block'} w-80 bg-white/95 backdrop-blur-md border-l border-gray-200 shadow-lg`}>
           <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-purple-50">
             <div className="flex items-center justify-between mb-2">
               <h3 className="font-semibold text-gray-900 flex items-center gap-2">
@@ -578,7 +1358,7 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
             </div>
             <div className="flex gap-4 text-xs text-gray-500">
               <span>Active: {participantsLoading ? '...' : onlineParticipants.length}</span>
-              <span>Away: {participantsLoading ? '...' : offlineParticipants.length}</span>
+              <span>Offline: {participantsLoading ? '...' : offlineParticipants.length}</span>
               <span>Total: {participantsLoading ? '...' : participantCount}</span>
             </div>
           </div>
@@ -599,34 +1379,62 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
                   Online ({onlineParticipants.length})
                 </h4>
                 <div className="space-y-2">
-                  {onlineParticipants.map((participant) => (
-                    <div
-                      key={participant.user_name}
-                      className="flex items-center gap-3 p-3 rounded-xl hover:bg-green-50 transition-all duration-200 border border-transparent hover:border-green-200 hover:shadow-sm"
-                    >
-                      <div className="relative">
-                        <div className="w-10 h-10 bg-gradient-to-r from-green-400 to-blue-500 rounded-full flex items-center justify-center text-white text-sm font-medium shadow-md">
-                          {participant.user_name[0].toUpperCase()}
+                  {onlineParticipants.map((participant) => {
+                    const presence = getUserPresence(participant.user_id);
+                    const presenceStatus = presence?.status || 'active';
+                    const participantStatus = getActiveCustomStatus(presence);
+
+                    return (
+                      <div
+                        key={participant.user_name}
+                        className="flex items-center gap-3 p-3 rounded-xl hover:bg-green-50 transition-all duration-200 border border-transparent hover:border-green-200 hover:shadow-sm"
+                      >
+                        <div className="relative">
+                          <div className="w-10 h-10 bg-gradient-to-r from-green-400 to-blue-500 rounded-full flex items-center justify-center text-white text-sm font-medium shadow-md">
+                            {participant.user_name[0].toUpperCase()}
+                          </div>
+                          <div
+                            className={`absolute -bottom-1 -right-1 w-4 h-4 ${PRESENCE_STATUS_DOT_CLASSES[presenceStatus]} border-2 border-white rounded-full ${presenceStatus === 'active' ? 'animate-pulse' : ''}`}
+                            title={PRESENCE_STATUS_LABELS[presenceStatus]}
+                          ></div>
                         </div>
-                        <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 border-2 border-white rounded-full animate-pulse"></div>
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2">
-                          <p className="text-sm font-medium text-gray-900 truncate">
-                            {participant.user_name}
-                            {participant.user_name === userName && ' (You)'}
-                          </p>
-                          {participant.is_admin && (
-                            <span className="text-xs bg-gradient-to-r from-blue-100 to-purple-100 text-blue-700 px-2 py-0.5 rounded-full border">
-                              Admin
-                            </span>
+                        
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <p className="text-sm font-medium text-gray-900 truncate">
+                              {participant.user_name}
+                              {participant.user_id === user?.id && ' (You)'}
+                            </p>
+                            {participant.role !== 'member' && (
+                              <span className="text-xs bg-gradient-to-r from-blue-100 to-purple-100 text-blue-700 px-2 py-0.5 rounded-full border">
+                                {ROOM_ROLE_LABELS[participant.role]}
+                              </span>
+                            )}
+                            {timeouts.has(participant.user_id) && (
+                              <span title={`Timed out ${formatSanctionEnd(timeouts.get(participant.user_id)!)}`}>
+                                <Timer className="w-3.5 h-3.5 text-orange-500" />
+                              </span>
+                            )}
+                          </div>
+                          {participantStatus ? (
+                            <p className="text-xs text-gray-600 truncate" title={PRESENCE_STATUS_LABELS[presenceStatus]}>
+                              {participantStatus.status_emoji} {participantStatus.status_text}
+                            </p>
+                          ) : (
+                            <p className={`text-xs font-medium ${
+                              presenceStatus === 'active' ? 'text-green-600' :
+                              presenceStatus === 'dnd' ? 'text-red-600' :
+                              presenceStatus === 'idle' ? 'text-yellow-600' : 'text-orange-600'
+                            }`}>
+                              {PRESENCE_STATUS_LABELS[presenceStatus]}
+                            </p>
                           )}
                         </div>
-                        <p className="text-xs text-green-600 font-medium">Active now</p>
+
+                        <ParticipantMenu userName={participant.user_name} actions={getParticipantActions(participant)} />
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -636,7 +1444,7 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
               <div className="p-4">
                 <h4 className="text-sm font-medium text-gray-500 mb-3 flex items-center gap-2">
                   <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
-                  Away ({offlineParticipants.length})
+                  Offline ({offlineParticipants.length})
                 </h4>
                 <div className="space-y-2">
                   {offlineParticipants.map((participant) => (
@@ -656,14 +1464,21 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
                           <p className="text-sm font-medium text-gray-700 truncate">
                             {participant.user_name}
                           </p>
-                          {participant.is_admin && (
+                          {participant.role !== 'member' && (
                             <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full border">
-                              Admin
+                              {ROOM_ROLE_LABELS[participant.role]}
+                            </span>
+                          )}
+                          {timeouts.has(participant.user_id) && (
+                            <span title={`Timed out ${formatSanctionEnd(timeouts.get(participant.user_id)!)}`}>
+                              <Timer className="w-3.5 h-3.5 text-orange-500" />
                             </span>
                           )}
                         </div>
-                        <p className="text-xs text-gray-500">Away</p>
+                        <p className="text-xs text-gray-500">Offline</p>
                       </div>
+
+                      <ParticipantMenu userName={participant.user_name} actions={getParticipantActions(participant)} />
                     </div>
                   ))}
                 </div>
@@ -774,11 +1589,21 @@ export function ChatRoom({ room, onLeave }: ChatRoomProps) {
       {/* Settings Modal */}
       <RoomSettings
         room={currentRoom}
+        role={ownRole}
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
         onRoomUpdated={setCurrentRoom}
         onRoomDeleted={onLeave}
       />
+
+      {sanctionTarget && (
+        <SanctionModal
+          kind={sanctionTarget.kind}
+          userName={sanctionTarget.participant.user_name}
+          onClose={() => setSanctionTarget(null)}
+          onSubmit={(minutes) => sanctionParticipant(sanctionTarget.participant.user_id, sanctionTarget.kind, minutes)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { highlightCode, TokenType } from '../lib/highlight';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-300',
+  string: 'text-green-300',
+  comment: 'text-gray-500 italic',
+  number: 'text-orange-300',
+  literal: 'text-sky-300'
+};
+
+export function CodeBlock({ code, language }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+  const copiedTimeoutRef = useRef<NodeJS.Timeout>();
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  useEffect(() => {
+    return () => {
+      if (copiedTimeoutRef.current) {
+        clearTimeout(copiedTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+
+      if (copiedTimeoutRef.current) {
+        clearTimeout(copiedTimeoutRef.current);
+      }
+      copiedTimeoutRef.current = setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-xl overflow-hidden bg-gray-900 text-gray-100 text-left shadow-inner">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-800 text-xs text-gray-400">
+        <span className="font-mono">{language || 'code'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-1 hover:text-white transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed font-mono">
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
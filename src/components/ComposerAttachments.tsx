@@ -0,0 +1,65 @@
+import { FileText, X, AlertCircle } from 'lucide-react';
+import { PendingAttachment } from '../hooks/useAttachmentUploads';
+import { formatFileSize } from '../lib/storage';
+
+interface ComposerAttachmentsProps {
+  attachments: PendingAttachment[];
+  onRemove: (id: string) => void;
+}
+
+export function ComposerAttachments({ attachments, onRemove }: ComposerAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-3">
+      {attachments.map(item => (
+        <div
+          key={item.id}
+          className={`relative flex-shrink-0 w-24 rounded-xl border bg-white shadow-sm overflow-hidden ${
+            item.status === 'error' ? 'border-red-300' : 'border-gray-200'
+          }`}
+          title={item.error || item.file.name}
+        >
+          {item.previewUrl ? (
+            <img src={item.previewUrl} alt={item.file.name} className="w-24 h-20 object-cover" />
+          ) : (
+            <div className="w-24 h-20 flex flex-col items-center justify-center gap-1 bg-gray-50 text-gray-500 px-2">
+              <FileText className="w-6 h-6" />
+              <span className="text-[10px] truncate w-full text-center">{item.file.name}</span>
+            </div>
+          )}
+
+          <div className="px-2 py-1 text-[10px] text-gray-500 flex items-center gap-1">
+            {item.status === 'error' ? (
+              <span className="flex items-center gap-1 text-red-600">
+                <AlertCircle className="w-3 h-3" />
+                Failed
+              </span>
+            ) : (
+              formatFileSize(item.file.size)
+            )}
+          </div>
+
+          {/* Upload Progress */}
+          {item.status === 'uploading' && (
+            <div className="absolute bottom-0 left-0 right-0 h-1 bg-gray-200">
+              <div
+                className="h-full bg-gradient-to-r from-blue-600 to-purple-600 transition-all duration-200"
+                style={{ width: `${Math.round(item.progress * 100)}%` }}
+              />
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={() => onRemove(item.id)}
+            className="absolute top-1 right-1 p-0.5 bg-black/60 text-white rounded-full hover:bg-black/80 transition-colors"
+            title="Remove"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
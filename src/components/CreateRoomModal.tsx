@@ -42,29 +42,37 @@ export function CreateRoomModal({ isOpen, onClose, onCreated }: CreateRoomModalP
         name: formData.name.trim(),
         description: formData.description.trim() || null,
         type: formData.type,
-        password_hash: formData.type === 'password' && formData.password ? 
-          btoa(formData.password) : null,
         max_users: formData.maxUsers ? parseInt(formData.maxUsers) : null,
-        created_by: userName,
         is_active: true,
         current_users: 0
       };
 
-      const { data, error } = await supabase
-        .from('rooms')
-        .insert([roomData])
-        .select()
-        .single();
+      // Protected rooms are created together with their password, which the
+      // database hashes and keeps out of clients' reach
+      const { data, error } = formData.type === 'password'
+        ? await supabase
+            .rpc('create_password_room', {
+              p_name: roomData.name,
+              p_description: roomData.description,
+              p_max_users: roomData.max_users,
+              p_password: formData.password
+            })
+            .single()
+        : await supabase
+            .from('rooms')
+            .insert([roomData])
+            .select()
+            .single();
 
       if (error) throw error;
 
-      // Add creator as admin participant
+      // Add creator as the owner of the room
       await supabase
         .from('room_participants')
         .insert([{
           room_id: data.id,
           user_name: userName,
-          is_admin: true
+          role: 'owner'
         }]);
 
       setFormData({
@@ -4,6 +4,7 @@ interface EmojiPickerProps {
   isOpen: boolean;
   onClose: () => void;
   onEmojiSelect: (emoji: string) => void;
+  align?: 'left' | 'right';
 }
 
 const emojis = [
@@ -27,11 +28,11 @@ const emojis = [
   '⛅', '☁️', '🌤️', '⛈️', '🌩️', '🌨️', '❄️', '☃️', '⛄', '🌊'
 ];
 
-export function EmojiPicker({ isOpen, onClose, onEmojiSelect }: EmojiPickerProps) {
+export function EmojiPicker({ isOpen, onClose, onEmojiSelect, align = 'right' }: EmojiPickerProps) {
   if (!isOpen) return null;
 
   return (
-    <div className="absolute bottom-full right-0 mb-2 bg-white rounded-xl shadow-xl border border-gray-200 p-4 w-80 max-h-64 overflow-y-auto z-50">
+    <div className={`absolute bottom-full ${align === 'right' ? 'right-0' : 'left-0'} mb-2 bg-white rounded-xl shadow-xl border border-gray-200 p-4 w-80 max-h-64 overflow-y-auto z-50`}>
       <div className="grid grid-cols-8 gap-2">
         {emojis.map((emoji, index) => (
           <button
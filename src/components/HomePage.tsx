@@ -1,26 +1,33 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, MessageCircle, Users, RefreshCw as Refresh, Zap, Globe, TrendingUp, Clock, Star, Activity, Wifi, WifiOff, Search, Filter } from 'lucide-react';
-import { supabase, Room } from '../lib/supabase';
+import { Plus, MessageCircle, Users, RefreshCw as Refresh, Zap, Globe, TrendingUp, Clock, Star, Activity, Wifi, WifiOff, Search, Filter, Ban, X } from 'lucide-react';
+import { supabase, Room, MessageMention, RoomSanction } from '../lib/supabase';
+import { activeSanctionFilter, formatSanctionEnd } from '../lib/sanctions';
+import { subscribeToTopic, LOBBY_TOPIC, postgresChanges } from '../lib/realtime';
 import { useUser } from '../contexts/UserContext';
 import { RoomCard } from './RoomCard';
 import { CreateRoomModal } from './CreateRoomModal';
 import { PasswordModal } from './PasswordModal';
 import { ChatRoom } from './ChatRoom';
-import { useParams, useNavigate } from 'react-router-dom';
+import { MentionsInbox } from './MentionsInbox';
+import { ProfileModal } from './ProfileModal';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
+import { useRoomsPresence } from '../hooks/useRoomsPresence';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 
 export function HomePage() {
-  const { userName } = useUser();
+  const { user, userName } = useUser();
   const { roomId } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showPasswordModal, setShowPasswordModal] = useState(false);
+  const [showProfileModal, setShowProfileModal] = useState(false);
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
   const [currentRoom, setCurrentRoom] = useState<Room | null>(null);
   const [passwordError, setPasswordError] = useState('');
   const [joiningRoom, setJoiningRoom] = useState(false);
-  const [totalUsers, setTotalUsers] = useState(0);
   const [totalMessages, setTotalMessages] = useState(0);
   const [filter, setFilter] = useState<'all' | 'public' | 'password' | 'active'>('all');
   const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -28,46 +35,50 @@ export function HomePage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>('connecting');
   const [refreshing, setRefreshing] = useState(false);
+  const [banNotice, setBanNotice] = useState<{ roomName: string; ban: RoomSanction } | null>(null);
+  const { unreadCounts, refetch: refetchUnreadCounts } = useUnreadCounts(user?.id || '');
+  const { onlineByRoom } = useRoomsPresence();
+  const totalUsers = new Set(Object.values(onlineByRoom).flat()).size;
+  const getOnlineCount = (room: Room) => onlineByRoom[room.id]?.length || 0;
 
   useEffect(() => {
     loadRooms();
     loadStats();
     
-    // Set up real-time subscriptions with better error handling
-    const roomsChannel = supabase
-      .channel(`rooms_changes_${Date.now()}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'rooms',
-        },
-        (payload) => {
-          console.log('🏠 Room change:', payload);
-          loadRooms();
-          loadStats();
-          setLastUpdate(new Date());
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'room_participants',
-        },
-        (payload) => {
-          console.log('👥 Participants change:', payload);
-          loadRooms();
-          setLastUpdate(new Date());
-        }
-      )
-      .subscribe((status) => {
+    // Set up real-time subscriptions on the shared lobby channel
+    const unsubscribe = subscribeToTopic(LOBBY_TOPIC, {
+      bindings: [
+        postgresChanges(
+          {
+            event: '*',
+            schema: 'public',
+            table: 'rooms',
+          },
+          (payload) => {
+            console.log('🏠 Room change:', payload);
+            loadRooms();
+            loadStats();
+            setLastUpdate(new Date());
+          }
+        ),
+        postgresChanges(
+          {
+            event: '*',
+            schema: 'public',
+            table: 'room_participants',
+          },
+          (payload) => {
+            console.log('👥 Participants change:', payload);
+            loadRooms();
+            setLastUpdate(new Date());
+          }
+        )
+      ],
+      onStatus: (status) => {
         console.log('🔌 Rooms subscription status:', status);
-        setConnectionStatus(status === 'SUBSCRIBED' ? 'connected' : 
-                          status === 'CONNECTING' ? 'connecting' : 'disconnected');
-      });
+        setConnectionStatus(status);
+      }
+    });
 
     // Auto-refresh every 15 seconds
     const refreshInterval = setInterval(() => {
@@ -94,7 +105,7 @@ export function HomePage() {
     window.addEventListener('offline', handleOffline);
 
     return () => {
-      supabase.removeChannel(roomsChannel);
+      unsubscribe();
       clearInterval(refreshInterval);
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
@@ -116,35 +127,20 @@ export function HomePage() {
       setRefreshing(true);
       setConnectionStatus('connecting');
       
-      // Load public and password-protected rooms
+      // Public and password-protected rooms, and private rooms only for their members
       const { data, error } = await supabase
         .from('rooms')
         .select('*')
-        .in('type', ['public', 'password'])
         .eq('is_active', true)
         .order('current_users', { ascending: false });
 
       if (error) throw error;
 
-      // Get real participant counts
-      const roomsWithCounts = await Promise.all(
-        (data || []).map(async (room) => {
-          const { count } = await supabase
-            .from('room_participants')
-            .select('*', { count: 'exact', head: true })
-            .eq('room_id', room.id);
-
-          return {
-            ...room,
-            current_users: count || 0
-          };
-        })
-      );
-
-      setRooms(roomsWithCounts);
-      setTotalUsers(roomsWithCounts.reduce((sum, room) => sum + room.current_users, 0));
+      // Members of password-protected rooms are only visible to each other, so
+      // counts come from current_users rather than from room_participants
+      setRooms(data || []);
       setConnectionStatus('connected');
-      console.log(`✅ Loaded ${roomsWithCounts.length} rooms`);
+      console.log(`✅ Loaded ${data?.length || 0} rooms`);
     } catch (error) {
       console.error('❌ Error loading rooms:', error);
       setConnectionStatus('disconnected');
@@ -177,14 +173,48 @@ export function HomePage() {
     }
   };
 
-  const handleJoinRoom = (room: Room) => {
+  const findActiveBan = async (targetRoomId: string) => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('room_sanctions')
+      .select('*')
+      .eq('room_id', targetRoomId)
+      .eq('user_id', user.id)
+      .eq('kind', 'ban')
+      .or(activeSanctionFilter())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error checking bans:', error);
+      return null;
+    }
+
+    return data;
+  };
+
+  const handleJoinRoom = async (room: Room) => {
+    // The database turns banned users away too; this tells them why
+    const ban = await findActiveBan(room.id);
+    if (ban) {
+      setBanNotice({ roomName: room.name, ban });
+      setCurrentRoom(null);
+      if (roomId) navigate('/', { replace: true });
+      return;
+    }
+    setBanNotice(null);
+
     if (room.type === 'password') {
+      setCurrentRoom(null);
       setSelectedRoom(room);
       setShowPasswordModal(true);
       setPasswordError('');
     } else {
       setCurrentRoom(room);
-      navigate(`/room/${room.id}`);
+      // Keep query parameters such as a linked message
+      navigate(`/room/${room.id}${location.search}`);
     }
   };
 
@@ -195,15 +225,25 @@ export function HomePage() {
     setPasswordError('');
 
     try {
-      const hashedPassword = btoa(password);
-      
-      if (hashedPassword !== selectedRoom.password_hash) {
+      // Checked by the database, which also makes us a member
+      const { data: joined, error } = await supabase.rpc('join_protected_room', {
+        p_room_id: selectedRoom.id,
+        p_password: password
+      });
+
+      // Such as too many wrong passwords in a row
+      if (error) {
+        setPasswordError(error.message);
+        return;
+      }
+
+      if (!joined) {
         setPasswordError('Incorrect password');
         return;
       }
 
       setCurrentRoom(selectedRoom);
-      navigate(`/room/${selectedRoom.id}`);
+      navigate(`/room/${selectedRoom.id}${location.search}`);
       setShowPasswordModal(false);
       setSelectedRoom(null);
     } catch (error) {
@@ -217,6 +257,7 @@ export function HomePage() {
     setCurrentRoom(null);
     navigate('/');
     loadRooms(); // Refresh room list
+    refetchUnreadCounts();
   };
 
   const filteredRooms = rooms.filter(room => {
@@ -226,14 +267,14 @@ export function HomePage() {
       room.created_by.toLowerCase().includes(searchQuery.toLowerCase());
     
     const matchesFilter = filter === 'all' || 
-      (filter === 'active' && room.current_users > 0) ||
+      (filter === 'active' && getOnlineCount(room) > 0) ||
       room.type === filter;
     
     return matchesSearch && matchesFilter;
   });
 
   const getActivityLevel = () => {
-    const activeRooms = rooms.filter(r => r.current_users > 0).length;
+    const activeRooms = rooms.filter(r => getOnlineCount(r) > 0).length;
     if (activeRooms > 10) return { level: 'Very High', color: 'text-red-600', bg: 'bg-red-100' };
     if (activeRooms > 5) return { level: 'High', color: 'text-orange-600', bg: 'bg-orange-100' };
     if (activeRooms > 2) return { level: 'Medium', color: 'text-yellow-600', bg: 'bg-yellow-100' };
@@ -253,8 +294,12 @@ export function HomePage() {
     }
   };
 
+  const handleMentionSelect = (mention: MessageMention) => {
+    navigate(`/room/${mention.room_id}?message=${mention.message_id}`);
+  };
+
   if (currentRoom) {
-    return <ChatRoom room={currentRoom} onLeave={handleLeaveRoom} />;
+    return <ChatRoom key={currentRoom.id} room={currentRoom} onLeave={handleLeaveRoom} />;
   }
 
   return (
@@ -293,13 +338,23 @@ export function HomePage() {
             </div>
 
             <div className="flex items-center gap-3">
-              <div className="hidden sm:flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-sm border">
+              <button
+                onClick={() => setShowProfileModal(true)}
+                className="hidden sm:flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-sm border hover:bg-gray-50 transition-colors"
+                title="Your profile"
+              >
                 <div className="w-8 h-8 bg-gradient-to-r from-green-400 to-blue-500 rounded-full flex items-center justify-center text-white text-sm font-medium">
                   {userName?.[0]?.toUpperCase()}
                 </div>
                 <span className="text-sm font-medium text-gray-900">{userName}</span>
                 <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-              </div>
+              </button>
+
+              {user && (
+                <div className="bg-white rounded-lg shadow-md border">
+                  <MentionsInbox userId={user.id} onSelect={handleMentionSelect} />
+                </div>
+              )}
 
               <button
                 onClick={() => setShowCreateModal(true)}
@@ -337,7 +392,7 @@ export function HomePage() {
               <div>
                 <p className="text-2xl font-bold text-gray-900">{rooms.length}</p>
                 <p className="text-gray-600">Active Rooms</p>
-                <p className="text-xs text-gray-500">{rooms.filter(r => r.current_users > 0).length} with users</p>
+                <p className="text-xs text-gray-500">{rooms.filter(r => getOnlineCount(r) > 0).length} with users online</p>
               </div>
             </div>
           </div>
@@ -400,7 +455,7 @@ export function HomePage() {
               <Filter className="w-4 h-4 text-gray-500" />
               {[
                 { key: 'all', label: 'All', icon: Globe, count: rooms.length },
-                { key: 'active', label: 'Active', icon: Zap, count: rooms.filter(r => r.current_users > 0).length },
+                { key: 'active', label: 'Active', icon: Zap, count: rooms.filter(r => getOnlineCount(r) > 0).length },
                 { key: 'public', label: 'Public', icon: Globe, count: rooms.filter(r => r.type === 'public').length },
                 { key: 'password', label: 'Protected', icon: Star, count: rooms.filter(r => r.type === 'password').length }
               ].map(({ key, label, icon: Icon, count }) => (
@@ -426,6 +481,22 @@ export function HomePage() {
           </div>
         </div>
 
+        {/* Ban Notice */}
+        {banNotice && (
+          <div className="mb-6 flex items-center gap-3 bg-red-50 border border-red-200 text-red-800 rounded-xl px-4 py-3">
+            <Ban className="w-5 h-5 flex-shrink-0" />
+            <p className="flex-1 text-sm">
+              You are banned from <span className="font-semibold">{banNotice.roomName}</span> {formatSanctionEnd(banNotice.ban)}.
+            </p>
+            <button
+              onClick={() => setBanNotice(null)}
+              className="p-1 hover:bg-red-100 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Room Grid */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-6">
@@ -466,6 +537,8 @@ export function HomePage() {
                   key={room.id}
                   room={room}
                   onJoin={handleJoinRoom}
+                  unreadCount={unreadCounts[room.id]}
+                  onlineUsers={onlineByRoom[room.id]}
                 />
               ))}
             </div>
@@ -547,6 +620,14 @@ export function HomePage() {
         loading={joiningRoom}
         error={passwordError}
       />
+
+      {/* Mounted on open so the form starts from the current profile */}
+      {showProfileModal && (
+        <ProfileModal
+          isOpen={showProfileModal}
+          onClose={() => setShowProfileModal(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
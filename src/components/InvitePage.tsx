@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Link, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+export function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+
+    const acceptInvite = async () => {
+      console.log('🔗 Accepting room invite');
+
+      const { data: roomId, error } = await supabase.rpc('accept_room_invite', { p_token: token });
+      if (cancelled) return;
+
+      if (error) {
+        console.error('❌ Error accepting invite:', error);
+        setError(error.message);
+        return;
+      }
+
+      // The room list picks up the room now that we are a member
+      navigate(`/room/${roomId}`, { replace: true });
+    };
+
+    acceptInvite();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 text-center">
+        {error ? (
+          <>
+            <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Can't join this room</h2>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <button
+              onClick={() => navigate('/', { replace: true })}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Back to rooms
+            </button>
+          </>
+        ) : (
+          <>
+            <Link className="w-12 h-12 text-blue-600 mx-auto mb-4 animate-pulse" />
+            <h2 className="text-xl font-bold text-gray-900">Joining room...</h2>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, BlockNode, InlineNode } from '../lib/markdown';
+import { CodeBlock } from './CodeBlock';
+
+interface MarkdownContentProps {
+  content: string;
+  isOwnMessage?: boolean;
+  currentUserName?: string;
+  className?: string;
+}
+
+interface RenderOptions {
+  isOwnMessage: boolean;
+  currentUserName?: string;
+}
+
+function renderInline(nodes: InlineNode[], options: RenderOptions): React.ReactNode[] {
+  const { isOwnMessage, currentUserName } = options;
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return (
+          <code
+            key={index}
+            className={`px-1 py-0.5 rounded font-mono text-[0.85em] ${
+              isOwnMessage ? 'bg-white/20' : 'bg-gray-100 text-pink-600'
+            }`}
+          >
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children, options)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, options)}</em>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className={`underline break-all ${isOwnMessage ? 'text-white hover:text-white/80' : 'text-blue-600 hover:text-blue-700'}`}
+          >
+            {renderInline(node.children, options)}
+          </a>
+        );
+      case 'mention': {
+        const isMe = !!currentUserName && node.userName.toLowerCase() === currentUserName.toLowerCase();
+        return (
+          <span
+            key={index}
+            className={`inline-block px-1 rounded font-medium ${
+              isMe
+                ? 'bg-amber-200 text-amber-900'
+                : isOwnMessage ? 'bg-white/20 text-white' : 'bg-blue-50 text-blue-700'
+            }`}
+          >
+            @{node.userName}
+          </span>
+        );
+      }
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[], options: RenderOptions): React.ReactNode[] {
+  const { isOwnMessage } = options;
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={index} className="whitespace-pre-wrap break-words">
+            {renderInline(block.children, options)}
+          </p>
+        );
+      case 'code':
+        return <CodeBlock key={index} code={block.code} language={block.language} />;
+      case 'blockquote':
+        return (
+          <blockquote
+            key={index}
+            className={`pl-3 border-l-4 space-y-1 ${isOwnMessage ? 'border-white/50 text-white/90' : 'border-gray-300 text-gray-600'}`}
+          >
+            {renderBlocks(block.children, options)}
+          </blockquote>
+        );
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag
+            key={index}
+            start={block.ordered ? block.start : undefined}
+            className={`pl-5 space-y-0.5 text-left ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="break-words">{renderInline(item, options)}</li>
+            ))}
+          </ListTag>
+        );
+      }
+    }
+  });
+}
+
+export function MarkdownContent({ content, isOwnMessage = false, currentUserName, className = '' }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {renderBlocks(blocks, { isOwnMessage, currentUserName })}
+    </div>
+  );
+}
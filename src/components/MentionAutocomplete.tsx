@@ -0,0 +1,44 @@
+interface MentionCandidate {
+  user_name: string;
+  is_online: boolean;
+}
+
+interface MentionAutocompleteProps {
+  candidates: MentionCandidate[];
+  selectedIndex: number;
+  onSelect: (userName: string) => void;
+  onHover: (index: number) => void;
+}
+
+export function MentionAutocomplete({ candidates, selectedIndex, onSelect, onHover }: MentionAutocompleteProps) {
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-64 bg-white rounded-xl shadow-xl border border-gray-200 py-1 z-50 text-left">
+      <p className="px-3 py-1 text-xs font-medium text-gray-500">Participants</p>
+      {candidates.map((candidate, index) => (
+        <button
+          key={candidate.user_name}
+          type="button"
+          // Keep focus in the composer while picking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(candidate.user_name)}
+          onMouseEnter={() => onHover(index)}
+          className={`w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors ${
+            index === selectedIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+          }`}
+        >
+          <div className="relative flex-shrink-0">
+            <div className="w-6 h-6 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-white text-xs font-medium">
+              {candidate.user_name[0]?.toUpperCase()}
+            </div>
+            {candidate.is_online && (
+              <div className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 bg-green-500 border-2 border-white rounded-full"></div>
+            )}
+          </div>
+          <span className="truncate">{candidate.user_name}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react';
+import { AtSign, CheckCheck, Hash } from 'lucide-react';
+import { MessageMention } from '../lib/supabase';
+import { markdownToPlainText } from '../lib/markdown';
+import { useMentions } from '../hooks/useMentions';
+
+interface MentionsInboxProps {
+  userId: string;
+  // Mentions in the room that is currently open are marked as read right away
+  currentRoomId?: string;
+  onSelect: (mention: MessageMention) => void;
+}
+
+const formatMentionTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+export function MentionsInbox({ userId, currentRoomId, onSelect }: MentionsInboxProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { mentions, unreadCount, loading, markMentionAsRead, markRoomAsRead, markAllAsRead } = useMentions(userId);
+
+  const hasUnreadInCurrentRoom = !!currentRoomId &&
+    mentions.some(m => m.room_id === currentRoomId && !m.read_at);
+
+  useEffect(() => {
+    if (hasUnreadInCurrentRoom && currentRoomId) {
+      markRoomAsRead(currentRoomId);
+    }
+  }, [hasUnreadInCurrentRoom, currentRoomId, markRoomAsRead]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const handleSelect = (mention: MessageMention) => {
+    setIsOpen(false);
+    if (!mention.read_at) {
+      markMentionAsRead(mention.message_id);
+    }
+    onSelect(mention);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-2 rounded-lg transition-colors ${isOpen ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'}`}
+        title="Mentions"
+      >
+        <AtSign className="w-4 h-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.125rem] h-[1.125rem] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 max-h-96 flex flex-col bg-white rounded-xl shadow-xl border border-gray-200 z-50 text-left">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 text-sm flex items-center gap-2">
+              <AtSign className="w-4 h-4" />
+              Mentions
+            </h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllAsRead}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+              >
+                <CheckCheck className="w-3 h-3" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {loading && mentions.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : mentions.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6 px-4">
+                Nobody has mentioned you yet
+              </p>
+            ) : (
+              mentions.map(mention => (
+                <button
+                  key={`${mention.message_id}-${mention.mentioned_user_id}`}
+                  onClick={() => handleSelect(mention)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50 transition-colors ${
+                    mention.read_at ? '' : 'bg-blue-50/50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                    {!mention.read_at && <span className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0"></span>}
+                    <span className="font-semibold text-gray-900 truncate">{mention.mentioned_by}</span>
+                    <span className="flex items-center gap-0.5 truncate">
+                      <Hash className="w-3 h-3" />
+                      {mention.room?.name || 'Unknown room'}
+                    </span>
+                    <span className="ml-auto flex-shrink-0">{formatMentionTime(mention.created_at)}</span>
+                  </div>
+                  <p className="text-sm text-gray-700 line-clamp-2 break-words">
+                    {mention.message?.deleted_at
+                      ? <span className="italic text-gray-400">Message deleted</span>
+                      : markdownToPlainText(mention.message?.content || '') || '📎 Attachment'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { FileText, Download } from 'lucide-react';
+import { MessageAttachment } from '../lib/supabase';
+import { isImageAttachment, formatFileSize } from '../lib/storage';
+import { useAttachmentUrls } from '../hooks/useAttachmentUrls';
+import { AttachmentLightbox } from './AttachmentLightbox';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isOwnMessage: boolean;
+}
+
+export function MessageAttachments({ attachments, isOwnMessage }: MessageAttachmentsProps) {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const urls = useAttachmentUrls(attachments);
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter(attachment => !isImageAttachment(attachment));
+
+  return (
+    <div className="space-y-2 mb-2">
+      {/* Image Thumbnails */}
+      {images.length > 0 && (
+        <div className={`grid gap-1 w-64 sm:w-80 max-w-full ${images.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+          {images.map((image, index) => (
+            <button
+              key={image.path}
+              onClick={() => setLightboxIndex(index)}
+              className="block overflow-hidden rounded-xl bg-gray-100 hover:opacity-90 transition-opacity"
+              title={image.name}
+            >
+              {/* Reserve the image's space up front so the row doesn't jump when it loads */}
+              <img
+                src={urls[image.path]}
+                alt={image.name}
+                loading="lazy"
+                style={image.width && image.height ? { aspectRatio: `${image.width} / ${image.height}` } : undefined}
+                className={`w-full object-cover ${images.length === 1 ? 'max-h-72' : 'h-32'}`}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* File Cards */}
+      {files.map(file => (
+        <a
+          key={file.path}
+          href={urls[file.path]}
+          download={file.name}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`flex items-center gap-3 p-2 rounded-xl border text-left transition-colors ${
+            isOwnMessage
+              ? 'border-white/30 bg-white/10 hover:bg-white/20'
+              : 'border-gray-200 bg-gray-50 hover:bg-gray-100'
+          }`}
+        >
+          <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${
+            isOwnMessage ? 'bg-white/20' : 'bg-blue-100 text-blue-600'
+          }`}>
+            <FileText className="w-5 h-5" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">{file.name}</p>
+            <p className={`text-xs ${isOwnMessage ? 'text-white/70' : 'text-gray-500'}`}>
+              {formatFileSize(file.size)}
+            </p>
+          </div>
+          <Download className="w-4 h-4 flex-shrink-0 opacity-70" />
+        </a>
+      ))}
+
+      {lightboxIndex !== null && (
+        <AttachmentLightbox
+          images={images}
+          initialIndex={lightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
-import React, { useState } from 'react';
-import { Reply, Copy, Heart, ThumbsUp, MoreHorizontal } from 'lucide-react';
-import { Message } from '../lib/supabase';
+import React, { useState, useMemo } from 'react';
+import { Reply, Copy, Heart, ThumbsUp, MoreHorizontal, MessagesSquare, SmilePlus, Pencil, Trash2, History, CheckCheck, Clock, AlertCircle, RotateCw, X } from 'lucide-react';
+import { Message, MessageEdit, MessageReaction, UserPresence } from '../lib/supabase';
+import { EmojiPicker } from './EmojiPicker';
+import { MessageAttachments } from './MessageAttachments';
+import { MarkdownContent } from './MarkdownContent';
+import { markdownToPlainText, extractMentions } from '../lib/markdown';
+import { PRESENCE_STATUS_DOT_CLASSES, PRESENCE_STATUS_LABELS, getActiveCustomStatus } from '../lib/presence';
 
 interface MessageBubbleProps {
   message: Message;
@@ -10,9 +15,42 @@ interface MessageBubbleProps {
   isLastInGroup: boolean;
   formatTime: (timestamp: string) => string;
   onReply: (message: Message) => void;
-  isOnline: boolean;
+  // The author's live presence, null while they are offline
+  presence?: UserPresence | null;
+  replyTo?: Message | null;
+  replyCount?: number;
+  isHighlighted?: boolean;
+  onJumpToMessage?: (messageId: string) => void;
+  onOpenThread?: (message: Message) => void;
+  reactions?: MessageReaction[];
+  currentUserName?: string | null;
+  currentUserId?: string | null;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  canEdit?: boolean;
+  canDelete?: boolean;
+  onEdit?: (messageId: string, content: string) => void;
+  onDelete?: (messageId: string) => void;
+  onLoadEditHistory?: (messageId: string) => Promise<MessageEdit[]>;
+  // Users who have read up to this message, shown under own messages
+  seenBy?: string[];
+  // Unsent own messages can be sent again or dropped
+  onRetry?: (message: Message) => void;
+  onDiscard?: (message: Message) => void;
 }
 
+interface ReactionGroup {
+  emoji: string;
+  users: string[];
+  reactedByMe: boolean;
+}
+
+const describeReactors = (names: string[]) => {
+  if (names.length <= 3) {
+    return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+  return `${names.slice(0, 3).join(', ')} and ${names.length - 3} others`;
+};
+
 export function MessageBubble({
   message,
   isOwnMessage,
@@ -21,10 +59,54 @@ export function MessageBubble({
   isLastInGroup,
   formatTime,
   onReply,
-  isOnline
+  presence,
+  replyTo,
+  replyCount = 0,
+  isHighlighted = false,
+  onJumpToMessage,
+  onOpenThread,
+  reactions = [],
+  currentUserName,
+  currentUserId,
+  onToggleReaction,
+  canEdit = false,
+  canDelete = false,
+  onEdit,
+  onDelete,
+  onLoadEditHistory,
+  seenBy = [],
+  onRetry,
+  onDiscard
 }: MessageBubbleProps) {
   const [showActions, setShowActions] = useState(false);
-  const [reactions, setReactions] = useState<{ [key: string]: number }>({});
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const presenceStatus = presence?.is_online ? presence.status || 'active' : null;
+  const customStatus = getActiveCustomStatus(presence);
+  const [editContent, setEditContent] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [editHistory, setEditHistory] = useState<MessageEdit[] | null>(null);
+
+  const mentionsMe = useMemo(() => {
+    if (isOwnMessage || !currentUserName || !message.content) return false;
+    const me = currentUserName.toLowerCase();
+    return extractMentions(message.content).some(name => name.toLowerCase() === me);
+  }, [message.content, currentUserName, isOwnMessage]);
+
+  // Group reactions by emoji, keeping the order in which each was first used
+  const reactionGroups = reactions.reduce<ReactionGroup[]>((groups, reaction) => {
+    let group = groups.find(g => g.emoji === reaction.emoji);
+    if (!group) {
+      group = { emoji: reaction.emoji, users: [], reactedByMe: false };
+      groups.push(group);
+    }
+    const byMe = !!currentUserId && reaction.user_id === currentUserId;
+    group.users.push(byMe ? 'You' : reaction.user_name);
+    if (byMe) {
+      group.reactedByMe = true;
+    }
+    return groups;
+  }, []);
 
   const handleCopyMessage = () => {
     navigator.clipboard.writeText(message.content);
@@ -42,11 +124,12 @@ export function MessageBubble({
   };
 
   const handleReaction = (emoji: string) => {
-    setReactions(prev => ({
-      ...prev,
-      [emoji]: (prev[emoji] || 0) + 1
-    }));
-    
+    const alreadyReacted = reactionGroups.some(g => g.emoji === emoji && g.reactedByMe);
+    onToggleReaction?.(message.id, emoji);
+
+    // Only celebrate adding a reaction, not removing one
+    if (alreadyReacted) return;
+
     // Show reaction animation
     const reactionEl = document.createElement('div');
     reactionEl.className = 'fixed pointer-events-none z-50 text-2xl';
@@ -63,13 +146,69 @@ export function MessageBubble({
     }, 1000);
   };
 
+  const startEditing = () => {
+    setEditContent(message.content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    if (editContent.trim() && editContent.trim() !== message.content) {
+      onEdit?.(message.id, editContent.trim());
+    }
+    setIsEditing(false);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm('Delete this message? Everyone in the room will see that it was removed.')) {
+      onDelete?.(message.id);
+    }
+  };
+
+  const toggleHistory = async () => {
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
+
+    setShowHistory(true);
+    setEditHistory(null);
+    setEditHistory(await onLoadEditHistory?.(message.id) || []);
+  };
+
+  // Deleted messages leave a tombstone so the conversation still reads in order
+  if (message.deleted_at) {
+    return (
+      <div className={`flex gap-3 px-4 py-1 ${isOwnMessage ? 'flex-row-reverse' : ''}`}>
+        {showAvatar && !isOwnMessage && <div className="w-10 flex-shrink-0" />}
+        <div className={`flex-1 min-w-0 ${isOwnMessage ? 'text-right' : ''}`}>
+          <div className={`inline-flex items-center gap-2 px-4 py-2 rounded-2xl border border-dashed border-gray-300 text-sm text-gray-400 italic ${isLastInGroup ? 'mb-3' : 'mb-1'}`}>
+            <Trash2 className="w-3 h-3" />
+            {isOwnMessage ? 'You deleted this message' : `${message.user_name} deleted this message`}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div 
       className={`flex gap-3 px-4 py-2 hover:bg-gray-50/50 transition-colors group message-enter ${
         isOwnMessage ? 'flex-row-reverse' : ''
-      }`}
+      } ${isHighlighted ? 'bg-yellow-50 ring-2 ring-yellow-300 rounded-xl' : ''}`}
       onMouseEnter={() => setShowActions(true)}
-      onMouseLeave={() => setShowActions(false)}
+      onMouseLeave={() => {
+        setShowActions(false);
+        setShowReactionPicker(false);
+      }}
     >
       {/* Avatar */}
       {showAvatar && !isOwnMessage && (
@@ -77,8 +216,11 @@ export function MessageBubble({
           <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-white text-sm font-medium shadow-md">
             {message.user_name[0].toUpperCase()}
           </div>
-          {isOnline && (
-            <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 border-2 border-white rounded-full animate-pulse"></div>
+          {presenceStatus && (
+            <div
+              className={`absolute -bottom-1 -right-1 w-4 h-4 ${PRESENCE_STATUS_DOT_CLASSES[presenceStatus]} border-2 border-white rounded-full ${presenceStatus === 'active' ? 'animate-pulse' : ''}`}
+              title={PRESENCE_STATUS_LABELS[presenceStatus]}
+            ></div>
           )}
         </div>
       )}
@@ -92,11 +234,19 @@ export function MessageBubble({
               {message.user_name}
               {isOwnMessage && ' (You)'}
             </span>
+            {customStatus && (
+              <span
+                className="text-xs text-gray-500 truncate max-w-[10rem]"
+                title={customStatus.status_text || undefined}
+              >
+                {customStatus.status_emoji || '💬'}
+              </span>
+            )}
             <span className="text-xs text-gray-500">
               {formatTime(message.created_at)}
             </span>
-            {isOnline && !isOwnMessage && (
-              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+            {presenceStatus && !isOwnMessage && (
+              <div className={`w-2 h-2 ${PRESENCE_STATUS_DOT_CLASSES[presenceStatus]} rounded-full ${presenceStatus === 'active' ? 'animate-pulse' : ''}`}></div>
             )}
           </div>
         )}
@@ -107,30 +257,158 @@ export function MessageBubble({
             className={`inline-block max-w-xs sm:max-w-md lg:max-w-lg xl:max-w-xl px-4 py-3 rounded-2xl shadow-sm transition-all duration-200 hover:shadow-md ${
               isOwnMessage
                 ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white ml-auto'
-                : 'bg-white border border-gray-200 text-gray-900'
-            } ${isLastInGroup ? 'mb-3' : 'mb-1'}`}
+                : mentionsMe
+                  ? 'bg-amber-50 border border-amber-300 border-l-4 border-l-amber-400 text-gray-900'
+                  : 'bg-white border border-gray-200 text-gray-900'
+            } ${message.send_status ? 'opacity-70' : ''} ${isLastInGroup ? 'mb-3' : 'mb-1'}`}
           >
-            <p className="text-sm leading-relaxed break-words whitespace-pre-wrap">
-              {message.content}
-            </p>
-            
-            {/* Reactions */}
-            {Object.keys(reactions).length > 0 && (
-              <div className="flex gap-1 mt-2 flex-wrap">
-                {Object.entries(reactions).map(([emoji, count]) => (
-                  <span
-                    key={emoji}
-                    className="inline-flex items-center gap-1 px-2 py-1 bg-white/20 rounded-full text-xs"
+            {/* Quoted Parent */}
+            {message.reply_to_id && (
+              <button
+                onClick={() => replyTo ? onJumpToMessage?.(replyTo.id) : onOpenThread?.(message)}
+                className={`block w-full text-left mb-2 pl-3 py-1 border-l-4 rounded-r-lg text-xs transition-colors ${
+                  isOwnMessage
+                    ? 'border-white/60 bg-white/10 hover:bg-white/20 text-white/90'
+                    : 'border-blue-400 bg-blue-50 hover:bg-blue-100 text-gray-700'
+                }`}
+                title="Jump to original message"
+              >
+                {replyTo ? (
+                  <>
+                    <span className="font-semibold block">{replyTo.user_name}</span>
+                    {replyTo.deleted_at ? (
+                      <span className="italic">Message deleted</span>
+                    ) : (
+                      <span className="line-clamp-2 break-words">{markdownToPlainText(replyTo.content) || '📎 Attachment'}</span>
+                    )}
+                  </>
+                ) : (
+                  <span className="italic">Original message unavailable</span>
+                )}
+              </button>
+            )}
+
+            {message.attachments && message.attachments.length > 0 && (
+              <MessageAttachments attachments={message.attachments} isOwnMessage={isOwnMessage} />
+            )}
+
+            {isEditing ? (
+              <div className="text-left">
+                <textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  onKeyDown={handleEditKeyDown}
+                  className="w-64 sm:w-80 px-3 py-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+                  rows={Math.min(6, editContent.split('\n').length + 1)}
+                  maxLength={1000}
+                  autoFocus
+                />
+                <div className="flex items-center justify-end gap-2 mt-2 text-xs">
+                  <span className={isOwnMessage ? 'text-white/70' : 'text-gray-500'}>Esc to cancel • Enter to save</span>
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    className="px-2 py-1 rounded-md bg-white/20 hover:bg-white/30 border border-white/30"
                   >
-                    {emoji} {count}
-                  </span>
-                ))}
+                    Cancel
+                  </button>
+                  <button
+                    onClick={saveEdit}
+                    disabled={!editContent.trim()}
+                    className="px-2 py-1 rounded-md bg-white text-blue-700 font-medium hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
               </div>
+            ) : message.content && (
+              <MarkdownContent
+                content={message.content}
+                isOwnMessage={isOwnMessage}
+                currentUserName={currentUserName || undefined}
+                className="text-sm leading-relaxed"
+              />
+            )}
+
+            {/* Edited Marker */}
+            {message.edited_at && !isEditing && (
+              <button
+                onClick={toggleHistory}
+                className={`text-xs mt-1 hover:underline ${isOwnMessage ? 'text-white/70' : 'text-gray-400'}`}
+                title="Show edit history"
+              >
+                (edited)
+              </button>
             )}
           </div>
 
+          {/* Edit History */}
+          {showHistory && (
+            <div className={`mb-2 max-w-xs sm:max-w-md bg-white border border-gray-200 rounded-xl shadow-lg p-3 text-left ${isOwnMessage ? 'ml-auto' : ''}`}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="flex items-center gap-1 text-xs font-semibold text-gray-700">
+                  <History className="w-3 h-3" />
+                  Edit history
+                </span>
+                <button onClick={() => setShowHistory(false)} className="text-xs text-gray-400 hover:text-gray-600">
+                  Close
+                </button>
+              </div>
+              {editHistory === null ? (
+                <p className="text-xs text-gray-500">Loading...</p>
+              ) : editHistory.length === 0 ? (
+                <p className="text-xs text-gray-500">No earlier versions</p>
+              ) : (
+                <ul className="space-y-2 max-h-48 overflow-y-auto">
+                  {editHistory.map(edit => (
+                    <li key={edit.id} className="text-xs">
+                      <span className="text-gray-400">{formatTime(edit.edited_at)}</span>
+                      <p className="text-gray-700 break-words whitespace-pre-wrap">{edit.previous_content}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Reactions */}
+          {reactionGroups.length > 0 && (
+            <div className={`flex gap-1 mb-2 flex-wrap ${isOwnMessage ? 'justify-end' : ''}`}>
+              {reactionGroups.map(group => (
+                <div key={group.emoji} className="relative group/reaction">
+                  <button
+                    onClick={() => handleReaction(group.emoji)}
+                    className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                      group.reactedByMe
+                        ? 'bg-blue-100 border-blue-300 text-blue-700'
+                        : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span>{group.emoji}</span>
+                    <span className="font-medium">{group.users.length}</span>
+                  </button>
+                  <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 hidden group-hover/reaction:block whitespace-nowrap bg-gray-900 text-white text-xs px-2 py-1 rounded-md shadow-lg z-20">
+                    {describeReactors(group.users)} reacted with {group.emoji}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Thread Summary */}
+          {replyCount > 0 && (
+            <div className={isOwnMessage ? 'text-right' : ''}>
+              <button
+                onClick={() => onOpenThread?.(message)}
+                className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 hover:underline mb-2"
+              >
+                <MessagesSquare className="w-3 h-3" />
+                {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+              </button>
+            </div>
+          )}
+
           {/* Message Actions */}
-          {showActions && (
+          {(showActions || showReactionPicker) && !isEditing && (
             <div className={`absolute top-0 flex items-center gap-1 transition-all duration-200 ${
               isOwnMessage ? 'right-full mr-2' : 'left-full ml-2'
             }`}>
@@ -148,6 +426,21 @@ export function MessageBubble({
               >
                 <Heart className="w-3 h-3 text-red-500" />
               </button>
+              <div className="relative">
+                <button
+                  onClick={() => setShowReactionPicker(!showReactionPicker)}
+                  className="p-1.5 bg-white border border-gray-200 rounded-full shadow-md hover:bg-gray-50 transition-colors"
+                  title="Add reaction"
+                >
+                  <SmilePlus className="w-3 h-3 text-gray-600" />
+                </button>
+                <EmojiPicker
+                  isOpen={showReactionPicker}
+                  onClose={() => setShowReactionPicker(false)}
+                  onEmojiSelect={handleReaction}
+                  align={isOwnMessage ? 'right' : 'left'}
+                />
+              </div>
               <button
                 onClick={() => onReply(message)}
                 className="p-1.5 bg-white border border-gray-200 rounded-full shadow-md hover:bg-gray-50 transition-colors"
@@ -155,6 +448,15 @@ export function MessageBubble({
               >
                 <Reply className="w-3 h-3 text-gray-600" />
               </button>
+              {onOpenThread && (
+                <button
+                  onClick={() => onOpenThread(message)}
+                  className="p-1.5 bg-white border border-gray-200 rounded-full shadow-md hover:bg-gray-50 transition-colors"
+                  title="View thread"
+                >
+                  <MessagesSquare className="w-3 h-3 text-gray-600" />
+                </button>
+              )}
               <button
                 onClick={handleCopyMessage}
                 className="p-1.5 bg-white border border-gray-200 rounded-full shadow-md hover:bg-gray-50 transition-colors"
@@ -162,6 +464,24 @@ export function MessageBubble({
               >
                 <Copy className="w-3 h-3 text-gray-600" />
               </button>
+              {canEdit && (
+                <button
+                  onClick={startEditing}
+                  className="p-1.5 bg-white border border-gray-200 rounded-full shadow-md hover:bg-gray-50 transition-colors"
+                  title="Edit"
+                >
+                  <Pencil className="w-3 h-3 text-gray-600" />
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  onClick={handleDelete}
+                  className="p-1.5 bg-white border border-gray-200 rounded-full shadow-md hover:bg-red-50 transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3 h-3 text-red-500" />
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -172,6 +492,51 @@ export function MessageBubble({
             {formatTime(message.created_at)}
           </div>
         )}
+
+        {/* Read Receipts */}
+        {isOwnMessage && seenBy.length > 0 && (
+          <div
+            className="flex items-center justify-end gap-1 text-xs text-blue-500 mt-0.5"
+            title={`Seen by ${describeReactors(seenBy)}`}
+          >
+            <CheckCheck className="w-3 h-3" />
+            Seen by {seenBy.length}
+          </div>
+        )}
+
+        {/* Delivery Status */}
+        {isOwnMessage && message.send_status === 'pending' && (
+          <div className="flex items-center justify-end gap-1 text-xs text-gray-400 mt-0.5">
+            <Clock className="w-3 h-3" />
+            {navigator.onLine ? 'Sending...' : 'Waiting for connection'}
+          </div>
+        )}
+        {isOwnMessage && message.send_status === 'failed' && (
+          <div className="flex items-center justify-end gap-2 text-xs text-red-500 mt-0.5">
+            <span className="flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" />
+              Not sent
+            </span>
+            {onRetry && (
+              <button
+                onClick={() => onRetry(message)}
+                className="flex items-center gap-1 font-medium hover:text-red-600 hover:underline"
+              >
+                <RotateCw className="w-3 h-3" />
+                Retry
+              </button>
+            )}
+            {onDiscard && (
+              <button
+                onClick={() => onDiscard(message)}
+                className="flex items-center gap-1 font-medium text-gray-500 hover:text-gray-700 hover:underline"
+              >
+                <X className="w-3 h-3" />
+                Discard
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef } from 'react';
+import { MoreVertical, Shield } from 'lucide-react';
+
+export interface ParticipantAction {
+  label: string;
+  icon: typeof Shield;
+  onSelect: () => void;
+  // Shown in red, for actions that take something away
+  danger?: boolean;
+}
+
+interface ParticipantMenuProps {
+  userName: string;
+  actions: ParticipantAction[];
+}
+
+export function ParticipantMenu({ userName, actions }: ParticipantMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  if (actions.length === 0) return null;
+
+  return (
+    <div ref={containerRef} className="relative flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-1 rounded-lg transition-colors ${isOpen ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:bg-gray-100 hover:text-gray-600'}`}
+        title={`Manage ${userName}`}
+      >
+        <MoreVertical className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-52 bg-white rounded-xl shadow-xl border border-gray-200 z-50 py-1 text-left">
+          {actions.map(action => {
+            const Icon = action.icon;
+            return (
+              <button
+                key={action.label}
+                onClick={() => {
+                  setIsOpen(false);
+                  action.onSelect();
+                }}
+                className={`w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors ${
+                  action.danger ? 'text-red-600 hover:bg-red-50' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {action.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
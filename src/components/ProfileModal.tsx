@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { User, X, LogOut } from 'lucide-react';
+import { useUser } from '../contexts/UserContext';
+
+interface ProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
+  const { user, profile, updateDisplayName, saveAccount, signOut } = useUser();
+  const [name, setName] = useState(profile?.display_name || '');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  if (!isOpen || !user || !profile) return null;
+
+  const isGuest = !!user.is_anonymous;
+  const nameChanged = name.trim() !== profile.display_name;
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      setNotice(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong, please try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim().length < 2 || !nameChanged) return;
+    run(() => updateDisplayName(name.trim()), 'Display name updated');
+  };
+
+  const handleAccountSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || password.length < 6) return;
+    run(() => saveAccount(email.trim(), password), 'Check your email to confirm your address');
+  };
+
+  const handleSignOut = async () => {
+    if (isGuest && !confirm('Guest accounts cannot sign in again. Sign out anyway?')) return;
+    await run(signOut, '');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+              <User className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Your Profile</h2>
+              <p className="text-gray-600 text-sm">{isGuest ? 'Guest account' : user.email}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleNameSubmit} className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Display name</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              minLength={2}
+              maxLength={30}
+              required
+            />
+            <button
+              type="submit"
+              disabled={saving || !nameChanged || name.trim().length < 2}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+
+        {isGuest && (
+          <form onSubmit={handleAccountSubmit} className="mb-6 space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Keep this account</label>
+            <p className="text-xs text-gray-500">Add an email and password to sign in again on any device.</p>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              required
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password (at least 6 characters)"
+              autoComplete="new-password"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              minLength={6}
+              required
+            />
+            <button
+              type="submit"
+              disabled={saving || !email.trim() || password.length < 6}
+              className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              Save account
+            </button>
+          </form>
+        )}
+
+        {error && <p className="text-red-500 text-sm mb-4">{error}</p>}
+        {notice && <p className="text-green-600 text-sm mb-4">{notice}</p>}
+
+        <button
+          onClick={handleSignOut}
+          disabled={saving}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Ban } from 'lucide-react';
+import { supabase, RoomSanction } from '../lib/supabase';
+import { activeSanctionFilter, formatSanctionEnd } from '../lib/sanctions';
+
+interface RoomBansProps {
+  roomId: string;
+}
+
+// Banned users are no longer participants, so they are listed here to be let back in
+export function RoomBans({ roomId }: RoomBansProps) {
+  const [bans, setBans] = useState<RoomSanction[]>([]);
+  const [error, setError] = useState('');
+
+  const loadBans = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('room_sanctions')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('kind', 'ban')
+      .or(activeSanctionFilter())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Error loading bans:', error);
+      return;
+    }
+
+    setBans(data || []);
+  }, [roomId]);
+
+  useEffect(() => {
+    loadBans();
+  }, [loadBans]);
+
+  const liftBan = async (ban: RoomSanction) => {
+    if (!confirm(`Lift the ban on ${ban.user_name}? They will be able to join again.`)) return;
+
+    setError('');
+    const { error } = await supabase.rpc('lift_room_sanction', {
+      p_room_id: roomId,
+      p_user_id: ban.user_id,
+      p_kind: 'ban'
+    });
+
+    if (error) {
+      console.error('❌ Error lifting ban:', error);
+      setError(error.message);
+      return;
+    }
+
+    setBans(prev => prev.filter(b => b.id !== ban.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700">Banned Users</h3>
+        <p className="text-xs text-gray-500 mt-1">Ban members from the participant list. They can't join again until the ban ends.</p>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {bans.length === 0 ? (
+        <p className="text-sm text-gray-400">Nobody is banned.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {bans.map(ban => (
+            <li key={ban.id} className="flex items-center gap-2 px-3 py-2">
+              <Ban className="w-4 h-4 text-red-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 truncate">{ban.user_name}</p>
+                <p className="text-xs text-gray-500">Banned {formatSanctionEnd(ban)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => liftBan(ban)}
+                className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Lift ban
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,14 @@ import { Room } from '../lib/supabase';
 interface RoomCardProps {
   room: Room;
   onJoin: (room: Room) => void;
+  unreadCount?: number;
+  // Members who have the room open right now
+  onlineUsers?: string[];
 }
 
-export function RoomCard({ room, onJoin }: RoomCardProps) {
+const MAX_ONLINE_AVATARS = 4;
+
+export function RoomCard({ room, onJoin, unreadCount = 0, onlineUsers = [] }: RoomCardProps) {
   const getIcon = () => {
     switch (room.type) {
       case 'public':
@@ -35,8 +40,9 @@ export function RoomCard({ room, onJoin }: RoomCardProps) {
   };
 
   const isRoomFull = room.max_users ? room.current_users >= room.max_users : false;
-  const isActive = room.current_users > 0;
-  const activityLevel = room.current_users > 5 ? 'high' : room.current_users > 2 ? 'medium' : 'low';
+  const onlineCount = onlineUsers.length;
+  const isActive = onlineCount > 0;
+  const activityLevel = onlineCount > 5 ? 'high' : onlineCount > 2 ? 'medium' : 'low';
 
   const getActivityColor = () => {
     switch (activityLevel) {
@@ -82,7 +88,17 @@ export function RoomCard({ room, onJoin }: RoomCardProps) {
               )}
             </div>
             
-            <h3 className="text-xl font-semibold text-gray-900 mb-2 group-hover:text-blue-600 transition-colors">{room.name}</h3>
+            <div className="flex items-center gap-2 mb-2">
+              <h3 className="text-xl font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">{room.name}</h3>
+              {unreadCount > 0 && (
+                <span
+                  className="px-2 py-0.5 bg-blue-600 text-white text-xs font-bold rounded-full"
+                  title={`${unreadCount} unread ${unreadCount === 1 ? 'message' : 'messages'}`}
+                >
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
+            </div>
             
             {room.description && (
               <p className="text-gray-600 text-sm mb-3 line-clamp-2">{room.description}</p>
@@ -103,14 +119,35 @@ export function RoomCard({ room, onJoin }: RoomCardProps) {
 
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-4 text-sm text-gray-500">
-            <div className="flex items-center gap-1">
-              <div className={`w-2 h-2 rounded-full ${isActive ? 'bg-green-500 animate-pulse' : 'bg-gray-300'}`}></div>
+            <div className="flex items-center gap-1" title="Members">
               <Users className="w-4 h-4" />
               <span className="font-medium">
                 {room.current_users}
                 {room.max_users && `/${room.max_users}`}
               </span>
             </div>
+
+            <div
+              className="flex items-center gap-1"
+              title={isActive ? `Online now: ${onlineUsers.join(', ')}` : 'Nobody online'}
+            >
+              <div className={`w-2 h-2 rounded-full ${isActive ? 'bg-green-500 animate-pulse' : 'bg-gray-300'}`}></div>
+              {isActive && (
+                <div className="flex -space-x-2">
+                  {onlineUsers.slice(0, MAX_ONLINE_AVATARS).map(user => (
+                    <div
+                      key={user}
+                      className="w-6 h-6 bg-gradient-to-r from-green-400 to-blue-500 rounded-full border-2 border-white flex items-center justify-center text-white text-[10px] font-medium"
+                    >
+                      {user[0].toUpperCase()}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <span className={`text-xs ${isActive ? 'text-green-600 font-medium' : ''}`}>
+                {onlineCount} online
+              </span>
+            </div>
             
             {isRoomFull && (
               <span className="text-red-500 font-medium text-xs bg-red-100 px-2 py-1 rounded-full">FULL</span>
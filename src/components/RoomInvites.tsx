@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Copy, Link, Trash2 } from 'lucide-react';
+import { supabase, RoomInvite } from '../lib/supabase';
+
+interface RoomInvitesProps {
+  roomId: string;
+}
+
+const EXPIRY_OPTIONS: { label: string; minutes: number | null }[] = [
+  { label: 'Never', minutes: null },
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 1440 },
+  { label: '7 days', minutes: 10080 }
+];
+
+const MAX_USES_OPTIONS = [null, 1, 5, 10, 25, 100];
+
+const getInviteLink = (invite: RoomInvite) => `${window.location.origin}/invite/${invite.token}`;
+
+const isUsable = (invite: RoomInvite) =>
+  (!invite.expires_at || new Date(invite.expires_at) > new Date()) &&
+  (invite.max_uses === null || invite.uses < invite.max_uses);
+
+export function RoomInvites({ roomId }: RoomInvitesProps) {
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [expiryMinutes, setExpiryMinutes] = useState<number | null>(1440);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadInvites = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('room_invites')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Error loading invites:', error);
+      return;
+    }
+
+    setInvites(data || []);
+  }, [roomId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const copyInvite = (invite: RoomInvite) => {
+    navigator.clipboard.writeText(getInviteLink(invite));
+    setCopiedId(invite.id);
+    setTimeout(() => setCopiedId(current => current === invite.id ? null : current), 2000);
+  };
+
+  const createInvite = async () => {
+    setCreating(true);
+    setError('');
+
+    try {
+      // The token is generated by the database
+      const { data, error } = await supabase
+        .from('room_invites')
+        .insert({
+          room_id: roomId,
+          expires_at: expiryMinutes === null
+            ? null
+            : new Date(Date.now() + expiryMinutes * 60 * 1000).toISOString(),
+          max_uses: maxUses
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      console.log(`🔗 Created invite for room ${roomId}`);
+      setInvites(prev => [data, ...prev]);
+      copyInvite(data);
+    } catch (err) {
+      console.error('❌ Error creating invite:', err);
+      setError('Failed to create invite link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeInvite = async (invite: RoomInvite) => {
+    if (!confirm('Revoke this invite link? Anyone who has it will no longer be able to join.')) return;
+
+    const { error } = await supabase
+      .from('room_invites')
+      .delete()
+      .eq('id', invite.id);
+
+    if (error) {
+      console.error('❌ Error revoking invite:', error);
+      setError('Failed to revoke invite link');
+      return;
+    }
+
+    setInvites(prev => prev.filter(i => i.id !== invite.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700">Invite Links</h3>
+        <p className="text-xs text-gray-500 mt-1">Private rooms can only be joined through an invite link.</p>
+      </div>
+
+      <div className="flex items-end gap-2">
+        <label className="flex-1 text-xs text-gray-600">
+          Expires after
+          <select
+            value={expiryMinutes ?? ''}
+            onChange={(e) => setExpiryMinutes(e.target.value ? Number(e.target.value) : null)}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.minutes ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex-1 text-xs text-gray-600">
+          Max uses
+          <select
+            value={maxUses ?? ''}
+            onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {MAX_USES_OPTIONS.map(option => (
+              <option key={option ?? 'unlimited'} value={option ?? ''}>{option ?? 'No limit'}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={createInvite}
+          disabled={creating}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          <Link className="w-4 h-4" />
+          {creating ? 'Creating...' : 'Create'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {invites.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {invites.map(invite => (
+            <li key={invite.id} className="flex items-center gap-2 px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-mono truncate ${isUsable(invite) ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                  {invite.token}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {invite.uses}{invite.max_uses !== null ? ` / ${invite.max_uses}` : ''} uses
+                  {' · '}
+                  {invite.expires_at
+                    ? `${new Date(invite.expires_at) > new Date() ? 'Expires' : 'Expired'} ${new Date(invite.expires_at).toLocaleString()}`
+                    : 'Never expires'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => copyInvite(invite)}
+                className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Copy invite link"
+              >
+                {copiedId === invite.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => revokeInvite(invite)}
+                className="p-1.5 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                title="Revoke invite link"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
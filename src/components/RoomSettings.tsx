@@ -1,33 +1,42 @@
 import React, { useState } from 'react';
 import { Settings, Users, Shield, Trash2, Copy, X } from 'lucide-react';
-import { supabase, Room } from '../lib/supabase';
-import { useUser } from '../contexts/UserContext';
+import { supabase, Room, RoomRole } from '../lib/supabase';
+import { DEFAULT_MAX_ATTACHMENT_MB } from '../lib/storage';
+import { hasRoomPermission } from '../lib/roles';
+import { RoomInvites } from './RoomInvites';
+import { RoomBans } from './RoomBans';
 
 interface RoomSettingsProps {
   room: Room;
+  // Role of the current user in the room, null until known
+  role: RoomRole | null;
   isOpen: boolean;
   onClose: () => void;
   onRoomUpdated: (room: Room) => void;
   onRoomDeleted: () => void;
 }
 
-export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDeleted }: RoomSettingsProps) {
-  const { userName } = useUser();
+export function RoomSettings({ room, role, isOpen, onClose, onRoomUpdated, onRoomDeleted }: RoomSettingsProps) {
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: room.name,
     description: room.description || '',
     maxUsers: room.max_users?.toString() || '',
+    editWindow: room.edit_window_minutes?.toString() ?? '',
+    maxAttachmentMb: (room.max_attachment_mb ?? DEFAULT_MAX_ATTACHMENT_MB).toString(),
+    allowedAttachmentTypes: room.allowed_attachment_types?.join(', ') ?? '',
     password: ''
   });
 
-  const isAdmin = room.created_by === userName;
+  const canEditSettings = hasRoomPermission(role, 'edit_settings');
+  const canManageInvites = hasRoomPermission(role, 'manage_invites');
+  const canModerateMembers = hasRoomPermission(role, 'moderate_members');
 
   if (!isOpen) return null;
 
   const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isAdmin) return;
+    if (!canEditSettings) return;
 
     setLoading(true);
     try {
@@ -35,12 +44,13 @@ export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDelet
         name: formData.name.trim(),
         description: formData.description.trim() || null,
         max_users: formData.maxUsers ? parseInt(formData.maxUsers) : null,
+        edit_window_minutes: formData.editWindow !== '' ? parseInt(formData.editWindow) : null,
+        max_attachment_mb: parseInt(formData.maxAttachmentMb) || DEFAULT_MAX_ATTACHMENT_MB,
+        allowed_attachment_types: formData.allowedAttachmentTypes.trim()
+          ? formData.allowedAttachmentTypes.split(',').map(type => type.trim()).filter(Boolean)
+          : null
       };
 
-      if (room.type === 'password' && formData.password) {
-        updateData.password_hash = btoa(formData.password);
-      }
-
       const { data, error } = await supabase
         .from('rooms')
         .update(updateData)
@@ -49,6 +59,16 @@ export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDelet
         .single();
 
       if (error) throw error;
+
+      if (room.type === 'password' && formData.password) {
+        const { error: passwordError } = await supabase.rpc('set_room_password', {
+          p_room_id: room.id,
+          p_password: formData.password
+        });
+
+        if (passwordError) throw passwordError;
+      }
+
       onRoomUpdated(data);
       onClose();
     } catch (error) {
@@ -59,7 +79,7 @@ export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDelet
   };
 
   const handleDelete = async () => {
-    if (!isAdmin || !confirm('Are you sure you want to delete this room? This action cannot be undone.')) return;
+    if (!canEditSettings || !confirm('Are you sure you want to delete this room? This action cannot be undone.')) return;
 
     setLoading(true);
     try {
@@ -103,21 +123,37 @@ export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDelet
         </div>
 
         <div className="p-6">
-          {!isAdmin ? (
+          {!canEditSettings ? (
             <div className="text-center py-8">
               <Shield className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">Admin Only</h3>
-              <p className="text-gray-600 mb-6">Only room administrators can modify settings.</p>
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Owner Only</h3>
+              <p className="text-gray-600 mb-6">Only the room owner can modify settings.</p>
               
-              <div className="space-y-3">
-                <button
-                  onClick={copyRoomLink}
-                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
-                >
-                  <Copy className="w-4 h-4" />
-                  Copy Room Link
-                </button>
-              </div>
+              {/* Private rooms are shared through invite links instead */}
+              {room.type !== 'private' && (
+                <div className="space-y-3">
+                  <button
+                    onClick={copyRoomLink}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                    Copy Room Link
+                  </button>
+                </div>
+              )}
+
+              {/* Moderators hand out invites too */}
+              {room.type === 'private' && canManageInvites && (
+                <div className="pt-4 border-t border-gray-200 text-left">
+                  <RoomInvites roomId={room.id} />
+                </div>
+              )}
+
+              {canModerateMembers && (
+                <div className="pt-4 border-t border-gray-200 text-left">
+                  <RoomBans roomId={room.id} />
+                </div>
+              )}
             </div>
           ) : (
             <form onSubmit={handleUpdate} className="space-y-6">
@@ -163,6 +199,50 @@ export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDelet
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Message Edit Window (minutes)
+                </label>
+                <input
+                  type="number"
+                  value={formData.editWindow}
+                  onChange={(e) => setFormData({ ...formData, editWindow: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  min="0"
+                  max="10080"
+                  placeholder="No limit"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to allow edits at any time, or 0 to disable editing.</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Attachment Size (MB)
+                </label>
+                <input
+                  type="number"
+                  value={formData.maxAttachmentMb}
+                  onChange={(e) => setFormData({ ...formData, maxAttachmentMb: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  min="1"
+                  max="50"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Allowed Attachment Types
+                </label>
+                <input
+                  type="text"
+                  value={formData.allowedAttachmentTypes}
+                  onChange={(e) => setFormData({ ...formData, allowedAttachmentTypes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  placeholder="Any type"
+                />
+                <p className="text-xs text-gray-500 mt-1">Comma-separated MIME types, e.g. image/*, application/pdf. Leave empty to allow any type.</p>
+              </div>
+
               {room.type === 'password' && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -179,14 +259,16 @@ export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDelet
               )}
 
               <div className="flex gap-3 pt-4">
-                <button
-                  type="button"
-                  onClick={copyRoomLink}
-                  className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
-                >
-                  <Copy className="w-4 h-4" />
-                  Copy Link
-                </button>
+                {room.type !== 'private' && (
+                  <button
+                    type="button"
+                    onClick={copyRoomLink}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                    Copy Link
+                  </button>
+                )}
                 
                 <button
                   type="submit"
@@ -197,6 +279,16 @@ export function RoomSettings({ room, isOpen, onClose, onRoomUpdated, onRoomDelet
                 </button>
               </div>
 
+              {room.type === 'private' && (
+                <div className="pt-4 border-t border-gray-200">
+                  <RoomInvites roomId={room.id} />
+                </div>
+              )}
+
+              <div className="pt-4 border-t border-gray-200">
+                <RoomBans roomId={room.id} />
+              </div>
+
               <div className="pt-4 border-t border-gray-200">
                 <button
                   type="button"
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Ban, Timer, X } from 'lucide-react';
+import { BAN_DURATIONS, TIMEOUT_DURATIONS, formatSanctionDuration } from '../lib/sanctions';
+
+interface SanctionModalProps {
+  kind: 'ban' | 'timeout';
+  userName: string;
+  onClose: () => void;
+  // Rejects with the reason when the database refuses
+  onSubmit: (minutes: number | null) => Promise<void>;
+}
+
+export function SanctionModal({ kind, userName, onClose, onSubmit }: SanctionModalProps) {
+  const durations = kind === 'ban' ? BAN_DURATIONS : TIMEOUT_DURATIONS;
+  const [minutes, setMinutes] = useState<number | null>(durations[0]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const Icon = kind === 'ban' ? Ban : Timer;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      await onSubmit(minutes);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center">
+              <Icon className="w-5 h-5 text-red-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">{kind === 'ban' ? 'Ban' : 'Time out'} {userName}</h2>
+              <p className="text-gray-600 text-sm">
+                {kind === 'ban'
+                  ? 'They are removed from the room and cannot join again.'
+                  : 'They can still read the room but not post.'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            {durations.map(option => (
+              <button
+                key={option ?? 'permanent'}
+                type="button"
+                onClick={() => setMinutes(option)}
+                className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                  minutes === option
+                    ? 'border-red-500 bg-red-50 text-red-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {formatSanctionDuration(option)}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <p className="text-red-500 text-sm mb-4">{error}</p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              {loading ? 'Saving...' : kind === 'ban' ? 'Ban' : 'Time out'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { MessageSearchResult } from '../lib/supabase';
+import { HIGHLIGHT_START, HIGHLIGHT_END } from '../lib/search';
+
+interface SearchResultsPanelProps {
+  results: MessageSearchResult[];
+  loading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  formatTime: (timestamp: string) => string;
+  formatDate: (timestamp: string) => string;
+  onSelect: (result: MessageSearchResult) => void;
+  onLoadMore: () => void;
+  onClose: () => void;
+}
+
+// Renders a snippet with the server's highlight markers as <mark> elements
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <React.Fragment key={index}>{part}</React.Fragment>;
+
+        const [highlighted, ...rest] = part.split(HIGHLIGHT_END);
+        return (
+          <React.Fragment key={index}>
+            <mark className="bg-yellow-200 text-gray-900 rounded px-0.5">{highlighted}</mark>
+            {rest.join('')}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+export function SearchResultsPanel({
+  results,
+  loading,
+  error,
+  hasMore,
+  formatTime,
+  formatDate,
+  onSelect,
+  onLoadMore,
+  onClose
+}: SearchResultsPanelProps) {
+  return (
+    <div className="fixed inset-0 z-30 sm:static sm:inset-auto sm:z-auto w-full sm:w-96 flex flex-col bg-white/95 backdrop-blur-md border-l border-gray-200 shadow-lg">
+      <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-purple-50 flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Search className="w-5 h-5" />
+          Search Results
+          {!loading && (
+            <span className="text-xs font-medium text-gray-500 bg-white px-2 py-0.5 rounded-full border">
+              {results.length}{hasMore ? '+' : ''}
+            </span>
+          )}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-white rounded-lg transition-colors text-gray-600"
+          title="Close search"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {error ? (
+          <p className="text-sm text-red-600 text-center py-6 px-4">{error}</p>
+        ) : results.length === 0 && !loading ? (
+          <div className="text-center py-12 px-4">
+            <Search className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">No messages found</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {results.map(result => (
+              <li key={result.id}>
+                <button
+                  onClick={() => onSelect(result)}
+                  className="w-full text-left p-4 hover:bg-gray-50 transition-colors"
+                  title="Show in conversation"
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <div className="w-6 h-6 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-white text-xs font-medium">
+                      {result.user_name[0].toUpperCase()}
+                    </div>
+                    <span className="text-sm font-semibold text-gray-900 truncate">{result.user_name}</span>
+                    <span className="text-xs text-gray-500 ml-auto flex-shrink-0">
+                      {formatDate(result.created_at)} {formatTime(result.created_at)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 break-words whitespace-pre-wrap">
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto mb-2"></div>
+            <p className="text-sm text-gray-500">Searching...</p>
+          </div>
+        ) : hasMore && (
+          <div className="p-4 text-center">
+            <button
+              onClick={onLoadMore}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              Load more results
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
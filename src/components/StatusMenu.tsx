@@ -0,0 +1,213 @@
+import { useState, useEffect, useRef, FormEvent } from 'react';
+import { BellOff, X } from 'lucide-react';
+import { CustomStatus, PresenceStatus } from '../lib/supabase';
+import { CUSTOM_STATUS_DURATIONS, PRESENCE_STATUS_DOT_CLASSES, PRESENCE_STATUS_LABELS } from '../lib/presence';
+
+interface StatusMenuProps {
+  status: PresenceStatus;
+  doNotDisturb: boolean;
+  customStatus: CustomStatus | null;
+  onDoNotDisturbChange: (enabled: boolean) => void;
+  onCustomStatusChange: (status: CustomStatus | null) => void;
+}
+
+const STATUS_EMOJIS = ['💬', '🗓️', '🍽️', '🚌', '🏠', '🤒', '🌴', '🎧', '💻', '😴'];
+
+const STATUS_PRESETS: { emoji: string; text: string; minutes: number | null }[] = [
+  { emoji: '🗓️', text: 'In a meeting', minutes: 60 },
+  { emoji: '🍽️', text: 'Out for lunch', minutes: 30 },
+  { emoji: '🚌', text: 'Commuting', minutes: 30 },
+  { emoji: '🤒', text: 'Out sick', minutes: 1440 },
+  { emoji: '🌴', text: 'On vacation', minutes: null }
+];
+
+const MAX_STATUS_LENGTH = 100;
+
+const getExpiry = (minutes: number | null) =>
+  minutes === null ? null : new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+export function StatusMenu({
+  status,
+  doNotDisturb,
+  customStatus,
+  onDoNotDisturbChange,
+  onCustomStatusChange
+}: StatusMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [emoji, setEmoji] = useState('💬');
+  const [text, setText] = useState('');
+  const [duration, setDuration] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  // Start from the current status each time the menu opens
+  const toggleMenu = () => {
+    if (!isOpen) {
+      setEmoji(customStatus?.status_emoji || '💬');
+      setText(customStatus?.status_text || '');
+      setDuration(null);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const saveStatus = (next: { emoji: string; text: string; minutes: number | null }) => {
+    onCustomStatusChange({
+      status_emoji: next.emoji,
+      status_text: next.text.trim() || null,
+      status_expires_at: getExpiry(next.minutes)
+    });
+    setIsOpen(false);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    saveStatus({ emoji, text, minutes: duration });
+  };
+
+  const handleClear = () => {
+    onCustomStatusChange(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={toggleMenu}
+        className={`flex items-center gap-2 px-2 py-1.5 rounded-lg transition-colors ${isOpen ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'}`}
+        title={customStatus?.status_text || PRESENCE_STATUS_LABELS[status]}
+      >
+        <span className={`w-2.5 h-2.5 rounded-full ${PRESENCE_STATUS_DOT_CLASSES[status]}`}></span>
+        {customStatus?.status_emoji ? (
+          <span className="text-sm leading-none">{customStatus.status_emoji}</span>
+        ) : doNotDisturb ? (
+          <BellOff className="w-4 h-4 text-red-500" />
+        ) : null}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-200 z-50 text-left">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 text-sm flex items-center gap-2">
+              <span className={`w-2.5 h-2.5 rounded-full ${PRESENCE_STATUS_DOT_CLASSES[status]}`}></span>
+              {PRESENCE_STATUS_LABELS[status]}
+            </h3>
+            <button
+              onClick={() => onDoNotDisturbChange(!doNotDisturb)}
+              className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg transition-colors ${
+                doNotDisturb ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+              title="Do not disturb mutes notification sounds"
+            >
+              <BellOff className="w-3 h-3" />
+              {doNotDisturb ? 'Turn off do not disturb' : 'Do not disturb'}
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-4 space-y-3">
+            <div className="flex items-center gap-2 border border-gray-300 rounded-lg px-2 focus-within:ring-2 focus-within:ring-blue-500">
+              <span className="text-lg">{emoji}</span>
+              <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                maxLength={MAX_STATUS_LENGTH}
+                placeholder="What's your status?"
+                className="flex-1 py-2 text-sm focus:outline-none"
+                autoFocus
+              />
+              {text && (
+                <button type="button" onClick={() => setText('')} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {STATUS_EMOJIS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setEmoji(option)}
+                  className={`w-8 h-8 rounded-lg text-lg transition-colors ${emoji === option ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              {STATUS_PRESETS.map(preset => (
+                <button
+                  key={preset.text}
+                  type="button"
+                  onClick={() => saveStatus(preset)}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <span>{preset.emoji}</span>
+                  <span className="flex-1 text-left">{preset.text}</span>
+                  <span className="text-xs text-gray-400">
+                    {CUSTOM_STATUS_DURATIONS.find(d => d.minutes === preset.minutes)?.label}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            <label className="flex items-center justify-between gap-2 text-sm text-gray-700">
+              Clear after
+              <select
+                value={duration ?? ''}
+                onChange={(e) => setDuration(e.target.value ? Number(e.target.value) : null)}
+                className="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {CUSTOM_STATUS_DURATIONS.map(option => (
+                  <option key={option.label} value={option.minutes ?? ''}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <div className="flex justify-end gap-2 pt-1">
+              {customStatus && (
+                <button
+                  type="button"
+                  onClick={handleClear}
+                  className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Clear status
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={!text.trim()}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { UserPlus, UserMinus, UserX, Ban, Timer, RotateCcw, Settings, Phone, PhoneOff, ShieldCheck, Info, ChevronDown, ChevronUp } from 'lucide-react';
+import { Message, SystemEventType } from '../lib/supabase';
+import { formatSanctionDuration } from '../lib/sanctions';
+
+interface SystemMessageProps {
+  message: Message;
+  formatTime: (timestamp: string) => string;
+}
+
+interface SystemMessageGroupProps {
+  messages: Message[];
+  formatTime: (timestamp: string) => string;
+  // Kept by the parent so it survives rows being virtualized away
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+// Runs of this many events or more start collapsed into a summary line
+const COLLAPSE_THRESHOLD = 3;
+
+const EVENT_ICONS: Record<SystemEventType, typeof Info> = {
+  member_joined: UserPlus,
+  member_left: UserMinus,
+  room_updated: Settings,
+  call_started: Phone,
+  call_ended: PhoneOff,
+  role_changed: ShieldCheck,
+  member_kicked: UserX,
+  member_banned: Ban,
+  member_timed_out: Timer,
+  sanction_lifted: RotateCcw
+};
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 1) return `${seconds}s`;
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const describeGroup = (messages: Message[]) => {
+  const counts = messages.reduce<Partial<Record<SystemEventType, number>>>((acc, message) => {
+    const event = message.metadata?.event;
+    if (event) acc[event] = (acc[event] || 0) + 1;
+    return acc;
+  }, {});
+
+  const callEvents = (counts.call_started || 0) + (counts.call_ended || 0);
+  const moderationEvents = (counts.member_kicked || 0) + (counts.member_banned || 0) +
+    (counts.member_timed_out || 0) + (counts.sanction_lifted || 0);
+  const parts = [
+    counts.member_joined && `${counts.member_joined} joined`,
+    counts.member_left && `${counts.member_left} left`,
+    counts.room_updated && `${counts.room_updated} room ${counts.room_updated === 1 ? 'update' : 'updates'}`,
+    counts.role_changed && `${counts.role_changed} role ${counts.role_changed === 1 ? 'change' : 'changes'}`,
+    callEvents && `${callEvents} call ${callEvents === 1 ? 'event' : 'events'}`,
+    moderationEvents && `${moderationEvents} moderation ${moderationEvents === 1 ? 'action' : 'actions'}`
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : `${messages.length} events`;
+};
+
+export function SystemMessage({ message, formatTime }: SystemMessageProps) {
+  const event = message.metadata?.event;
+  const Icon = event ? EVENT_ICONS[event] : Info;
+  const duration = message.metadata?.duration_seconds;
+  const sanctionMinutes = message.metadata?.duration_minutes;
+
+  return (
+    <div className="flex items-center justify-center gap-2 px-4 py-1 text-xs text-gray-500">
+      <Icon className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+      <span className="truncate">
+        {message.content}
+        {event === 'call_ended' && duration !== undefined && ` after ${formatDuration(duration)}`}
+        {(event === 'member_banned' || event === 'member_timed_out') && sanctionMinutes !== undefined &&
+          ` for ${formatSanctionDuration(sanctionMinutes)}`}
+      </span>
+      <span className="text-gray-400 flex-shrink-0">{formatTime(message.created_at)}</span>
+    </div>
+  );
+}
+
+// Consecutive events are shown together and long runs can be collapsed
+export function SystemMessageGroup({ messages, formatTime, expanded, onToggle }: SystemMessageGroupProps) {
+  const isCollapsible = messages.length >= COLLAPSE_THRESHOLD;
+
+  if (isCollapsible && !expanded) {
+    return (
+      <div className="flex justify-center py-1">
+        <button
+          onClick={onToggle}
+          className="flex items-center gap-1.5 px-3 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+          title="Show events"
+        >
+          <Info className="w-3.5 h-3.5 text-gray-400" />
+          {describeGroup(messages)}
+          <ChevronDown className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-1">
+      {messages.map(message => (
+        <SystemMessage key={message.id} message={message} formatTime={formatTime} />
+      ))}
+      {isCollapsible && (
+        <div className="flex justify-center">
+          <button
+            onClick={onToggle}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <ChevronUp className="w-3.5 h-3.5" />
+            Hide events
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessagesSquare, Send, X, CornerDownRight } from 'lucide-react';
+import { Message } from '../lib/supabase';
+import { MessageAttachments } from './MessageAttachments';
+import { MarkdownContent } from './MarkdownContent';
+
+interface ThreadPanelProps {
+  parent: Message | null;
+  replies: Message[];
+  loading: boolean;
+  userName: string | null;
+  userId?: string;
+  formatTime: (timestamp: string) => string;
+  onSend: (content: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+export function ThreadPanel({
+  parent,
+  replies,
+  loading,
+  userName,
+  userId,
+  formatTime,
+  onSend,
+  onJumpToMessage,
+  onClose
+}: ThreadPanelProps) {
+  const [reply, setReply] = useState('');
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest reply in view as the thread grows
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+
+    onSend(reply.trim());
+    setReply('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 sm:static sm:inset-auto sm:z-auto w-full sm:w-96 flex flex-col bg-white/95 backdrop-blur-md border-l border-gray-200 shadow-lg">
+      <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-purple-50 flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <MessagesSquare className="w-5 h-5" />
+          Thread
+          <span className="text-xs font-medium text-gray-500 bg-white px-2 py-0.5 rounded-full border">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-white rounded-lg transition-colors text-gray-600"
+          title="Close thread"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {/* Parent Message */}
+        {parent ? (
+          <button
+            onClick={() => onJumpToMessage(parent.id)}
+            className="w-full text-left p-4 border-b border-gray-100 hover:bg-gray-50 transition-colors"
+            title="Jump to message"
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-6 h-6 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-white text-xs font-medium">
+                {parent.user_name[0].toUpperCase()}
+              </div>
+              <span className="text-sm font-semibold text-gray-900">{parent.user_name}</span>
+              <span className="text-xs text-gray-500">{formatTime(parent.created_at)}</span>
+            </div>
+            {parent.deleted_at ? (
+              <p className="text-sm text-gray-400 italic">This message was deleted</p>
+            ) : (
+              <MarkdownContent content={parent.content || '📎 Attachment'} currentUserName={userName || undefined} className="text-sm text-gray-700" />
+            )}
+          </button>
+        ) : (
+          <div className="p-4 border-b border-gray-100 text-sm text-gray-500 italic">
+            Original message unavailable
+          </div>
+        )}
+
+        {/* Replies */}
+        <div className="p-4 space-y-4">
+          {loading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto mb-2"></div>
+              <p className="text-sm text-gray-500">Loading replies...</p>
+            </div>
+          ) : replies.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No replies yet. Start the thread!</p>
+          ) : (
+            replies.map(message => (
+              <div
+                key={message.id}
+                className={`flex gap-2 ${message.id.startsWith('temp-') ? 'opacity-60' : ''}`}
+              >
+                <CornerDownRight className="w-4 h-4 text-gray-300 flex-shrink-0 mt-1" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-900">
+                      {message.user_name}
+                      {!!userId && message.user_id === userId && ' (You)'}
+                    </span>
+                    <span className="text-xs text-gray-500">{formatTime(message.created_at)}</span>
+                  </div>
+                  {message.deleted_at ? (
+                    <p className="text-sm text-gray-400 italic">This message was deleted</p>
+                  ) : (
+                    <>
+                      {message.attachments && message.attachments.length > 0 && (
+                        <MessageAttachments attachments={message.attachments} isOwnMessage={false} />
+                      )}
+                      <MarkdownContent content={message.content} currentUserName={userName || undefined} className="text-sm text-gray-700" />
+                      {message.edited_at && <span className="text-xs text-gray-400">(edited)</span>}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+          <div ref={repliesEndRef} />
+        </div>
+      </div>
+
+      {/* Thread Reply Input */}
+      <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200 flex gap-2">
+        <input
+          type="text"
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          placeholder="Reply in thread..."
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+          maxLength={1000}
+          autoComplete="off"
+        />
+        <button
+          type="submit"
+          disabled={!reply.trim()}
+          className="bg-gradient-to-r from-blue-600 to-purple-600 text-white p-2 rounded-xl hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
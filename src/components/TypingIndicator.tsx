@@ -1,22 +1,41 @@
 import React from 'react';
+import { TypingActivity, TypingUser } from '../lib/supabase';
 
 interface TypingIndicatorProps {
-  typingUsers: string[];
+  typingUsers: TypingUser[];
 }
 
+const ACTIVITY_TEXT: Record<TypingActivity, { one: string; many: string }> = {
+  typing: { one: 'is typing', many: 'are typing' },
+  uploading: { one: 'is uploading a file', many: 'are uploading files' },
+  recording: { one: 'is recording a voice note', many: 'are recording voice notes' }
+};
+
+const ACTIVITY_ORDER: TypingActivity[] = ['typing', 'uploading', 'recording'];
+
 export function TypingIndicator({ typingUsers }: TypingIndicatorProps) {
   if (typingUsers.length === 0) return null;
 
-  const getTypingText = () => {
-    if (typingUsers.length === 1) {
-      return `${typingUsers[0]} is typing`;
-    } else if (typingUsers.length === 2) {
-      return `${typingUsers[0]} and ${typingUsers[1]} are typing`;
+  const describeActivity = (activity: TypingActivity) => {
+    const names = typingUsers.filter(t => t.activity === activity).map(t => t.user_name);
+    const text = ACTIVITY_TEXT[activity];
+
+    if (names.length === 0) {
+      return null;
+    } else if (names.length === 1) {
+      return `${names[0]} ${text.one}`;
+    } else if (names.length === 2) {
+      return `${names[0]} and ${names[1]} ${text.many}`;
     } else {
-      return `${typingUsers[0]} and ${typingUsers.length - 1} others are typing`;
+      return `${names[0]} and ${names.length - 1} others ${text.many}`;
     }
   };
 
+  const getTypingText = () => ACTIVITY_ORDER
+    .map(describeActivity)
+    .filter(Boolean)
+    .join(', ');
+
   return (
     <div className="flex items-center gap-3 px-4 py-3 mb-2 animate-in slide-in-from-bottom-2">
       <div className="flex items-center gap-3">
@@ -31,4 +50,4 @@ export function TypingIndicator({ typingUsers }: TypingIndicatorProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, forwardRef, useImperativeHandle } from 'react';
+
+export interface VirtualMessageListHandle {
+  scrollToKey: (key: string) => boolean;
+  scrollToBottom: (behavior?: ScrollBehavior) => void;
+  isNearBottom: () => boolean;
+}
+
+interface VirtualMessageListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  getDateLabel?: (item: T) => string;
+  header?: React.ReactNode;
+  footer?: React.ReactNode;
+  onNearTop?: () => void;
+  onNearBottom?: () => void;
+  // Keep the view pinned to the end as items are appended while scrolled to the bottom
+  followOutput?: boolean;
+  estimatedItemHeight?: number;
+  overscan?: number;
+  className?: string;
+}
+
+interface MeasuredRowProps {
+  itemKey: string;
+  top: number;
+  onResize: (key: string, height: number) => void;
+  children: React.ReactNode;
+}
+
+const NEAR_BOTTOM_THRESHOLD = 50;
+const NEAR_EDGE_THRESHOLD = 300;
+
+function MeasuredRow({ itemKey, top, onResize, children }: MeasuredRowProps) {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = rowRef.current;
+    if (!element) return;
+
+    onResize(itemKey, element.offsetHeight);
+    const observer = new ResizeObserver(() => onResize(itemKey, element.offsetHeight));
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, [itemKey, onResize]);
+
+  return (
+    <div ref={rowRef} style={{ position: 'absolute', top, left: 0, right: 0 }}>
+      {children}
+    </div>
+  );
+}
+
+// Index of the first item whose bottom edge lies below `position`
+const findFirstBelow = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] > position) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return Math.max(0, low);
+};
+
+function VirtualMessageListInner<T>(
+  {
+    items,
+    getKey,
+    renderItem,
+    getDateLabel,
+    header,
+    footer,
+    onNearTop,
+    onNearBottom,
+    followOutput = true,
+    estimatedItemHeight = 80,
+    overscan = 600,
+    className = ''
+  }: VirtualMessageListProps<T>,
+  ref: React.ForwardedRef<VirtualMessageListHandle>
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Latest measurements; copied into `heights` once per frame
+  const heightsRef = useRef<Map<string, number>>(new Map());
+  const atBottomRef = useRef(true);
+  const anchorRef = useRef<{ key: string; delta: number } | null>(null);
+  const layoutFrameRef = useRef<number>();
+  const scrollFrameRef = useRef<number>();
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(window.innerHeight);
+  const [listTop, setListTop] = useState(0);
+
+  const keys = useMemo(() => items.map(getKey), [items, getKey]);
+
+  const keyIndex = useMemo(() => {
+    const map = new Map<string, number>();
+    keys.forEach((key, index) => map.set(key, index));
+    return map;
+  }, [keys]);
+
+  // offsets[i] is the top of item i; offsets[items.length] is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, index) => {
+      result[index + 1] = result[index] + (heights.get(key) ?? estimatedItemHeight);
+    });
+    return result;
+  }, [keys, estimatedItemHeight, heights]);
+
+  const handleResize = useCallback((key: string, height: number) => {
+    if (heightsRef.current.get(key) === height) return;
+    heightsRef.current.set(key, height);
+
+    // Batch re-measurements into a single layout pass per frame
+    if (layoutFrameRef.current === undefined) {
+      layoutFrameRef.current = requestAnimationFrame(() => {
+        layoutFrameRef.current = undefined;
+        setHeights(new Map(heightsRef.current));
+      });
+    }
+  }, []);
+
+  // Remember which item is at the top of the viewport so it can be kept in
+  // place when rows above it are added or change height
+  const updateAnchor = useCallback((currentScrollTop: number) => {
+    if (keys.length === 0) {
+      anchorRef.current = null;
+      return;
+    }
+
+    const index = findFirstBelow(offsets, currentScrollTop - listTop);
+    anchorRef.current = {
+      key: keys[index],
+      delta: currentScrollTop - (listTop + offsets[index])
+    };
+  }, [keys, offsets, listTop]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    if (followOutput && atBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    } else if (anchorRef.current) {
+      const index = keyIndex.get(anchorRef.current.key);
+      if (index !== undefined) {
+        const target = listTop + offsets[index] + anchorRef.current.delta;
+        if (Math.abs(container.scrollTop - target) > 1) {
+          container.scrollTop = target;
+        }
+      }
+    }
+
+    setScrollTop(container.scrollTop);
+    updateAnchor(container.scrollTop);
+  }, [offsets, keyIndex, listTop, updateAnchor, followOutput]);
+
+  // Track the viewport and header sizes
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+
+    const measure = () => {
+      setViewportHeight(container.clientHeight);
+      setListTop(list.offsetTop);
+    };
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    if (list.previousElementSibling) {
+      observer.observe(list.previousElementSibling);
+    }
+
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (layoutFrameRef.current !== undefined) cancelAnimationFrame(layoutFrameRef.current);
+      if (scrollFrameRef.current !== undefined) cancelAnimationFrame(scrollFrameRef.current);
+    };
+  }, []);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    atBottomRef.current = distanceFromBottom < NEAR_BOTTOM_THRESHOLD;
+    updateAnchor(container.scrollTop);
+
+    if (container.scrollTop < NEAR_EDGE_THRESHOLD) {
+      onNearTop?.();
+    }
+    if (distanceFromBottom < NEAR_EDGE_THRESHOLD) {
+      onNearBottom?.();
+    }
+
+    if (scrollFrameRef.current === undefined) {
+      scrollFrameRef.current = requestAnimationFrame(() => {
+        scrollFrameRef.current = undefined;
+        if (containerRef.current) {
+          setScrollTop(containerRef.current.scrollTop);
+        }
+      });
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToKey: (key: string) => {
+      const container = containerRef.current;
+      const index = keyIndex.get(key);
+      if (!container || index === undefined) return false;
+
+      const height = offsets[index + 1] - offsets[index];
+      atBottomRef.current = false;
+      container.scrollTo({
+        top: listTop + offsets[index] - Math.max(0, (container.clientHeight - height) / 2),
+        behavior: 'smooth'
+      });
+      return true;
+    },
+    scrollToBottom: (behavior: ScrollBehavior = 'smooth') => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      atBottomRef.current = true;
+      container.scrollTo({ top: container.scrollHeight, behavior });
+    },
+    isNearBottom: () => atBottomRef.current
+  }), [keyIndex, offsets, listTop]);
+
+  const visibleTop = scrollTop - listTop;
+  const startIndex = keys.length > 0 ? findFirstBelow(offsets, visibleTop - overscan) : 0;
+  let endIndex = startIndex;
+  while (endIndex < keys.length && offsets[endIndex] < visibleTop + viewportHeight + overscan) {
+    endIndex++;
+  }
+
+  const stickyLabel = getDateLabel && keys.length > 0 && visibleTop > 0
+    ? getDateLabel(items[findFirstBelow(offsets, visibleTop)])
+    : null;
+
+  return (
+    <div className="relative flex-1 min-h-0 flex flex-col">
+      {/* Sticky Date Separator */}
+      {stickyLabel && (
+        <div className="absolute top-2 left-0 right-0 flex justify-center z-10 pointer-events-none">
+          <span className="bg-white/90 backdrop-blur-sm px-4 py-2 rounded-full text-xs text-gray-500 border shadow-sm">
+            {stickyLabel}
+          </span>
+        </div>
+      )}
+
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        className={`relative flex-1 overflow-y-auto ${className}`}
+        style={{ scrollBehavior: 'auto' }}
+      >
+        <div>{header}</div>
+        <div ref={listRef} style={{ position: 'relative', height: offsets[keys.length] }}>
+          {items.slice(startIndex, endIndex).map((item, i) => {
+            const index = startIndex + i;
+            return (
+              <MeasuredRow
+                key={keys[index]}
+                itemKey={keys[index]}
+                top={offsets[index]}
+                onResize={handleResize}
+              >
+                {renderItem(item, index)}
+              </MeasuredRow>
+            );
+          })}
+        </div>
+        {footer}
+      </div>
+    </div>
+  );
+}
+
+export const VirtualMessageList = forwardRef(VirtualMessageListInner) as <T>(
+  props: VirtualMessageListProps<T> & { ref?: React.Ref<VirtualMessageListHandle> }
+) => React.ReactElement;
@@ -1,32 +1,149 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { User } from '@supabase/supabase-js';
+import { supabase, Profile } from '../lib/supabase';
+import { clearOutbox } from '../lib/outbox';
+
+// Name typed by users before accounts existed, offered as their display name
+const LEGACY_USERNAME_KEY = 'chat_username';
 
 interface UserContextType {
+  user: User | null;
+  profile: Profile | null;
+  // Display name from the profile, used to label messages, presence and mentions
   userName: string | null;
-  setUserName: (name: string) => void;
+  // Until the stored session has been checked
+  loading: boolean;
+  suggestedName: string | null;
+  signInAnonymously: (displayName: string) => Promise<void>;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  // Resolves to false when the email address has to be confirmed first
+  signUp: (email: string, password: string, displayName: string) => Promise<boolean>;
+  // Turns a guest account into one that can sign in again with email and password
+  saveAccount: (email: string, password: string) => Promise<void>;
+  updateDisplayName: (displayName: string) => Promise<void>;
+  signOut: () => Promise<void>;
   currentRoom: string | null;
   setCurrentRoom: (roomId: string | null) => void;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
+const toDisplayNameError = (error: { code?: string; message: string }) =>
+  new Error(error.code === '23505' ? 'That name is already taken' : error.message);
+
 export function UserProvider({ children }: { children: React.ReactNode }) {
-  const [userName, setUserNameState] = useState<string | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
   const [currentRoom, setCurrentRoom] = useState<string | null>(null);
+  const [suggestedName] = useState(() => localStorage.getItem(LEGACY_USERNAME_KEY));
 
   useEffect(() => {
-    const saved = localStorage.getItem('chat_username');
-    if (saved) {
-      setUserNameState(saved);
+    supabase.auth.getSession().then(({ data }) => {
+      setUser(data.session?.user ?? null);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadProfile = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('❌ Error loading profile:', error);
+      return;
     }
+
+    setProfile(data);
   }, []);
 
-  const setUserName = (name: string) => {
-    setUserNameState(name);
-    localStorage.setItem('chat_username', name);
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      return;
+    }
+
+    loadProfile(user.id);
+  }, [user, loadProfile]);
+
+  const signInAnonymously = async (displayName: string) => {
+    const { error } = await supabase.auth.signInAnonymously({
+      options: { data: { display_name: displayName } }
+    });
+    if (error) throw error;
+    localStorage.removeItem(LEGACY_USERNAME_KEY);
+  };
+
+  const signInWithPassword = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signUp = async (email: string, password: string, displayName: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { data: { display_name: displayName } }
+    });
+    if (error) throw error;
+    localStorage.removeItem(LEGACY_USERNAME_KEY);
+    return !!data.session;
+  };
+
+  const saveAccount = async (email: string, password: string) => {
+    const { error } = await supabase.auth.updateUser({ email, password });
+    if (error) throw error;
+  };
+
+  const updateDisplayName = async (displayName: string) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ display_name: displayName })
+      .eq('id', user.id)
+      .select()
+      .single();
+
+    if (error) throw toDisplayNameError(error);
+    setProfile(data);
+  };
+
+  const signOut = async () => {
+    // Unsent messages must not be replayed for whoever signs in next
+    await clearOutbox().catch(err => {
+      console.error('❌ Failed to clear outbox:', err);
+    });
+
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
   };
 
   return (
-    <UserContext.Provider value={{ userName, setUserName, currentRoom, setCurrentRoom }}>
+    <UserContext.Provider value={{
+      user,
+      profile,
+      userName: profile?.display_name ?? null,
+      loading,
+      suggestedName,
+      signInAnonymously,
+      signInWithPassword,
+      signUp,
+      saveAccount,
+      updateDisplayName,
+      signOut,
+      currentRoom,
+      setCurrentRoom
+    }}>
       {children}
     </UserContext.Provider>
   );
@@ -38,4 +155,4 @@ export function useUser() {
     throw new Error('useUser must be used within a UserProvider');
   }
   return context;
-}
\ No newline at end of file
+}
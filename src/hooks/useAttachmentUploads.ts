@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Room, MessageAttachment } from '../lib/supabase';
+import { uploadAttachment, validateAttachment, MAX_ATTACHMENTS_PER_MESSAGE } from '../lib/storage';
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  previewUrl: string | null;
+  progress: number;
+  status: 'uploading' | 'done' | 'error';
+  attachment?: MessageAttachment;
+  error?: string;
+}
+
+const showErrorToast = (text: string) => {
+  const toast = document.createElement('div');
+  toast.className = 'fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 animate-in slide-in-from-top-2';
+  toast.textContent = text;
+  document.body.appendChild(toast);
+  setTimeout(() => {
+    if (document.body.contains(toast)) {
+      document.body.removeChild(toast);
+    }
+  }, 4000);
+};
+
+// Uploads files picked in the composer as soon as they are added, so they
+// are ready by the time the message is sent
+export function useAttachmentUploads(room: Room) {
+  const [pending, setPending] = useState<PendingAttachment[]>([]);
+  const abortersRef = useRef<Map<string, () => void>>(new Map());
+  const pendingRef = useRef<PendingAttachment[]>([]);
+
+  useEffect(() => {
+    pendingRef.current = pending;
+  }, [pending]);
+
+  const updatePending = (id: string, changes: Partial<PendingAttachment>) => {
+    setPending(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const addFiles = useCallback((files: File[]) => {
+    const available = MAX_ATTACHMENTS_PER_MESSAGE - pendingRef.current.length;
+    if (files.length > available) {
+      showErrorToast(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+    }
+
+    files.slice(0, Math.max(0, available)).forEach(file => {
+      const validationError = validateAttachment(file, room);
+      if (validationError) {
+        showErrorToast(validationError);
+        return;
+      }
+
+      const id = crypto.randomUUID();
+      const item: PendingAttachment = {
+        id,
+        file,
+        previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : null,
+        progress: 0,
+        status: 'uploading'
+      };
+      setPending(prev => [...prev, item]);
+
+      console.log(`📎 Uploading attachment: ${file.name}`);
+      const upload = uploadAttachment(room.id, file, progress => updatePending(id, { progress }));
+      abortersRef.current.set(id, upload.abort);
+
+      upload.promise
+        .then(attachment => {
+          console.log(`✅ Attachment uploaded: ${attachment.path}`);
+          updatePending(id, { status: 'done', progress: 1, attachment });
+        })
+        .catch(err => {
+          console.error('❌ Failed to upload attachment:', err);
+          updatePending(id, { status: 'error', error: (err as Error).message });
+        })
+        .finally(() => abortersRef.current.delete(id));
+    });
+  }, [room]);
+
+  const removeAttachment = useCallback((id: string) => {
+    abortersRef.current.get(id)?.();
+    setPending(prev => {
+      const item = prev.find(p => p.id === id);
+      if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl);
+      return prev.filter(p => p.id !== id);
+    });
+  }, []);
+
+  // Empties the tray after sending; uploaded files stay in storage
+  const clearAttachments = useCallback(() => {
+    pendingRef.current.forEach(item => {
+      if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+    });
+    setPending([]);
+  }, []);
+
+  // Cancel outstanding uploads when leaving the room
+  useEffect(() => {
+    const aborters = abortersRef.current;
+    return () => {
+      aborters.forEach(abort => abort());
+      aborters.clear();
+      pendingRef.current.forEach(item => {
+        if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+      });
+    };
+  }, [room.id]);
+
+  const isUploading = pending.some(item => item.status === 'uploading');
+  const readyAttachments = pending
+    .filter(item => item.status === 'done' && item.attachment)
+    .map(item => item.attachment as MessageAttachment);
+
+  return { pending, isUploading, readyAttachments, addFiles, removeAttachment, clearAttachments };
+}
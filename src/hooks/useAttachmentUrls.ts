@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { MessageAttachment } from '../lib/supabase';
+import { getAttachmentUrls, SIGNED_URL_TTL_SECONDS } from '../lib/storage';
+
+// Signed URLs of attachments by path. They are renewed while the component
+// stays mounted, so links keep working in rooms that are left open.
+export function useAttachmentUrls(attachments: Pick<MessageAttachment, 'path'>[]) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const pathsKey = attachments.map(attachment => attachment.path).join('\n');
+
+  useEffect(() => {
+    if (!pathsKey) return;
+
+    let cancelled = false;
+    const paths = pathsKey.split('\n');
+
+    const loadUrls = async () => {
+      try {
+        const result = await getAttachmentUrls(paths);
+        if (!cancelled) setUrls(result);
+      } catch (err) {
+        console.error('❌ Failed to load attachment links:', err);
+      }
+    };
+
+    loadUrls();
+    const interval = setInterval(loadUrls, (SIGNED_URL_TTL_SECONDS / 2) * 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [pathsKey]);
+
+  return urls;
+}
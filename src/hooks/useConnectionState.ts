@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { ConnectionState, getConnectionState, onConnectionStateChange } from '../lib/realtime';
+
+// App-wide realtime connection state, combined over every subscribed topic
+export function useConnectionState() {
+  const [connectionState, setConnectionState] = useState<ConnectionState>(getConnectionState);
+
+  useEffect(() => {
+    setConnectionState(getConnectionState());
+    return onConnectionStateChange(setConnectionState);
+  }, []);
+
+  return connectionState;
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, MessageMention } from '../lib/supabase';
+import { subscribeToTopic, userTopic, postgresChanges } from '../lib/realtime';
+
+const MENTIONS_LIMIT = 50;
+const MENTION_SELECT = '*, message:messages(id, content, deleted_at), room:rooms(id, name)';
+
+const isSameMention = (a: MessageMention, b: MessageMention) =>
+  a.message_id === b.message_id && a.mentioned_user_id === b.mentioned_user_id;
+
+export function useMentions(userId: string) {
+  const [mentions, setMentions] = useState<MessageMention[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadMentions = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setLoading(true);
+      console.log(`📥 Loading mentions for ${userId}`);
+
+      const { data, error } = await supabase
+        .from('message_mentions')
+        .select(MENTION_SELECT)
+        .eq('mentioned_user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(MENTIONS_LIMIT);
+
+      if (error) {
+        console.error('❌ Error loading mentions:', error);
+        throw error;
+      }
+
+      setMentions(data || []);
+      console.log(`✅ Loaded ${data?.length || 0} mentions`);
+    } catch (err) {
+      console.error('❌ Failed to load mentions:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  const subscribeToMentions = useCallback(() => {
+    if (!userId) return;
+
+    console.log(`🔄 Setting up mentions subscription for ${userId}`);
+
+    return subscribeToTopic(userTopic(userId), {
+      bindings: [
+        postgresChanges(
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'message_mentions',
+            filter: `mentioned_user_id=eq.${userId}`,
+          },
+          async (payload) => {
+            const inserted = payload.new as MessageMention;
+
+            // The payload has no joined rows, fetch them for the inbox preview
+            const { data } = await supabase
+              .from('message_mentions')
+              .select(MENTION_SELECT)
+              .match({ message_id: inserted.message_id, mentioned_user_id: inserted.mentioned_user_id })
+              .maybeSingle();
+
+            const mention: MessageMention = data || inserted;
+            setMentions(prev =>
+              prev.some(m => isSameMention(m, mention))
+                ? prev
+                : [mention, ...prev].slice(0, MENTIONS_LIMIT)
+            );
+          }
+        ),
+        postgresChanges(
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'message_mentions',
+            filter: `mentioned_user_id=eq.${userId}`,
+          },
+          (payload) => {
+            const updated = payload.new as MessageMention;
+            setMentions(prev => prev.map(m =>
+              isSameMention(m, updated) ? { ...m, read_at: updated.read_at } : m
+            ));
+          }
+        ),
+        postgresChanges(
+          {
+            // Delete events can't be filtered server-side
+            event: 'DELETE',
+            schema: 'public',
+            table: 'message_mentions',
+          },
+          (payload) => {
+            const removed = payload.old as MessageMention;
+            if (removed.mentioned_user_id !== userId) return;
+            setMentions(prev => prev.filter(m => !isSameMention(m, removed)));
+          }
+        )
+      ],
+      onStatus: (status) => {
+        console.log(`🔌 Mentions subscription status: ${status}`);
+        if (status === 'connected') {
+          loadMentions();
+        }
+      }
+    });
+  }, [userId, loadMentions]);
+
+  const markAsRead = useCallback(async (filter: { message_id?: string; room_id?: string }) => {
+    if (!userId) return;
+
+    const readAt = new Date().toISOString();
+    const matches = (m: MessageMention) =>
+      !m.read_at &&
+      (!filter.message_id || m.message_id === filter.message_id) &&
+      (!filter.room_id || m.room_id === filter.room_id);
+
+    setMentions(prev => prev.map(m => matches(m) ? { ...m, read_at: readAt } : m));
+
+    try {
+      const { error } = await supabase
+        .from('message_mentions')
+        .update({ read_at: readAt })
+        .match({ mentioned_user_id: userId, ...filter })
+        .is('read_at', null);
+
+      if (error) {
+        console.error('❌ Error marking mentions as read:', error);
+        throw error;
+      }
+    } catch (err) {
+      console.error('❌ Failed to mark mentions as read:', err);
+    }
+  }, [userId]);
+
+  const markMentionAsRead = useCallback(
+    (messageId: string) => markAsRead({ message_id: messageId }),
+    [markAsRead]
+  );
+
+  const markRoomAsRead = useCallback(
+    (roomId: string) => markAsRead({ room_id: roomId }),
+    [markAsRead]
+  );
+
+  const markAllAsRead = useCallback(() => markAsRead({}), [markAsRead]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    setMentions([]);
+    loadMentions();
+    const unsubscribe = subscribeToMentions();
+
+    return () => {
+      console.log('🧹 Cleaning up mentions subscription');
+      unsubscribe?.();
+    };
+  }, [userId, loadMentions, subscribeToMentions]);
+
+  const unreadCount = mentions.filter(m => !m.read_at).length;
+
+  return {
+    mentions,
+    unreadCount,
+    loading,
+    markMentionAsRead,
+    markRoomAsRead,
+    markAllAsRead,
+    refetch: loadMentions
+  };
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, MessageReaction } from '../lib/supabase';
+import { subscribeToTopic, roomTopic, postgresChanges } from '../lib/realtime';
+
+const isSameReaction = (a: MessageReaction, b: MessageReaction) =>
+  a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+export function useMessageReactions(roomId: string, userId: string, userName: string) {
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  const reactionsRef = useRef<MessageReaction[]>([]);
+
+  useEffect(() => {
+    reactionsRef.current = reactions;
+  }, [reactions]);
+
+  const loadReactions = useCallback(async () => {
+    if (!roomId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('message_reactions')
+        .select('*')
+        .eq('room_id', roomId);
+
+      if (error) {
+        console.error('❌ Error loading reactions:', error);
+        throw error;
+      }
+
+      setReactions(data || []);
+      console.log(`✅ Loaded ${data?.length || 0} reactions`);
+    } catch (err) {
+      console.error('❌ Failed to load reactions:', err);
+    }
+  }, [roomId]);
+
+  const subscribeToReactions = useCallback(() => {
+    if (!roomId) return;
+
+    console.log(`🔄 Setting up reactions subscription for room: ${roomId}`);
+
+    return subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        postgresChanges(
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'message_reactions',
+            filter: `room_id=eq.${roomId}`,
+          },
+          (payload) => {
+            const reaction = payload.new as MessageReaction;
+            setReactions(prev =>
+              prev.some(r => isSameReaction(r, reaction)) ? prev : [...prev, reaction]
+            );
+          }
+        ),
+        postgresChanges(
+          {
+            // Delete events can't be filtered server-side
+            event: 'DELETE',
+            schema: 'public',
+            table: 'message_reactions',
+          },
+          (payload) => {
+            const reaction = payload.old as MessageReaction;
+            if (reaction.room_id !== roomId) return;
+            setReactions(prev => prev.filter(r => !isSameReaction(r, reaction)));
+          }
+        )
+      ],
+      onStatus: (status) => {
+        console.log(`🔌 Reactions subscription status: ${status}`);
+        // Reactions changed while disconnected were missed
+        if (status === 'connected') {
+          loadReactions();
+        }
+      }
+    });
+  }, [roomId, loadReactions]);
+
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    if (!roomId || !userId || messageId.startsWith('temp-')) return;
+
+    const reaction: MessageReaction = {
+      message_id: messageId,
+      room_id: roomId,
+      user_id: userId,
+      user_name: userName,
+      emoji,
+      created_at: new Date().toISOString()
+    };
+    const hasReacted = reactionsRef.current.some(r => isSameReaction(r, reaction));
+
+    // Optimistic update
+    setReactions(prev => hasReacted
+      ? prev.filter(r => !isSameReaction(r, reaction))
+      : [...prev, reaction]
+    );
+
+    try {
+      const { error } = hasReacted
+        ? await supabase
+            .from('message_reactions')
+            .delete()
+            .match({ message_id: messageId, user_id: userId, emoji })
+        : await supabase
+            .from('message_reactions')
+            .insert([{ message_id: messageId, room_id: roomId, emoji }]);
+
+      if (error) {
+        console.error('❌ Error toggling reaction:', error);
+        throw error;
+      }
+    } catch (err) {
+      console.error('❌ Failed to toggle reaction:', err);
+
+      // Roll back the optimistic update
+      setReactions(prev => hasReacted
+        ? [...prev, reaction]
+        : prev.filter(r => !isSameReaction(r, reaction))
+      );
+
+      const toast = document.createElement('div');
+      toast.className = 'fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 animate-in slide-in-from-top-2';
+      toast.textContent = 'Failed to update reaction';
+      document.body.appendChild(toast);
+      setTimeout(() => {
+        if (document.body.contains(toast)) {
+          document.body.removeChild(toast);
+        }
+      }, 3000);
+    }
+  }, [roomId, userId, userName]);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    setReactions([]);
+    loadReactions();
+    const unsubscribe = subscribeToReactions();
+
+    return () => {
+      console.log('🧹 Cleaning up reactions subscription');
+      unsubscribe?.();
+    };
+  }, [roomId, loadReactions, subscribeToReactions]);
+
+  const reactionsByMessage = reactions.reduce<Record<string, MessageReaction[]>>((acc, reaction) => {
+    (acc[reaction.message_id] ||= []).push(reaction);
+    return acc;
+  }, {});
+
+  return { reactionsByMessage, toggleReaction, refetch: loadReactions };
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, MessageSearchResult } from '../lib/supabase';
+import { parseSearchQuery, isEmptySearch } from '../lib/search';
+
+const SEARCH_PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function useMessageSearch(roomId: string, query: string) {
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const requestIdRef = useRef(0);
+
+  const runSearch = useCallback(async (offset: number) => {
+    const parsed = parseSearchQuery(query);
+    const requestId = ++requestIdRef.current;
+
+    if (!roomId || isEmptySearch(parsed)) {
+      setResults([]);
+      setHasMore(false);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      console.log(`🔍 Searching messages: "${query}"`);
+
+      const { data, error } = await supabase.rpc('search_messages', {
+        p_room_id: roomId,
+        p_query: parsed.text,
+        p_user_name: parsed.from,
+        p_before: parsed.before,
+        p_after: parsed.after,
+        p_limit: SEARCH_PAGE_SIZE,
+        p_offset: offset
+      });
+
+      if (error) {
+        console.error('❌ Error searching messages:', error);
+        throw error;
+      }
+
+      // Ignore responses to queries that have since changed
+      if (requestId !== requestIdRef.current) return;
+
+      const page = (data || []) as MessageSearchResult[];
+      setResults(prev => offset === 0 ? page : [...prev, ...page]);
+      setHasMore(page.length === SEARCH_PAGE_SIZE);
+      console.log(`✅ Found ${page.length} matching messages`);
+    } catch (err) {
+      console.error('❌ Failed to search messages:', err);
+      if (requestId === requestIdRef.current) {
+        setError('Search failed. Please try again.');
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [roomId, query]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => runSearch(0), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [runSearch]);
+
+  const loadMore = useCallback(() => {
+    if (loading || !hasMore) return;
+    runSearch(results.length);
+  }, [loading, hasMore, results.length, runSearch]);
+
+  return { results, loading, error, hasMore, loadMore };
+}
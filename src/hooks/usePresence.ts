@@ -1,175 +1,276 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase, UserPresence } from '../lib/supabase';
+import { supabase, CustomStatus, PresenceStatus, UserPresence } from '../lib/supabase';
+import { getActiveCustomStatus } from '../lib/presence';
+import {
+  ConnectionState,
+  PresenceMeta,
+  subscribeToTopic,
+  roomTopic,
+  LOBBY_TOPIC,
+  presence,
+  trackPresence,
+  untrackPresence,
+  SESSION_ID
+} from '../lib/realtime';
 
-export function usePresence(roomId: string, userName: string) {
+// A user counts as idle after this long without input
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+const IDLE_CHECK_INTERVAL = 30000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'] as const;
+
+// With several tabs open the most present one wins
+const STATUS_RANK: PresenceStatus[] = ['dnd', 'active', 'idle', 'away'];
+
+interface PresenceState extends PresenceMeta, Partial<CustomStatus> {
+  status?: PresenceStatus;
+}
+
+// One entry per user, however many tabs and devices they are online from
+const toOnlineUsers = (states: PresenceState[], roomId: string) => {
+  const byUser = new Map<string, UserPresence>();
+  states.forEach(state => {
+    const status = state.status || 'active';
+    const existing = byUser.get(state.user_id);
+    if (existing && STATUS_RANK.indexOf(existing.status!) <= STATUS_RANK.indexOf(status)) return;
+
+    byUser.set(state.user_id, {
+      user_id: state.user_id,
+      user_name: state.user_name,
+      is_online: true,
+      last_seen: state.online_at,
+      current_room_id: roomId,
+      status,
+      do_not_disturb: status === 'dnd',
+      status_text: state.status_text ?? null,
+      status_emoji: state.status_emoji ?? null,
+      status_expires_at: state.status_expires_at ?? null
+    });
+  });
+  return Array.from(byUser.values());
+};
+
+// Online status comes from the room channel's presence, also tracked on the
+// lobby so the room list can show who is in each room. The database only
+// keeps when each user was last seen, written as they leave, along with the
+// custom status and do not disturb they chose
+export function usePresence(roomId: string, userId: string, userName: string) {
   const [onlineUsers, setOnlineUsers] = useState<UserPresence[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>('connecting');
-  const channelRef = useRef<any>(null);
-  const heartbeatRef = useRef<NodeJS.Timeout>();
-  const cleanupRef = useRef<NodeJS.Timeout>();
-  const refreshRef = useRef<NodeJS.Timeout>();
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionState>('connecting');
+  const [isIdle, setIsIdle] = useState(false);
+  const [isHidden, setIsHidden] = useState(() => document.hidden);
+  const [doNotDisturb, setDoNotDisturbState] = useState(false);
+  const [customStatus, setCustomStatusState] = useState<CustomStatus | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const onlineAtRef = useRef(new Date().toISOString());
+  // The user stays online while another tab or device is still in the room
+  const hasOtherSessionsRef = useRef(false);
 
-  const updatePresence = useCallback(async (isOnline: boolean = true) => {
-    if (!userName) return;
+  const status: PresenceStatus = doNotDisturb ? 'dnd' : isHidden ? 'away' : isIdle ? 'idle' : 'active';
+
+  const saveLastSeen = useCallback(async () => {
+    if (!userName || hasOtherSessionsRef.current) return;
 
     try {
       const { error } = await supabase
         .from('user_presence')
         .upsert({
-          user_name: userName,
-          is_online: isOnline,
+          is_online: false,
           last_seen: new Date().toISOString(),
-          current_room_id: isOnline ? roomId : null
+          current_room_id: null
         }, {
-          onConflict: 'user_name'
+          onConflict: 'user_id'
         });
 
       if (error) throw error;
-      setConnectionStatus('connected');
     } catch (error) {
-      console.error('Error updating presence:', error);
-      setConnectionStatus('disconnected');
+      console.error('Error saving last seen:', error);
     }
-  }, [userName, roomId]);
+  }, [userName]);
+
+  // Only the given columns are written, so saving one setting keeps the others.
+  // The row's user is filled in by the database from the session.
+  const saveStatus = useCallback(async (changes: Partial<CustomStatus> & { do_not_disturb?: boolean }) => {
+    if (!userName) return;
 
-  const loadOnlineUsers = useCallback(async () => {
-    if (!roomId) return;
-    
     try {
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('user_presence')
-        .select('*')
-        .eq('current_room_id', roomId);
+        .upsert(changes, { onConflict: 'user_id' });
 
       if (error) throw error;
-
-      // Filter users who are actually online (last seen within 1 minute)
-      const now = new Date();
-      const activeUsers = (data || []).filter(user => {
-        if (!user.is_online) return false;
-        const lastSeen = new Date(user.last_seen);
-        return (now.getTime() - lastSeen.getTime()) < 60000; // 1 minute
-      });
-
-      setOnlineUsers(activeUsers);
-      console.log(`👥 ${activeUsers.length} users online in room ${roomId}`);
     } catch (error) {
-      console.error('Error loading online users:', error);
+      console.error('Error saving status:', error);
     }
-  }, [roomId]);
+  }, [userName]);
 
-  const setupPresenceSubscription = useCallback(() => {
-    if (!roomId || !userName) return;
+  const setDoNotDisturb = useCallback((enabled: boolean) => {
+    console.log(`🔕 Do not disturb ${enabled ? 'on' : 'off'}`);
+    setDoNotDisturbState(enabled);
+    saveStatus({ do_not_disturb: enabled });
+  }, [saveStatus]);
 
-    if (channelRef.current) {
-      supabase.removeChannel(channelRef.current);
-    }
+  const setCustomStatus = useCallback((next: CustomStatus | null) => {
+    const active = getActiveCustomStatus(next);
+    setCustomStatusState(active);
+    saveStatus({
+      status_text: active?.status_text || null,
+      status_emoji: active?.status_emoji || null,
+      status_expires_at: active?.status_expires_at || null
+    });
+  }, [saveStatus]);
 
-    const channelName = `presence_${roomId}_${Date.now()}`;
-    console.log(`🔄 Setting up presence subscription: ${channelName}`);
-
-    channelRef.current = supabase
-      .channel(channelName)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'user_presence',
-        },
-        (payload) => {
-          console.log('👤 Presence change:', payload);
-          loadOnlineUsers();
-        }
-      )
-      .subscribe((status) => {
-        console.log(`🔌 Presence subscription status: ${status}`);
-        
-        if (status === 'SUBSCRIBED') {
-          setConnectionStatus('connected');
-        } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
-          setConnectionStatus('disconnected');
-          setTimeout(setupPresenceSubscription, 2000);
-        }
+  const updatePresence = useCallback((isOnline: boolean = true) => {
+    if (!roomId || !userId || !userName) return;
+
+    if (isOnline) {
+      trackPresence(LOBBY_TOPIC, {
+        user_id: userId,
+        user_name: userName,
+        online_at: onlineAtRef.current,
+        room_id: roomId,
+        status
+      });
+      trackPresence(roomTopic(roomId), {
+        user_id: userId,
+        user_name: userName,
+        online_at: onlineAtRef.current,
+        status,
+        status_text: customStatus?.status_text ?? null,
+        status_emoji: customStatus?.status_emoji ?? null,
+        status_expires_at: customStatus?.status_expires_at ?? null
       });
-  }, [roomId, userName, loadOnlineUsers]);
+    } else {
+      untrackPresence(LOBBY_TOPIC);
+      untrackPresence(roomTopic(roomId));
+    }
+  }, [roomId, userId, userName, status, customStatus]);
 
+  // Load the status chosen in an earlier session
   useEffect(() => {
-    if (!roomId || !userName) return;
+    if (!userId) return;
 
-    console.log(`🚀 Initializing presence for room: ${roomId}, user: ${userName}`);
-    
-    updatePresence(true);
-    loadOnlineUsers();
-    setupPresenceSubscription();
-
-    // Set up heartbeat every 15 seconds
-    heartbeatRef.current = setInterval(() => {
-      updatePresence(true);
-    }, 15000);
-
-    // Refresh online users every 20 seconds
-    refreshRef.current = setInterval(() => {
-      loadOnlineUsers();
-    }, 20000);
-
-    // Clean up old presence data every 30 seconds
-    cleanupRef.current = setInterval(async () => {
-      try {
-        const cutoff = new Date(Date.now() - 120000).toISOString(); // 2 minutes ago
-        await supabase
-          .from('user_presence')
-          .update({ is_online: false })
-          .lt('last_seen', cutoff);
-        
-        loadOnlineUsers();
-      } catch (error) {
-        console.error('Error cleaning up presence:', error);
+    let cancelled = false;
+    const loadStatus = async () => {
+      const { data, error } = await supabase
+        .from('user_presence')
+        .select('status_text, status_emoji, status_expires_at, do_not_disturb')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.warn('⚠️ Error loading status:', error);
+        return;
       }
-    }, 30000);
+      if (cancelled || !data) return;
+
+      setDoNotDisturbState(!!data.do_not_disturb);
+      setCustomStatusState(getActiveCustomStatus(data));
+    };
+
+    loadStatus();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Clear the custom status once it expires
+  useEffect(() => {
+    if (!customStatus?.status_expires_at) return;
+
+    const remaining = new Date(customStatus.status_expires_at).getTime() - Date.now();
+    const timeout = setTimeout(() => setCustomStatusState(null), Math.max(0, remaining));
+    return () => clearTimeout(timeout);
+  }, [customStatus]);
+
+  // Idle detection and tab visibility
+  useEffect(() => {
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+      setIsIdle(false);
+    };
+
+    const checkIdle = setInterval(() => {
+      setIsIdle(Date.now() - lastActivityRef.current >= IDLE_TIMEOUT);
+    }, IDLE_CHECK_INTERVAL);
 
-    // Handle page visibility
     const handleVisibilityChange = () => {
-      if (document.hidden) {
-        updatePresence(false);
-      } else {
-        updatePresence(true);
-        loadOnlineUsers();
+      setIsHidden(document.hidden);
+      if (!document.hidden) {
+        handleActivity();
       }
     };
 
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(checkIdle);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    console.log(`🚀 Initializing presence for room: ${roomId}, user: ${userName}`);
+    setOnlineUsers([]);
+    onlineAtRef.current = new Date().toISOString();
+    hasOtherSessionsRef.current = false;
+
+    const unsubscribe = subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        presence((states) => {
+          const users = toOnlineUsers(states as PresenceState[], roomId);
+          setOnlineUsers(users);
+          hasOtherSessionsRef.current = states.some(state =>
+            state.user_id === userId && state.session_id !== SESSION_ID
+          );
+          console.log(`👥 ${users.length} users online in room ${roomId}`);
+        })
+      ],
+      onStatus: (status) => {
+        console.log(`🔌 Presence subscription status: ${status}`);
+        setConnectionStatus(status);
+      }
+    });
+    // Only kept open to track presence on
+    const unsubscribeLobby = subscribeToTopic(LOBBY_TOPIC, { bindings: [] });
+
     // Handle page unload
     const handleBeforeUnload = () => {
-      updatePresence(false);
+      saveLastSeen();
     };
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
     window.addEventListener('beforeunload', handleBeforeUnload);
 
     return () => {
       console.log('🧹 Cleaning up presence');
-      
-      if (heartbeatRef.current) {
-        clearInterval(heartbeatRef.current);
-      }
-      
-      if (cleanupRef.current) {
-        clearInterval(cleanupRef.current);
-      }
-      
-      if (refreshRef.current) {
-        clearInterval(refreshRef.current);
-      }
-      
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-      }
-      
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
+
+      untrackPresence(LOBBY_TOPIC);
+      untrackPresence(roomTopic(roomId));
+      unsubscribe();
+      unsubscribeLobby();
+
       window.removeEventListener('beforeunload', handleBeforeUnload);
-      updatePresence(false);
+      saveLastSeen();
     };
-  }, [roomId, userName, updatePresence, loadOnlineUsers, setupPresenceSubscription]);
+  }, [roomId, userId, userName, saveLastSeen]);
+
+  // Re-announce whenever the status or custom status changes
+  useEffect(() => {
+    updatePresence(true);
+  }, [updatePresence]);
 
-  return { onlineUsers, connectionStatus, updatePresence };
-}
\ No newline at end of file
+  return {
+    onlineUsers,
+    connectionStatus,
+    status,
+    doNotDisturb,
+    customStatus,
+    updatePresence,
+    setDoNotDisturb,
+    setCustomStatus
+  };
+}
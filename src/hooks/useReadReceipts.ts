@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, Message, RoomReadState } from '../lib/supabase';
+import { subscribeToTopic, roomTopic, postgresChanges } from '../lib/realtime';
+
+// Read positions are written at most this often while scrolling through new messages
+const MARK_READ_DELAY = 1000;
+
+interface UnreadAtEntry {
+  // Read position when the room was opened, null for a first visit
+  lastReadAt: string | null;
+  firstUnreadId: string | null;
+  count: number;
+}
+
+const toTime = (timestamp: string) => new Date(timestamp).getTime();
+
+export function useReadReceipts(roomId: string, userId: string, userName: string) {
+  const [readStates, setReadStates] = useState<RoomReadState[]>([]);
+  const [unreadAtEntry, setUnreadAtEntry] = useState<UnreadAtEntry | null>(null);
+  const markTimeoutRef = useRef<NodeJS.Timeout>();
+  const pendingReadRef = useRef<Message | null>(null);
+  const lastReadAtRef = useRef<string | null>(null);
+
+  const upsertReadState = useCallback((state: RoomReadState) => {
+    setReadStates(prev => [
+      ...prev.filter(s => s.user_id !== state.user_id),
+      state
+    ]);
+  }, []);
+
+  // Captures what was unread when the room was opened, for the "New messages" divider
+  const loadUnreadAtEntry = useCallback(async (lastReadAt: string | null) => {
+    if (!lastReadAt) {
+      setUnreadAtEntry({ lastReadAt: null, firstUnreadId: null, count: 0 });
+      return;
+    }
+
+    const { data, count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact' })
+      .eq('room_id', roomId)
+      .gt('created_at', lastReadAt)
+      .or(`user_id.is.null,user_id.neq.${userId}`)
+      .neq('message_type', 'system')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      console.error('❌ Error loading unread messages:', error);
+      return;
+    }
+
+    setUnreadAtEntry({
+      lastReadAt,
+      firstUnreadId: data?.[0]?.id || null,
+      count: count || 0
+    });
+  }, [roomId, userId]);
+
+  const loadReadStates = useCallback(async () => {
+    if (!roomId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('room_read_states')
+        .select('*')
+        .eq('room_id', roomId);
+
+      if (error) {
+        console.error('❌ Error loading read states:', error);
+        throw error;
+      }
+
+      setReadStates(data || []);
+      console.log(`✅ Loaded ${data?.length || 0} read states`);
+      return (data || []).find(state => state.user_id === userId) as RoomReadState | undefined;
+    } catch (err) {
+      console.error('❌ Failed to load read states:', err);
+    }
+  }, [roomId, userId]);
+
+  const subscribeToReadStates = useCallback(() => {
+    if (!roomId) return;
+
+    console.log(`🔄 Setting up read states subscription for room: ${roomId}`);
+
+    return subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        postgresChanges(
+          {
+            event: '*',
+            schema: 'public',
+            table: 'room_read_states',
+            filter: `room_id=eq.${roomId}`,
+          },
+          (payload) => {
+            if (payload.eventType === 'DELETE') return;
+            upsertReadState(payload.new as unknown as RoomReadState);
+          }
+        )
+      ],
+      onStatus: (status) => {
+        console.log(`🔌 Read states subscription status: ${status}`);
+      }
+    });
+  }, [roomId, upsertReadState]);
+
+  const flushReadPosition = useCallback(async () => {
+    const message = pendingReadRef.current;
+    pendingReadRef.current = null;
+    if (!message || !roomId || !userId) return;
+
+    try {
+      const { error } = await supabase
+        .from('room_read_states')
+        .upsert({ room_id: roomId, last_read_message_id: message.id });
+
+      if (error) {
+        console.error('❌ Error saving read position:', error);
+        throw error;
+      }
+    } catch (err) {
+      console.error('❌ Failed to save read position:', err);
+    }
+  }, [roomId, userId]);
+
+  const markAsRead = useCallback((message: Message) => {
+    if (!userId || message.id.startsWith('temp-')) return;
+
+    const current = lastReadAtRef.current;
+    if (current && toTime(message.created_at) <= toTime(current)) return;
+
+    lastReadAtRef.current = message.created_at;
+    pendingReadRef.current = message;
+    upsertReadState({
+      room_id: roomId,
+      user_id: userId,
+      user_name: userName,
+      last_read_message_id: message.id,
+      last_read_at: message.created_at,
+      updated_at: new Date().toISOString()
+    });
+
+    if (!markTimeoutRef.current) {
+      markTimeoutRef.current = setTimeout(() => {
+        markTimeoutRef.current = undefined;
+        flushReadPosition();
+      }, MARK_READ_DELAY);
+    }
+  }, [roomId, userId, userName, upsertReadState, flushReadPosition]);
+
+  // Users other than the author whose read position has reached the message
+  const getSeenBy = useCallback((message: Message) => {
+    const createdAt = toTime(message.created_at);
+    return readStates
+      .filter(state => state.user_id !== message.user_id && toTime(state.last_read_at) >= createdAt)
+      .map(state => state.user_name);
+  }, [readStates]);
+
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    setReadStates([]);
+    setUnreadAtEntry(null);
+    lastReadAtRef.current = null;
+
+    const initialize = async () => {
+      const ownState = await loadReadStates();
+      lastReadAtRef.current = ownState?.last_read_at || null;
+      await loadUnreadAtEntry(ownState?.last_read_at || null);
+    };
+
+    initialize();
+    const unsubscribe = subscribeToReadStates();
+
+    return () => {
+      console.log('🧹 Cleaning up read states subscription');
+      unsubscribe?.();
+
+      // Save the latest position before leaving
+      if (markTimeoutRef.current) {
+        clearTimeout(markTimeoutRef.current);
+        markTimeoutRef.current = undefined;
+      }
+      flushReadPosition();
+    };
+  }, [roomId, userId, loadReadStates, loadUnreadAtEntry, subscribeToReadStates, flushReadPosition]);
+
+  return {
+    unreadAtEntry,
+    markAsRead,
+    getSeenBy
+  };
+}
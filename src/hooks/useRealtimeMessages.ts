@@ -1,18 +1,184 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase, Message } from '../lib/supabase';
+import { supabase, Message, MessageEdit, MessageAttachment } from '../lib/supabase';
+import { subscribeToTopic, roomTopic, postgresChanges } from '../lib/realtime';
+import { OutboxEntry, saveOutboxEntry, removeOutboxEntry, getOutboxEntries, generateClientId } from '../lib/outbox';
 
-export function useRealtimeMessages(roomId: string) {
+const PAGE_SIZE = 50;
+// Edits are timestamped by the database, whose clock may be ahead of ours
+const CLOCK_SKEW_MARGIN = 60000;
+
+interface SendMessageOptions {
+  replyToId?: string | null;
+  attachments?: MessageAttachment[];
+}
+
+const compareMessages = (a: Message, b: Message) => {
+  const diff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return diff !== 0 ? diff : a.id.localeCompare(b.id);
+};
+
+// Optimistic messages carry the client_id that their stored row will have
+const isTempCopyOf = (temp: Message, message: Message) =>
+  temp.id.startsWith('temp-') && !!temp.client_id && temp.client_id === message.client_id;
+
+const toTempMessage = (entry: OutboxEntry): Message => ({
+  id: `temp-${entry.client_id}`,
+  client_id: entry.client_id,
+  room_id: entry.room_id,
+  user_id: entry.user_id,
+  user_name: entry.user_name,
+  content: entry.content,
+  created_at: entry.created_at,
+  message_type: entry.message_type,
+  reply_to_id: entry.reply_to_id,
+  attachments: entry.attachments,
+  send_status: entry.status
+});
+
+const toOutboxEntry = (message: Message, userId: string): OutboxEntry => ({
+  client_id: message.client_id || message.id.replace(/^temp-/, ''),
+  room_id: message.room_id,
+  user_id: userId,
+  user_name: message.user_name,
+  content: message.content,
+  message_type: message.message_type === 'attachment' ? 'attachment' : 'text',
+  reply_to_id: message.reply_to_id || null,
+  attachments: message.attachments || null,
+  created_at: message.created_at,
+  status: 'pending'
+});
+
+// Requests that failed without a Postgres error code never reached the database
+const isNetworkError = (err: unknown) => !navigator.onLine || !(err as { code?: string } | null)?.code;
+
+// Index at which a message belongs in a list ordered by creation time.
+// New messages almost always go at the end, so check that before searching.
+const findInsertIndex = (list: Message[], message: Message) => {
+  if (list.length === 0 || compareMessages(list[list.length - 1], message) <= 0) {
+    return list.length;
+  }
+
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compareMessages(list[mid], message) <= 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+// Adds an incoming message to a list, replacing the optimistic temp copy
+// it was sent as and keeping the list ordered by creation time.
+function addMessage(prev: Message[], newMessage: Message): Message[] {
+  if (prev.some(msg => msg.id === newMessage.id)) {
+    return prev;
+  }
+
+  const temp = prev.find(msg => isTempCopyOf(msg, newMessage));
+  const next = temp ? prev.filter(msg => msg !== temp) : [...prev];
+
+  next.splice(findInsertIndex(next, newMessage), 0, newMessage);
+  return next;
+}
+
+// Swaps an optimistic temp message for the stored row, keeping its render key
+function confirmMessage(prev: Message[], tempId: string, stored: Message): Message[] {
+  const temp = prev.find(msg => msg.id === tempId);
+  if (!temp) return prev;
+
+  if (prev.some(msg => msg.id === stored.id)) {
+    return prev.filter(msg => msg.id !== tempId);
+  }
+
+  return prev.map(msg => msg.id === tempId ? stored : msg);
+}
+
+// Merges a page of fetched messages into the list, deduping by id and
+// dropping temp copies that the page already contains
+function mergeMessages(prev: Message[], incoming: Message[]): Message[] {
+  if (incoming.length === 0) return prev;
+
+  const temps = prev.filter(msg => msg.id.startsWith('temp-'));
+  const byId = new Map(prev.map(msg => [msg.id, msg]));
+  incoming.forEach(msg => {
+    const temp = temps.find(tempMsg => isTempCopyOf(tempMsg, msg));
+    if (temp) {
+      byId.delete(temp.id);
+    }
+    byId.set(msg.id, { ...byId.get(msg.id), ...msg });
+  });
+
+  return Array.from(byId.values()).sort(compareMessages);
+}
+
+// Swaps a changed message in place, leaving lists that don't hold it untouched
+function replaceMessage(prev: Message[], updated: Message): Message[] {
+  return prev.some(msg => msg.id === updated.id)
+    ? prev.map(msg => msg.id === updated.id ? { ...msg, ...updated } : msg)
+    : prev;
+}
+
+// PostgREST filters for keyset pagination on (created_at, id), so messages
+// sharing a timestamp are neither skipped nor repeated
+const olderThan = (msg: Message) =>
+  `created_at.lt."${msg.created_at}",and(created_at.eq."${msg.created_at}",id.lt.${msg.id})`;
+const newerThan = (msg: Message) =>
+  `created_at.gt."${msg.created_at}",and(created_at.eq."${msg.created_at}",id.gt.${msg.id})`;
+
+const showErrorToast = (text: string) => {
+  const toast = document.createElement('div');
+  toast.className = 'fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 animate-in slide-in-from-top-2';
+  toast.textContent = text;
+  document.body.appendChild(toast);
+  setTimeout(() => {
+    if (document.body.contains(toast)) {
+      document.body.removeChild(toast);
+    }
+  }, 4000);
+};
+
+export function useRealtimeMessages(roomId: string, userId: string) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'connecting' | 'disconnected'>('connecting');
-  const channelRef = useRef<any>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const refreshIntervalRef = useRef<NodeJS.Timeout>();
   const isInitializedRef = useRef(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const hasNewerRef = useRef(false);
+  const loadingNewerRef = useRef(false);
+  const messagesRef = useRef<Message[]>([]);
+  const loadingOlderRef = useRef(false);
+  const connectionStatusRef = useRef(connectionStatus);
+  // When live changes stopped arriving, until the subscription is back
+  const disconnectedAtRef = useRef<string | null>(null);
+  const [referencedMessages, setReferencedMessages] = useState<Record<string, Message>>({});
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadReplies, setThreadReplies] = useState<Message[]>([]);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const activeThreadIdRef = useRef<string | null>(null);
+  const requestedReferenceIdsRef = useRef<Set<string>>(new Set());
 
-  const loadMessages = useCallback(async () => {
-    if (!roomId) return;
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    connectionStatusRef.current = connectionStatus;
+  }, [connectionStatus]);
+
+  // Loads the most recent page; older pages are fetched on demand. While an
+  // earlier part of the history is shown, refreshes leave it in place unless
+  // `replace` asks to return to the latest messages.
+  const loadMessages = useCallback(async (replace = false) => {
+    if (!roomId || (hasNewerRef.current && !replace)) return;
     
     try {
       setError(null);
@@ -22,17 +188,30 @@ export function useRealtimeMessages(roomId: string) {
         .from('messages')
         .select('*')
         .eq('room_id', roomId)
-        .order('created_at', { ascending: true })
-        .limit(500);
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE);
 
       if (error) {
         console.error('❌ Error loading messages:', error);
         throw error;
       }
+
+      const page = (data || []).reverse();
+      const hadHistory = messagesRef.current.some(msg => !msg.id.startsWith('temp-'));
       
-      setMessages(data || []);
+      if (replace) {
+        setMessages(prev => mergeMessages(prev.filter(msg => msg.id.startsWith('temp-')), page));
+        hasNewerRef.current = false;
+        setHasNewer(false);
+      } else {
+        setMessages(prev => mergeMessages(prev, page));
+      }
+      if (!hadHistory || replace) {
+        setHasMore(page.length === PAGE_SIZE);
+      }
       setConnectionStatus('connected');
-      console.log(`✅ Loaded ${data?.length || 0} messages`);
+      console.log(`✅ Loaded ${page.length} messages`);
     } catch (err) {
       console.error('❌ Failed to load messages:', err);
       setError('Failed to load messages');
@@ -42,150 +221,679 @@ export function useRealtimeMessages(roomId: string) {
     }
   }, [roomId]);
 
-  const setupRealtimeSubscription = useCallback(() => {
+  const loadOlderMessages = useCallback(async () => {
+    if (!roomId || loadingOlderRef.current) return;
+
+    const oldest = messagesRef.current.find(msg => !msg.id.startsWith('temp-'));
+    if (!oldest) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+
+    try {
+      console.log(`📜 Loading messages before ${oldest.created_at}`);
+
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('room_id', roomId)
+        .or(olderThan(oldest))
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) {
+        console.error('❌ Error loading older messages:', error);
+        throw error;
+      }
+
+      const page = (data || []).reverse();
+      setMessages(prev => mergeMessages(prev, page));
+      setHasMore(page.length === PAGE_SIZE);
+      console.log(`✅ Loaded ${page.length} older messages`);
+    } catch (err) {
+      console.error('❌ Failed to load older messages:', err);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [roomId]);
+
+  const loadNewerMessages = useCallback(async () => {
+    if (!roomId || !hasNewerRef.current || loadingNewerRef.current) return;
+
+    const stored = messagesRef.current.filter(msg => !msg.id.startsWith('temp-'));
+    const newest = stored[stored.length - 1];
+    if (!newest) return;
+
+    loadingNewerRef.current = true;
+    setLoadingNewer(true);
+
+    try {
+      console.log(`📜 Loading messages after ${newest.created_at}`);
+
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('room_id', roomId)
+        .or(newerThan(newest))
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(PAGE_SIZE);
+
+      if (error) {
+        console.error('❌ Error loading newer messages:', error);
+        throw error;
+      }
+
+      const page = data || [];
+      setMessages(prev => mergeMessages(prev, page));
+
+      // A short page means the timeline has caught up with the live messages
+      hasNewerRef.current = page.length === PAGE_SIZE;
+      setHasNewer(hasNewerRef.current);
+      console.log(`✅ Loaded ${page.length} newer messages`);
+    } catch (err) {
+      console.error('❌ Failed to load newer messages:', err);
+    } finally {
+      loadingNewerRef.current = false;
+      setLoadingNewer(false);
+    }
+  }, [roomId]);
+
+  // Replaces the timeline with the messages surrounding `messageId`, e.g. a
+  // search result outside the loaded history
+  const loadMessagesAround = useCallback(async (messageId: string) => {
+    if (!roomId) return false;
+
+    try {
+      console.log(`🎯 Loading messages around: ${messageId}`);
+
+      const { data: target, error: targetError } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('room_id', roomId)
+        .eq('id', messageId)
+        .single();
+
+      if (targetError) {
+        console.error('❌ Error loading message:', targetError);
+        throw targetError;
+      }
+
+      const contextSize = PAGE_SIZE / 2;
+      const [before, after] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('room_id', roomId)
+          .or(olderThan(target))
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(contextSize),
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('room_id', roomId)
+          .or(newerThan(target))
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(contextSize)
+      ]);
+
+      if (before.error || after.error) {
+        console.error('❌ Error loading message context:', before.error || after.error);
+        throw before.error || after.error;
+      }
+
+      const olderPage = (before.data || []).reverse();
+      const newerPage = after.data || [];
+
+      setMessages([...olderPage, target, ...newerPage]);
+      setHasMore(olderPage.length === contextSize);
+      hasNewerRef.current = newerPage.length === contextSize;
+      setHasNewer(hasNewerRef.current);
+      console.log(`✅ Loaded ${olderPage.length + newerPage.length + 1} messages around ${messageId}`);
+      return true;
+    } catch (err) {
+      console.error('❌ Failed to load message context:', err);
+      showErrorToast('Could not load that message');
+      return false;
+    }
+  }, [roomId]);
+
+  const jumpToLatest = useCallback(() => loadMessages(true), [loadMessages]);
+
+  // Applies edits and deletions made since `since` to the messages held, as
+  // their update events were missed while the subscription was down
+  const applyMissedChanges = useCallback(async (since: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('room_id', roomId)
+        .or(`edited_at.gte."${since}",deleted_at.gte."${since}"`);
+
+      if (error) {
+        console.error('❌ Error loading missed changes:', error);
+        throw error;
+      }
+
+      const changed: Message[] = data || [];
+      if (changed.length === 0) return;
+
+      setMessages(prev => changed.reduce(replaceMessage, prev));
+      setThreadReplies(prev => changed.reduce(replaceMessage, prev));
+      setReferencedMessages(prev => {
+        const held = changed.filter(msg => prev[msg.id]);
+        return held.length > 0
+          ? { ...prev, ...Object.fromEntries(held.map(msg => [msg.id, msg])) }
+          : prev;
+      });
+      console.log(`✅ Applied ${changed.length} missed changes`);
+    } catch (err) {
+      console.error('❌ Failed to apply missed changes:', err);
+    }
+  }, [roomId]);
+
+  // Fetches everything inserted after the newest message held, and the
+  // changes to messages already held since `since`, e.g. while the
+  // subscription was down, so the live timeline has no gaps
+  const resyncMessages = useCallback(async (since: string | null) => {
     if (!roomId) return;
 
-    // Clean up existing subscription
-    if (channelRef.current) {
-      console.log('🧹 Cleaning up existing subscription');
-      supabase.removeChannel(channelRef.current);
-      channelRef.current = null;
-    }
-
-    const channelName = `messages_${roomId}_${Date.now()}`;
-    console.log(`🔄 Setting up real-time subscription: ${channelName}`);
-
-    channelRef.current = supabase
-      .channel(channelName)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `room_id=eq.${roomId}`,
-        },
-        (payload) => {
-          console.log('📨 New message received:', payload);
-          const newMessage = payload.new as Message;
-          
-          setMessages(prev => {
-            // Check if message already exists
-            if (prev.some(msg => msg.id === newMessage.id)) {
-              console.log('⚠️ Message already exists, skipping');
-              return prev;
-            }
-            
-            // Remove any temporary message with same content and user
-            const filtered = prev.filter(msg => 
-              !(msg.id.startsWith('temp-') && 
-                msg.content === newMessage.content && 
-                msg.user_name === newMessage.user_name &&
-                Math.abs(new Date(msg.created_at).getTime() - new Date(newMessage.created_at).getTime()) < 10000)
-            );
+    if (since) {
+      await applyMissedChanges(since);
+    }
+    if (hasNewerRef.current) return;
+
+    const stored = messagesRef.current.filter(msg => !msg.id.startsWith('temp-'));
+    let newest = stored[stored.length - 1];
+    if (!newest) {
+      await loadMessages();
+      return;
+    }
+
+    try {
+      console.log(`🔁 Resyncing messages after ${newest.created_at}`);
+      let total = 0;
+
+      for (;;) {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('room_id', roomId)
+          .or(newerThan(newest))
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(PAGE_SIZE);
+
+        if (error) {
+          console.error('❌ Error resyncing messages:', error);
+          throw error;
+        }
+
+        const page: Message[] = data || [];
+        total += page.length;
+        if (page.length > 0) {
+          setMessages(prev => mergeMessages(prev, page));
+          setThreadReplies(prev => page
+            .filter(msg => msg.reply_to_id && msg.reply_to_id === activeThreadIdRef.current)
+            .reduce(addMessage, prev));
+        }
+
+        if (page.length < PAGE_SIZE) break;
+        newest = page[page.length - 1];
+      }
+
+      console.log(`✅ Resynced ${total} missed messages`);
+    } catch (err) {
+      console.error('❌ Failed to resync messages:', err);
+    }
+  }, [roomId, loadMessages, applyMissedChanges]);
+
+  const updateMessageLocally = useCallback((messageId: string, changes: Partial<Message>) => {
+    const apply = (prev: Message[]) => prev.map(msg => 
+      msg.id === messageId ? { ...msg, ...changes } : msg
+    );
+    setMessages(apply);
+    setThreadReplies(apply);
+  }, []);
+
+  // Inserts a queued message. Returns false when the network is down so the
+  // caller can stop and keep the remaining messages in order.
+  const deliverEntry = useCallback(async (entry: OutboxEntry) => {
+    const tempId = `temp-${entry.client_id}`;
+
+    try {
+      let { data, error } = await supabase
+        .from('messages')
+        .insert([{
+          client_id: entry.client_id,
+          room_id: entry.room_id,
+          user_name: entry.user_name,
+          content: entry.content,
+          message_type: entry.message_type,
+          reply_to_id: entry.reply_to_id,
+          attachments: entry.attachments
+        }])
+        .select()
+        .single();
+
+      // Stored by an earlier attempt whose response never arrived
+      if (error?.code === '23505') {
+        console.log('⚠️ Message was already delivered, fetching it');
+        ({ data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('client_id', entry.client_id)
+          .single());
+      }
+
+      if (error) {
+        console.error('❌ Error sending message:', error);
+        throw error;
+      }
+
+      console.log(`✅ Message sent successfully`);
+      await removeOutboxEntry(entry.client_id);
+
+      // Replace temp message with real one
+      setMessages(prev => confirmMessage(prev, tempId, data));
+      setThreadReplies(prev => confirmMessage(prev, tempId, data));
+      return true;
+    } catch (err) {
+      if (isNetworkError(err)) {
+        console.log('📭 Offline, message stays queued');
+        return false;
+      }
+
+      console.error('❌ Failed to send message:', err);
+
+      // Rejected by the server, so it waits for the user to retry or discard it
+      const reason = (err as { message?: string })?.message;
+      await saveOutboxEntry({ ...entry, status: 'failed', error: reason }).catch(saveError => {
+        console.error('❌ Failed to update outbox:', saveError);
+      });
+      updateMessageLocally(tempId, { send_status: 'failed' });
+
+      // Show error notification, attachment limits are explained by the server
+      showErrorToast(entry.attachments && reason && /attachment/i.test(reason)
+        ? reason
+        : 'Failed to send message. Please try again.');
+      return true;
+    }
+  }, [updateMessageLocally]);
+
+  const flushingRef = useRef(false);
+  const flushRequestedRef = useRef(false);
+
+  // Sends queued messages one at a time in the order they were written
+  const flushOutbox = useCallback(async () => {
+    if (!roomId || !userId || !navigator.onLine) return;
+
+    // A flush in progress picks up messages queued while it runs
+    if (flushingRef.current) {
+      flushRequestedRef.current = true;
+      return;
+    }
+
+    flushingRef.current = true;
+    try {
+      do {
+        flushRequestedRef.current = false;
+        const entries = await getOutboxEntries(roomId, userId);
+
+        for (const entry of entries) {
+          if (entry.status !== 'pending') continue;
+          if (!await deliverEntry(entry)) return;
+        }
+      } while (flushRequestedRef.current);
+    } catch (err) {
+      console.error('❌ Failed to send queued messages:', err);
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [roomId, userId, deliverEntry]);
+
+  // Shows messages that were queued in an earlier session
+  const restoreOutbox = useCallback(async () => {
+    if (!roomId || !userId) return;
+
+    try {
+      const entries = await getOutboxEntries(roomId, userId);
+      if (entries.length === 0) return;
+
+      console.log(`📬 Restoring ${entries.length} unsent messages`);
+      setMessages(prev => entries.reduce(
+        (list, entry) => list.some(msg => msg.client_id === entry.client_id)
+          ? list
+          : addMessage(list, toTempMessage(entry)),
+        prev
+      ));
+    } catch (err) {
+      console.error('❌ Failed to restore unsent messages:', err);
+    }
+  }, [roomId, userId]);
+
+  const enqueueMessage = useCallback(async (entry: OutboxEntry) => {
+    try {
+      await saveOutboxEntry(entry);
+    } catch (err) {
+      // Without storage (e.g. private browsing) the message is sent once,
+      // and left for a manual retry if that fails
+      console.error('❌ Outbox unavailable, sending directly:', err);
+      if (!await deliverEntry(entry)) {
+        updateMessageLocally(`temp-${entry.client_id}`, { send_status: 'failed' });
+      }
+      return;
+    }
+
+    flushOutbox();
+  }, [deliverEntry, flushOutbox, updateMessageLocally]);
+
+  // Live changes arrive on the room's shared channel; returns the unsubscribe
+  const subscribeToMessages = useCallback(() => {
+    if (!roomId) return;
+
+    console.log(`🔄 Setting up real-time subscription for room: ${roomId}`);
+
+    return subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        postgresChanges(
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'messages',
+            filter: `room_id=eq.${roomId}`,
+          },
+          (payload) => {
+            console.log('📨 New message received:', payload);
+            const newMessage = payload.new as Message;
             
-            const updated = [...filtered, newMessage].sort((a, b) => 
-              new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+            // The gap up to the live end is filled by loadNewerMessages
+            // while an earlier part of the history is shown
+            setMessages(prev => {
+              if (hasNewerRef.current) {
+                return prev;
+              }
+
+              if (prev.some(msg => msg.id === newMessage.id)) {
+                console.log('⚠️ Message already exists, skipping');
+                return prev;
+              }
+              
+              const updated = addMessage(prev, newMessage);
+              console.log(`📊 Messages updated: ${updated.length} total`);
+              return updated;
+            });
+
+            if (newMessage.reply_to_id && newMessage.reply_to_id === activeThreadIdRef.current) {
+              setThreadReplies(prev => addMessage(prev, newMessage));
+            }
+          }
+        ),
+        postgresChanges(
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'messages',
+            filter: `room_id=eq.${roomId}`,
+          },
+          (payload) => {
+            console.log('✏️ Message updated:', payload);
+            const updatedMessage = payload.new as Message;
+
+            setMessages(prev => replaceMessage(prev, updatedMessage));
+            setThreadReplies(prev => replaceMessage(prev, updatedMessage));
+            setReferencedMessages(prev => prev[updatedMessage.id]
+              ? { ...prev, [updatedMessage.id]: updatedMessage }
+              : prev
             );
-            
-            console.log(`📊 Messages updated: ${updated.length} total`);
-            return updated;
-          });
-          
-          setConnectionStatus('connected');
-        }
-      )
-      .subscribe((status) => {
+          }
+        ),
+        postgresChanges(
+          {
+            // Delete events can't be filtered server-side
+            event: 'DELETE',
+            schema: 'public',
+            table: 'messages',
+          },
+          (payload) => {
+            const deletedId = (payload.old as Partial<Message>).id;
+            if (!deletedId) return;
+
+            setMessages(prev => prev.filter(msg => msg.id !== deletedId));
+            setThreadReplies(prev => prev.filter(msg => msg.id !== deletedId));
+          }
+        )
+      ],
+      onStatus: (status) => {
         console.log(`🔌 Messages subscription status: ${status}`);
-        
-        if (status === 'SUBSCRIBED') {
-          setConnectionStatus('connected');
+        setConnectionStatus(status);
+
+        if (status !== 'connected') {
+          disconnectedAtRef.current ??= new Date(Date.now() - CLOCK_SKEW_MARGIN).toISOString();
+        } else {
           setError(null);
           console.log('✅ Real-time subscription active');
-        } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
-          setConnectionStatus('disconnected');
-          console.log('❌ Subscription failed, will reconnect...');
-          
-          // Reconnect after delay
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-          }
-          reconnectTimeoutRef.current = setTimeout(() => {
-            console.log('🔄 Reconnecting messages subscription...');
-            setupRealtimeSubscription();
-          }, 3000);
-        } else if (status === 'CONNECTING') {
-          setConnectionStatus('connecting');
-        }
-      });
 
-  }, [roomId]);
+          // Catch up on anything inserted or changed before this subscription went live
+          const since = disconnectedAtRef.current;
+          disconnectedAtRef.current = null;
+          resyncMessages(since);
+          flushOutbox();
+        }
+      }
+    });
+  }, [roomId, resyncMessages, flushOutbox]);
 
-  const sendMessage = useCallback(async (content: string, userName: string) => {
-    if (!content.trim() || !userName || !roomId) {
+  const sendMessage = useCallback(async (content: string, userName: string, options: SendMessageOptions = {}) => {
+    const attachments = options.attachments?.length ? options.attachments : null;
+    if ((!content.trim() && !attachments) || !userName || !userId || !roomId) {
       console.log('⚠️ Invalid message data');
       return;
     }
 
-    const tempId = `temp-${Date.now()}-${Math.random()}`;
-    const now = new Date().toISOString();
-    
-    // Optimistic update - add message immediately
-    const tempMessage: Message = {
-      id: tempId,
+    const entry: OutboxEntry = {
+      client_id: generateClientId(),
       room_id: roomId,
+      user_id: userId,
       user_name: userName,
       content: content.trim(),
-      created_at: now,
-      message_type: 'text'
+      message_type: attachments ? 'attachment' : 'text',
+      reply_to_id: options.replyToId || null,
+      attachments,
+      created_at: new Date().toISOString(),
+      status: 'pending'
     };
 
+    // Optimistic update - add message immediately
+    const tempMessage = toTempMessage(entry);
+
     console.log(`📤 Sending message: "${content.substring(0, 50)}..."`);
-    setMessages(prev => [...prev, tempMessage]);
+    if (!hasNewerRef.current) {
+      setMessages(prev => [...prev, tempMessage]);
+    }
+    if (entry.reply_to_id && entry.reply_to_id === activeThreadIdRef.current) {
+      setThreadReplies(prev => [...prev, tempMessage]);
+    }
+
+    await enqueueMessage(entry);
+  }, [roomId, userId, enqueueMessage]);
+
+  const retryMessage = useCallback(async (message: Message) => {
+    if (message.send_status !== 'failed') return;
+
+    console.log(`🔁 Retrying message: ${message.id}`);
+    updateMessageLocally(message.id, { send_status: 'pending' });
+    await enqueueMessage(toOutboxEntry(message, userId));
+  }, [userId, enqueueMessage, updateMessageLocally]);
+
+  const discardMessage = useCallback(async (message: Message) => {
+    if (!message.send_status) return;
+
+    console.log(`🗑️ Discarding unsent message: ${message.id}`);
+    setMessages(prev => prev.filter(msg => msg.id !== message.id));
+    setThreadReplies(prev => prev.filter(msg => msg.id !== message.id));
+
+    try {
+      await removeOutboxEntry(toOutboxEntry(message, userId).client_id);
+    } catch (err) {
+      console.error('❌ Failed to remove unsent message:', err);
+    }
+  }, [userId]);
+
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const original = messages.find(msg => msg.id === messageId)
+      || threadReplies.find(msg => msg.id === messageId);
+    if (!original || !content.trim() || content.trim() === original.content) return;
+
+    console.log(`✏️ Editing message: ${messageId}`);
+    updateMessageLocally(messageId, { content: content.trim(), edited_at: new Date().toISOString() });
 
     try {
       const { data, error } = await supabase
         .from('messages')
-        .insert([{
-          room_id: roomId,
-          user_name: userName,
-          content: content.trim(),
-          message_type: 'text'
-        }])
+        .update({ content: content.trim() })
+        .eq('id', messageId)
         .select()
         .single();
 
       if (error) {
-        console.error('❌ Error sending message:', error);
+        console.error('❌ Error editing message:', error);
         throw error;
       }
 
-      console.log(`✅ Message sent successfully`);
+      updateMessageLocally(messageId, data);
+      console.log('✅ Message edited');
+    } catch (err) {
+      console.error('❌ Failed to edit message:', err);
+      updateMessageLocally(messageId, { content: original.content, edited_at: original.edited_at });
+      showErrorToast((err as { message?: string })?.message?.includes('edit window')
+        ? 'This message can no longer be edited.'
+        : 'Failed to edit message. Please try again.');
+    }
+  }, [messages, threadReplies, updateMessageLocally]);
 
-      // Replace temp message with real one
-      setMessages(prev => prev.map(msg => 
-        msg.id === tempId ? data : msg
-      ));
+  const deleteMessage = useCallback(async (messageId: string) => {
+    const original = messages.find(msg => msg.id === messageId)
+      || threadReplies.find(msg => msg.id === messageId);
+    if (!original || original.deleted_at) return;
+
+    console.log(`🗑️ Deleting message: ${messageId}`);
+    updateMessageLocally(messageId, { content: '', deleted_at: new Date().toISOString() });
 
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Error deleting message:', error);
+        throw error;
+      }
+
+      updateMessageLocally(messageId, data);
+      console.log('✅ Message deleted');
     } catch (err) {
-      console.error('❌ Failed to send message:', err);
-      
-      // Remove failed temp message
-      setMessages(prev => prev.filter(msg => msg.id !== tempId));
-      
-      // Show error notification
-      const toast = document.createElement('div');
-      toast.className = 'fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 animate-in slide-in-from-top-2';
-      toast.textContent = 'Failed to send message. Please try again.';
-      document.body.appendChild(toast);
-      setTimeout(() => {
-        if (document.body.contains(toast)) {
-          document.body.removeChild(toast);
-        }
-      }, 4000);
+      console.error('❌ Failed to delete message:', err);
+      updateMessageLocally(messageId, { content: original.content, deleted_at: null });
+      showErrorToast('Failed to delete message. Please try again.');
+    }
+  }, [messages, threadReplies, updateMessageLocally]);
+
+  const loadEditHistory = useCallback(async (messageId: string): Promise<MessageEdit[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('*')
+        .eq('message_id', messageId)
+        .order('edited_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (err) {
+      console.error('❌ Failed to load edit history:', err);
+      return [];
+    }
+  }, []);
+
+  const openThread = useCallback(async (parentId: string) => {
+    activeThreadIdRef.current = parentId;
+    setActiveThreadId(parentId);
+    setThreadReplies([]);
+    setThreadLoading(true);
+
+    try {
+      console.log(`🧵 Loading thread for message: ${parentId}`);
+
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('room_id', roomId)
+        .eq('reply_to_id', parentId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Ignore the result if another thread was opened in the meantime
+      if (activeThreadIdRef.current !== parentId) return;
+
+      setThreadReplies(prev => (data || []).reduce(addMessage, prev));
+      console.log(`✅ Loaded ${data?.length || 0} thread replies`);
+    } catch (err) {
+      console.error('❌ Failed to load thread:', err);
+    } finally {
+      if (activeThreadIdRef.current === parentId) {
+        setThreadLoading(false);
+      }
     }
   }, [roomId]);
 
+  const closeThread = useCallback(() => {
+    activeThreadIdRef.current = null;
+    setActiveThreadId(null);
+    setThreadReplies([]);
+    setThreadLoading(false);
+  }, []);
+
+  // Fetch parents of replies that fall outside the loaded history so the
+  // quoted preview can still be shown
+  useEffect(() => {
+    const loadedIds = new Set(messages.map(msg => msg.id));
+    const missingIds = Array.from(new Set(
+      messages
+        .map(msg => msg.reply_to_id)
+        .filter((id): id is string => !!id && !loadedIds.has(id) && !requestedReferenceIdsRef.current.has(id))
+    ));
+
+    if (missingIds.length === 0) return;
+    missingIds.forEach(id => requestedReferenceIdsRef.current.add(id));
+
+    supabase
+      .from('messages')
+      .select('*')
+      .in('id', missingIds)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('❌ Error loading referenced messages:', error);
+          return;
+        }
+
+        setReferencedMessages(prev => {
+          const next = { ...prev };
+          (data || []).forEach((msg: Message) => {
+            next[msg.id] = msg;
+          });
+          return next;
+        });
+      });
+  }, [messages]);
+
   useEffect(() => {
     if (!roomId) {
       console.log('⚠️ No roomId provided');
@@ -196,23 +904,40 @@ export function useRealtimeMessages(roomId: string) {
     
     // Reset state
     setMessages([]);
+    messagesRef.current = [];
+    setHasMore(false);
+    hasNewerRef.current = false;
+    setHasNewer(false);
+    setReferencedMessages({});
+    requestedReferenceIdsRef.current = new Set();
+    activeThreadIdRef.current = null;
+    setActiveThreadId(null);
+    setThreadReplies([]);
     setLoading(true);
     setError(null);
     setConnectionStatus('connecting');
+    disconnectedAtRef.current = null;
     isInitializedRef.current = false;
 
     // Initialize
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
     const initialize = async () => {
       await loadMessages();
-      setupRealtimeSubscription();
+      await restoreOutbox();
+      if (cancelled) return;
+      unsubscribe = subscribeToMessages();
       isInitializedRef.current = true;
     };
 
     initialize();
 
+    // Queued messages go out as soon as the browser is back online
+    window.addEventListener('online', flushOutbox);
+
     // Auto-refresh every 30 seconds as backup
     refreshIntervalRef.current = setInterval(() => {
-      if (connectionStatus === 'disconnected') {
+      if (connectionStatusRef.current === 'disconnected') {
         console.log('🔄 Auto-refreshing messages due to disconnection...');
         loadMessages();
       }
@@ -220,23 +945,17 @@ export function useRealtimeMessages(roomId: string) {
 
     return () => {
       console.log('🧹 Cleaning up messages subscription');
-      
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
+      window.removeEventListener('online', flushOutbox);
       
       if (refreshIntervalRef.current) {
         clearInterval(refreshIntervalRef.current);
       }
       
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-        channelRef.current = null;
-      }
-      
+      cancelled = true;
+      unsubscribe?.();
       isInitializedRef.current = false;
     };
-  }, [roomId, loadMessages, setupRealtimeSubscription, connectionStatus]);
+  }, [roomId, loadMessages, restoreOutbox, subscribeToMessages, flushOutbox]);
 
   return { 
     messages, 
@@ -244,6 +963,25 @@ export function useRealtimeMessages(roomId: string) {
     error, 
     connectionStatus,
     sendMessage, 
-    refetch: loadMessages 
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    loadEditHistory,
+    hasMore,
+    loadingOlder,
+    loadOlderMessages,
+    hasNewer,
+    loadingNewer,
+    loadNewerMessages,
+    loadMessagesAround,
+    jumpToLatest,
+    refetch: loadMessages,
+    referencedMessages,
+    activeThreadId,
+    threadReplies,
+    threadLoading,
+    openThread,
+    closeThread
   };
 }
\ No newline at end of file
@@ -1,20 +1,21 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase, RoomParticipant } from '../lib/supabase';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { supabase, RoomParticipant, RoomRole } from '../lib/supabase';
+import { subscribeToTopic, roomTopic, postgresChanges, presence } from '../lib/realtime';
 
 interface EnhancedParticipant extends RoomParticipant {
   is_online: boolean;
   last_seen: string;
 }
 
-export function useRoomParticipants(roomId: string, userName: string) {
-  const [participants, setParticipants] = useState<EnhancedParticipant[]>([]);
+export function useRoomParticipants(roomId: string, userId: string, userName: string) {
+  const [members, setMembers] = useState<RoomParticipant[]>([]);
+  // Persisted last seen per user, for participants who are offline
+  const [lastSeen, setLastSeen] = useState<Record<string, string>>({});
+  // Users present on the room channel, with when they came online
+  const [onlineSince, setOnlineSince] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
-  const channelRef = useRef<any>(null);
-  const presenceChannelRef = useRef<any>(null);
-  const heartbeatRef = useRef<NodeJS.Timeout>();
   const isJoinedRef = useRef(false);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
 
   const loadParticipants = useCallback(async () => {
     if (!roomId) return;
@@ -35,31 +36,22 @@ export function useRoomParticipants(roomId: string, userName: string) {
         throw participantsError;
       }
 
-      // Get presence data
-      const { data: presenceData, error: presenceError } = await supabase
-        .from('user_presence')
-        .select('*');
+      // Get when offline participants were last seen
+      const userIds = (participantsData || []).map(p => p.user_id);
+      const { data: presenceData, error: presenceError } = userIds.length > 0
+        ? await supabase
+            .from('user_presence')
+            .select('user_id, last_seen')
+            .in('user_id', userIds)
+        : { data: [], error: null };
 
       if (presenceError) {
-        console.warn('⚠️ Error loading presence:', presenceError);
+        console.warn('⚠️ Error loading last seen:', presenceError);
       }
 
-      // Combine data
-      const enhancedParticipants = (participantsData || []).map(p => {
-        const userPresence = presenceData?.find(pr => pr.user_name === p.user_name);
-        const isOnline = userPresence?.is_online && 
-          userPresence?.current_room_id === roomId &&
-          (new Date().getTime() - new Date(userPresence.last_seen).getTime()) < 120000; // 2 minutes
-        
-        return {
-          ...p,
-          is_online: isOnline || false,
-          last_seen: userPresence?.last_seen || p.joined_at
-        };
-      });
-
-      setParticipants(enhancedParticipants);
-      console.log(`✅ Loaded ${enhancedParticipants.length} participants`);
+      setMembers(participantsData || []);
+      setLastSeen(Object.fromEntries((presenceData || []).map(row => [row.user_id, row.last_seen])));
+      console.log(`✅ Loaded ${participantsData?.length || 0} participants`);
     } catch (err) {
       console.error('❌ Error loading participants:', err);
       setError(err instanceof Error ? err : new Error('Failed to load participants'));
@@ -68,37 +60,8 @@ export function useRoomParticipants(roomId: string, userName: string) {
     }
   }, [roomId]);
 
-  const updatePresence = useCallback(async (isOnline: boolean = true) => {
-    if (!userName) return;
-
-    try {
-      console.log(`👤 Updating presence for ${userName}: ${isOnline ? 'online' : 'offline'}`);
-      
-      const { error } = await supabase
-        .from('user_presence')
-        .upsert({
-          user_name: userName,
-          is_online: isOnline,
-          last_seen: new Date().toISOString(),
-          current_room_id: isOnline ? roomId : null
-        }, {
-          onConflict: 'user_name'
-        });
-      
-      if (error) {
-        console.error('❌ Error updating presence:', error);
-        throw error;
-      }
-      
-      console.log(`✅ Presence updated for ${userName}`);
-    } catch (err) {
-      console.error('❌ Failed to update presence:', err);
-      setError(err instanceof Error ? err : new Error('Failed to update presence'));
-    }
-  }, [userName, roomId]);
-
   const joinRoom = useCallback(async () => {
-    if (!userName || !roomId || isJoinedRef.current) return;
+    if (!userId || !userName || !roomId || isJoinedRef.current) return;
 
     try {
       console.log(`🚪 ${userName} joining room ${roomId}`);
@@ -108,7 +71,7 @@ export function useRoomParticipants(roomId: string, userName: string) {
         .from('room_participants')
         .select('*')
         .eq('room_id', roomId)
-        .eq('user_name', userName)
+        .eq('user_id', userId)
         .single();
 
       if (!existing) {
@@ -116,8 +79,7 @@ export function useRoomParticipants(roomId: string, userName: string) {
           .from('room_participants')
           .insert({
             room_id: roomId,
-            user_name: userName,
-            is_admin: false
+            user_name: userName
           });
           
         if (error) {
@@ -130,97 +92,99 @@ export function useRoomParticipants(roomId: string, userName: string) {
         console.log(`ℹ️ ${userName} already in room ${roomId}`);
       }
 
-      await updatePresence(true);
       isJoinedRef.current = true;
     } catch (err) {
       console.error('❌ Failed to join room:', err);
       setError(err instanceof Error ? err : new Error('Failed to join room'));
     }
-  }, [roomId, userName, updatePresence]);
+  }, [roomId, userId, userName]);
 
+  // Rejects when the database refuses, e.g. for the owner of the room
   const leaveRoom = useCallback(async () => {
-    if (!userName || !roomId) return;
+    if (!userId || !roomId) return;
 
-    try {
-      console.log(`🚪 ${userName} leaving room ${roomId}`);
-      
-      const { error } = await supabase
-        .from('room_participants')
-        .delete()
-        .match({ room_id: roomId, user_name: userName });
+    console.log(`🚪 ${userName} leaving room ${roomId}`);
 
-      if (error) {
-        console.error('❌ Error leaving room:', error);
-        throw error;
-      }
+    const { error } = await supabase
+      .from('room_participants')
+      .delete()
+      .match({ room_id: roomId, user_id: userId });
 
-      await updatePresence(false);
-      isJoinedRef.current = false;
-      console.log(`✅ ${userName} left room ${roomId}`);
-    } catch (err) {
-      console.error('❌ Failed to leave room:', err);
+    if (error) {
+      console.error('❌ Error leaving room:', error);
+      throw new Error(error.message);
     }
-  }, [roomId, userName, updatePresence]);
 
-  const setupSubscriptions = useCallback(() => {
-    if (!roomId || !userName) return;
+    isJoinedRef.current = false;
+    console.log(`✅ ${userName} left room ${roomId}`);
+  }, [roomId, userId, userName]);
+
+  // Owner only; the change arrives through the participants subscription
+  const setParticipantRole = useCallback(async (userId: string, role: Exclude<RoomRole, 'owner'>) => {
+    console.log(`🛡️ Setting role of ${userId} to ${role}`);
+
+    const { error } = await supabase.rpc('set_participant_role', {
+      p_room_id: roomId,
+      p_user_id: userId,
+      p_role: role
+    });
+
+    if (error) {
+      console.error('❌ Error changing role:', error);
+      throw new Error(error.message);
+    }
+  }, [roomId]);
 
-    console.log(`🔄 Setting up participants subscriptions for room: ${roomId}`);
+  // The current owner stays on as a moderator
+  const transferOwnership = useCallback(async (userId: string) => {
+    console.log(`👑 Transferring room ${roomId} to ${userId}`);
 
-    // Clean up existing subscriptions
-    if (channelRef.current) {
-      supabase.removeChannel(channelRef.current);
-    }
-    if (presenceChannelRef.current) {
-      supabase.removeChannel(presenceChannelRef.current);
+    const { error } = await supabase.rpc('transfer_room_ownership', {
+      p_room_id: roomId,
+      p_user_id: userId
+    });
+
+    if (error) {
+      console.error('❌ Error transferring room:', error);
+      throw new Error(error.message);
     }
+  }, [roomId]);
 
-    // Participants subscription
-    const participantsChannelName = `participants_${roomId}_${Date.now()}`;
-    channelRef.current = supabase
-      .channel(participantsChannelName)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'room_participants',
-          filter: `room_id=eq.${roomId}`,
-        },
-        (payload) => {
-          console.log('👥 Participants change:', payload);
-          loadParticipants();
-        }
-      )
-      .subscribe((status) => {
-        console.log(`🔌 Participants subscription status: ${status}`);
-        if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
+  const subscribeToParticipants = useCallback(() => {
+    if (!roomId || !userName) return;
+
+    console.log(`🔄 Setting up participants subscriptions for room: ${roomId}`);
+
+    return subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        postgresChanges(
+          {
+            event: '*',
+            schema: 'public',
+            table: 'room_participants',
+            filter: `room_id=eq.${roomId}`,
+          },
+          (payload) => {
+            console.log('👥 Participants change:', payload);
+            loadParticipants();
           }
-          reconnectTimeoutRef.current = setTimeout(setupSubscriptions, 3000);
-        }
-      });
-
-    // Presence subscription
-    const presenceChannelName = `presence_${roomId}_${Date.now()}`;
-    presenceChannelRef.current = supabase
-      .channel(presenceChannelName)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'user_presence',
-        },
-        (payload) => {
-          console.log('👤 Presence change:', payload);
+        ),
+        presence((states) => {
+          const online: Record<string, string> = {};
+          states.forEach(state => {
+            online[state.user_id] ||= state.online_at;
+          });
+          setOnlineSince(online);
+        })
+      ],
+      onStatus: (status) => {
+        console.log(`🔌 Participants subscription status: ${status}`);
+        if (status === 'connected') {
+          // Joins and leaves while the channel was down were not delivered
           loadParticipants();
         }
-      )
-      .subscribe((status) => {
-        console.log(`🔌 Presence subscription status: ${status}`);
-      });
+      }
+    });
   }, [roomId, userName, loadParticipants]);
 
   useEffect(() => {
@@ -232,70 +196,50 @@ export function useRoomParticipants(roomId: string, userName: string) {
     console.log(`🚀 Initializing participants for room: ${roomId}, user: ${userName}`);
     
     // Reset state
-    setParticipants([]);
+    setMembers([]);
+    setLastSeen({});
+    setOnlineSince({});
     setLoading(true);
     setError(null);
     isJoinedRef.current = false;
 
     // Initialize
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
     const initialize = async () => {
       await joinRoom();
       await loadParticipants();
-      setupSubscriptions();
+      if (cancelled) return;
+      unsubscribe = subscribeToParticipants();
     };
 
     initialize();
 
-    // Set up presence heartbeat every 30 seconds
-    heartbeatRef.current = setInterval(() => {
-      updatePresence(true);
-    }, 30000);
-
     // Handle page visibility changes
     const handleVisibilityChange = () => {
-      if (document.hidden) {
-        updatePresence(false);
-      } else {
-        updatePresence(true);
+      if (!document.hidden) {
         loadParticipants();
       }
     };
 
-    // Handle page unload
-    const handleBeforeUnload = () => {
-      updatePresence(false);
-    };
-
     document.addEventListener('visibilitychange', handleVisibilityChange);
-    window.addEventListener('beforeunload', handleBeforeUnload);
 
     return () => {
       console.log('🧹 Cleaning up participants subscription');
       
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-      
-      if (heartbeatRef.current) {
-        clearInterval(heartbeatRef.current);
-      }
-      
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-        channelRef.current = null;
-      }
-      
-      if (presenceChannelRef.current) {
-        supabase.removeChannel(presenceChannelRef.current);
-        presenceChannelRef.current = null;
-      }
+      cancelled = true;
+      unsubscribe?.();
       
       document.removeEventListener('visibilitychange', handleVisibilityChange);
-      window.removeEventListener('beforeunload', handleBeforeUnload);
-      
-      leaveRoom();
+      // Membership outlasts the visit; leaving the room is explicit
     };
-  }, [roomId, userName, joinRoom, leaveRoom, loadParticipants, updatePresence, setupSubscriptions]);
+  }, [roomId, userName, joinRoom, loadParticipants, subscribeToParticipants]);
+
+  const participants = useMemo<EnhancedParticipant[]>(() => members.map(p => ({
+    ...p,
+    is_online: p.user_id in onlineSince,
+    last_seen: onlineSince[p.user_id] || lastSeen[p.user_id] || p.joined_at
+  })), [members, lastSeen, onlineSince]);
 
   const participantCount = participants.length;
 
@@ -304,6 +248,9 @@ export function useRoomParticipants(roomId: string, userName: string) {
     participantCount,
     loading, 
     error, 
-    refetch: loadParticipants 
+    refetch: loadParticipants,
+    leaveRoom,
+    setParticipantRole,
+    transferOwnership
   };
 }
\ No newline at end of file
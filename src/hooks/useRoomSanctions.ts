@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { supabase, RoomSanction, SanctionKind } from '../lib/supabase';
+import { subscribeToTopic, roomTopic, postgresChanges } from '../lib/realtime';
+import { activeSanctionFilter, isSanctionActive } from '../lib/sanctions';
+
+// Bans and timeouts in force in a room. Members only see their own, the owner
+// and moderators see everyone's. onRemoved fires when the current user is
+// kicked or banned, including a ban that was already in force on arrival.
+export function useRoomSanctions(
+  roomId: string,
+  userId: string | undefined,
+  onRemoved: (sanction: RoomSanction) => void
+) {
+  const [sanctions, setSanctions] = useState<RoomSanction[]>([]);
+  const onRemovedRef = useRef(onRemoved);
+  const removedRef = useRef(false);
+
+  useEffect(() => {
+    onRemovedRef.current = onRemoved;
+  }, [onRemoved]);
+
+  // Reloads can find the same ban more than once
+  const reportRemoved = useCallback((sanction: RoomSanction) => {
+    if (removedRef.current) return;
+    removedRef.current = true;
+    onRemovedRef.current(sanction);
+  }, []);
+
+  const loadSanctions = useCallback(async () => {
+    if (!roomId || !userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('room_sanctions')
+        .select('*')
+        .eq('room_id', roomId)
+        .in('kind', ['ban', 'timeout'])
+        .or(activeSanctionFilter());
+
+      if (error) {
+        console.error('❌ Error loading sanctions:', error);
+        throw error;
+      }
+
+      setSanctions(data || []);
+
+      const ownBan = data?.find(s => s.user_id === userId && s.kind === 'ban');
+      if (ownBan) {
+        reportRemoved(ownBan);
+      }
+    } catch (err) {
+      console.error('❌ Failed to load sanctions:', err);
+    }
+  }, [roomId, userId, reportRemoved]);
+
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    setSanctions([]);
+    removedRef.current = false;
+    loadSanctions();
+
+    return subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        postgresChanges(
+          {
+            event: '*',
+            schema: 'public',
+            table: 'room_sanctions',
+            filter: `room_id=eq.${roomId}`,
+          },
+          (payload) => {
+            const sanction = payload.new as RoomSanction;
+            console.log(`🔨 Sanction ${payload.eventType}: ${sanction.kind} for ${sanction.user_name}`);
+
+            // Bans are reported from the reload below
+            if (payload.eventType === 'INSERT' && sanction.user_id === userId && sanction.kind === 'kick') {
+              reportRemoved(sanction);
+            }
+            loadSanctions();
+          }
+        )
+      ],
+      onStatus: (status) => {
+        // Sanctions given while disconnected were missed
+        if (status === 'connected') {
+          loadSanctions();
+        }
+      }
+    });
+  }, [roomId, userId, loadSanctions, reportRemoved]);
+
+  // Drop timeouts and bans as they run out
+  useEffect(() => {
+    const nextExpiry = Math.min(
+      ...sanctions.flatMap(s => s.expires_at ? [new Date(s.expires_at).getTime()] : [])
+    );
+    if (!Number.isFinite(nextExpiry)) return;
+
+    const timeout = setTimeout(() => {
+      setSanctions(prev => prev.filter(isSanctionActive));
+    }, Math.max(nextExpiry - Date.now(), 0) + 500);
+
+    return () => clearTimeout(timeout);
+  }, [sanctions]);
+
+  const sanctionParticipant = useCallback(async (targetId: string, kind: SanctionKind, minutes: number | null = null) => {
+    console.log(`🔨 ${kind} for ${targetId} in room ${roomId}`);
+
+    const { error } = await supabase.rpc('sanction_room_participant', {
+      p_room_id: roomId,
+      p_user_id: targetId,
+      p_kind: kind,
+      p_minutes: minutes
+    });
+
+    if (error) {
+      console.error(`❌ Error applying ${kind}:`, error);
+      throw new Error(error.message);
+    }
+  }, [roomId]);
+
+  const liftSanction = useCallback(async (targetId: string, kind: Exclude<SanctionKind, 'kick'>) => {
+    console.log(`🔓 Lifting ${kind} for ${targetId} in room ${roomId}`);
+
+    const { error } = await supabase.rpc('lift_room_sanction', {
+      p_room_id: roomId,
+      p_user_id: targetId,
+      p_kind: kind
+    });
+
+    if (error) {
+      console.error(`❌ Error lifting ${kind}:`, error);
+      throw new Error(error.message);
+    }
+  }, [roomId]);
+
+  const timeouts = useMemo(
+    () => new Map(sanctions.filter(s => s.kind === 'timeout').map(s => [s.user_id, s])),
+    [sanctions]
+  );
+
+  return {
+    // Timeouts in force, by user id
+    timeouts,
+    ownTimeout: (userId && timeouts.get(userId)) || null,
+    sanctionParticipant,
+    liftSanction
+  };
+}
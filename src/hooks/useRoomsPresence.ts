@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { subscribeToTopic, LOBBY_TOPIC, presence } from '../lib/realtime';
+
+// Who is online in each room, from the presence every open room tracks on
+// the lobby topic
+export function useRoomsPresence() {
+  const [onlineByRoom, setOnlineByRoom] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    const unsubscribe = subscribeToTopic(LOBBY_TOPIC, {
+      bindings: [
+        presence((states) => {
+          // Users are told apart by id, two of them can share a display name
+          const byRoom: Record<string, Map<string, string>> = {};
+          states.forEach(state => {
+            if (typeof state.room_id !== 'string') return;
+            (byRoom[state.room_id] ||= new Map()).set(state.user_id, state.user_name);
+          });
+          setOnlineByRoom(Object.fromEntries(
+            Object.entries(byRoom).map(([roomId, users]) => [roomId, Array.from(users.values())])
+          ));
+        })
+      ]
+    });
+
+    return unsubscribe;
+  }, []);
+
+  return { onlineByRoom };
+}
@@ -1,140 +1,119 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase } from '../lib/supabase';
+import { TypingActivity, TypingUser } from '../lib/supabase';
+import { subscribeToTopic, roomTopic, broadcast, sendBroadcast } from '../lib/realtime';
+
+// While an activity lasts it is re-sent this often, and receivers drop it
+// when nothing has arrived for TYPING_EXPIRY
+const TYPING_HEARTBEAT = 3000;
+const TYPING_EXPIRY = 6000;
+// Typing stops after this long without a keystroke
+const TYPING_IDLE = 5000;
+
+// The most involved activity is the one shown to others
+const ACTIVITY_PRIORITY: TypingActivity[] = ['recording', 'uploading', 'typing'];
+
+interface TypingEvent {
+  user_name: string;
+  activity: TypingActivity | null;
+}
 
 export function useTypingIndicator(roomId: string, userName: string) {
-  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
   const [isTyping, setIsTyping] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
-  const channelRef = useRef<any>(null);
-  const cleanupTimeoutRef = useRef<NodeJS.Timeout>();
-  const refreshRef = useRef<NodeJS.Timeout>();
-
-  const updateTypingStatus = useCallback(async (typing: boolean) => {
-    if (!userName || !roomId) return;
-
-    try {
-      console.log(`⌨️ ${userName} typing: ${typing}`);
-      
-      const { error } = await supabase
-        .from('typing_indicators')
-        .upsert({
-          room_id: roomId,
-          user_name: userName,
-          is_typing: typing,
-          last_typed: new Date().toISOString()
-        }, {
-          onConflict: 'room_id,user_name'
-        });
-      
-      if (error) {
-        console.error('❌ Error updating typing status:', error);
-        throw error;
-      }
-    } catch (err) {
-      console.error('❌ Failed to update typing status:', err);
+  const heartbeatRef = useRef<NodeJS.Timeout>();
+  const expiryTimeoutsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const activitiesRef = useRef<Set<TypingActivity>>(new Set());
+  const sentActivityRef = useRef<TypingActivity | null>(null);
+
+  const removeTypingUser = useCallback((user: string) => {
+    const timeout = expiryTimeoutsRef.current.get(user);
+    if (timeout) {
+      clearTimeout(timeout);
+      expiryTimeoutsRef.current.delete(user);
     }
-  }, [userName, roomId]);
-
-  const loadTypingUsers = useCallback(async () => {
-    if (!roomId) return;
-    
-    try {
-      const { data, error } = await supabase
-        .from('typing_indicators')
-        .select('*')
-        .eq('room_id', roomId)
-        .eq('is_typing', true)
-        .neq('user_name', userName);
-
-      if (error) {
-        console.error('❌ Error loading typing users:', error);
-        throw error;
-      }
+    setTypingUsers(prev => prev.filter(t => t.user_name !== user));
+  }, []);
 
-      // Filter out stale typing indicators (older than 10 seconds)
-      const now = new Date();
-      const activeTypers = (data || [])
-        .filter(indicator => {
-          const lastTyped = new Date(indicator.last_typed);
-          return (now.getTime() - lastTyped.getTime()) < 10000;
-        })
-        .map(indicator => indicator.user_name);
-
-      setTypingUsers(activeTypers);
-      
-      if (activeTypers.length > 0) {
-        console.log(`⌨️ Active typers: ${activeTypers.join(', ')}`);
-      }
-    } catch (err) {
-      console.error('❌ Failed to load typing users:', err);
+  const handleTypingEvent = useCallback(({ user_name, activity }: TypingEvent) => {
+    if (!user_name || user_name === userName) return;
+
+    if (!activity) {
+      removeTypingUser(user_name);
+      return;
+    }
+
+    setTypingUsers(prev => {
+      const existing = prev.find(t => t.user_name === user_name);
+      if (existing?.activity === activity) return prev;
+      return existing
+        ? prev.map(t => t.user_name === user_name ? { user_name, activity } : t)
+        : [...prev, { user_name, activity }];
+    });
+
+    const timeout = expiryTimeoutsRef.current.get(user_name);
+    if (timeout) {
+      clearTimeout(timeout);
     }
+    expiryTimeoutsRef.current.set(user_name, setTimeout(() => removeTypingUser(user_name), TYPING_EXPIRY));
+  }, [userName, removeTypingUser]);
+
+  const sendActivity = useCallback((activity: TypingActivity | null) => {
+    if (!roomId || !userName) return;
+    sentActivityRef.current = activity;
+    sendBroadcast(roomTopic(roomId), 'typing', { user_name: userName, activity });
   }, [roomId, userName]);
 
-  const startTyping = useCallback(() => {
-    if (isTyping) return;
-    
-    setIsTyping(true);
-    updateTypingStatus(true);
+  // Sends the current activity when it changes, and keeps re-sending it while
+  // it lasts. Keystrokes in between send nothing.
+  const syncActivity = useCallback(() => {
+    const activity = ACTIVITY_PRIORITY.find(a => activitiesRef.current.has(a)) || null;
 
-    // Clear existing timeout
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
+    if (activity !== sentActivityRef.current) {
+      console.log(`⌨️ ${userName} activity: ${activity || 'none'}`);
+      sendActivity(activity);
     }
 
-    // Stop typing after 5 seconds of inactivity
-    typingTimeoutRef.current = setTimeout(() => {
-      setIsTyping(false);
-      updateTypingStatus(false);
-    }, 5000);
-  }, [isTyping, updateTypingStatus]);
+    if (activity && !heartbeatRef.current) {
+      heartbeatRef.current = setInterval(() => sendActivity(sentActivityRef.current), TYPING_HEARTBEAT);
+    } else if (!activity && heartbeatRef.current) {
+      clearInterval(heartbeatRef.current);
+      heartbeatRef.current = undefined;
+    }
+  }, [userName, sendActivity]);
+
+  const startActivity = useCallback((activity: TypingActivity) => {
+    activitiesRef.current.add(activity);
+    syncActivity();
+  }, [syncActivity]);
+
+  const stopActivity = useCallback((activity: TypingActivity) => {
+    if (!activitiesRef.current.delete(activity)) return;
+    syncActivity();
+  }, [syncActivity]);
 
   const stopTyping = useCallback(() => {
-    if (!isTyping) return;
-    
     setIsTyping(false);
-    updateTypingStatus(false);
-    
+    stopActivity('typing');
+
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = undefined;
     }
-  }, [isTyping, updateTypingStatus]);
+  }, [stopActivity]);
 
-  const setupTypingSubscription = useCallback(() => {
-    if (!roomId || !userName) return;
+  const startTyping = useCallback(() => {
+    setIsTyping(true);
+    startActivity('typing');
 
-    if (channelRef.current) {
-      supabase.removeChannel(channelRef.current);
+    // Clear existing timeout
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
     }
 
-    const channelName = `typing_${roomId}_${Date.now()}`;
-    console.log(`🔄 Setting up typing subscription: ${channelName}`);
-
-    channelRef.current = supabase
-      .channel(channelName)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'typing_indicators',
-          filter: `room_id=eq.${roomId}`,
-        },
-        (payload) => {
-          console.log('⌨️ Typing indicator change:', payload);
-          loadTypingUsers();
-        }
-      )
-      .subscribe((status) => {
-        console.log(`🔌 Typing subscription status: ${status}`);
-        
-        if (status === 'SUBSCRIBED') {
-          console.log('✅ Typing subscription active');
-        } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
-          console.log('❌ Typing subscription failed, will reconnect...');
-          setTimeout(setupTypingSubscription, 3000);
-        }
-      });
-  }, [roomId, userName, loadTypingUsers]);
+    // Stop typing after 5 seconds of inactivity
+    typingTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE);
+  }, [startActivity, stopTyping]);
 
   useEffect(() => {
     if (!roomId || !userName) {
@@ -143,44 +122,47 @@ export function useTypingIndicator(roomId: string, userName: string) {
     }
 
     console.log(`🚀 Setting up typing indicators for room: ${roomId}`);
-    
-    loadTypingUsers();
-    setupTypingSubscription();
-
-    // Clean up old typing indicators every 10 seconds
-    cleanupTimeoutRef.current = setInterval(() => {
-      loadTypingUsers();
-    }, 10000);
-
-    // Refresh typing users every 5 seconds
-    refreshRef.current = setInterval(() => {
-      loadTypingUsers();
-    }, 5000);
+    setTypingUsers([]);
+
+    const expiryTimeouts = expiryTimeoutsRef.current;
+    const activities = activitiesRef.current;
+    const unsubscribe = subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        broadcast('typing', ({ payload }) => handleTypingEvent(payload as unknown as TypingEvent))
+      ],
+      onStatus: (status) => {
+        // Others' heartbeats bring back what was missed while disconnected,
+        // and expiry clears those who stopped in the meantime
+        if (status === 'connected' && sentActivityRef.current) {
+          sendActivity(sentActivityRef.current);
+        }
+      }
+    });
 
     return () => {
       console.log('🧹 Cleaning up typing indicators');
-      
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-        channelRef.current = null;
+
+      // Let others know before leaving the room
+      if (sentActivityRef.current) {
+        sendActivity(null);
       }
-      
+      unsubscribe();
+
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = undefined;
       }
 
-      if (cleanupTimeoutRef.current) {
-        clearInterval(cleanupTimeoutRef.current);
-      }
-
-      if (refreshRef.current) {
-        clearInterval(refreshRef.current);
+      if (heartbeatRef.current) {
+        clearInterval(heartbeatRef.current);
+        heartbeatRef.current = undefined;
       }
 
-      // Clean up typing status on unmount
-      updateTypingStatus(false);
+      expiryTimeouts.forEach(timeout => clearTimeout(timeout));
+      expiryTimeouts.clear();
+      activities.clear();
     };
-  }, [roomId, userName, updateTypingStatus, loadTypingUsers, setupTypingSubscription]);
+  }, [roomId, userName, handleTypingEvent, sendActivity]);
 
-  return { typingUsers, startTyping, stopTyping, isTyping };
-}
\ No newline at end of file
+  return { typingUsers, startTyping, stopTyping, startActivity, stopActivity, isTyping };
+}
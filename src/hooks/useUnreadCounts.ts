@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Message, RoomReadState } from '../lib/supabase';
+import { subscribeToTopic, userTopic, postgresChanges } from '../lib/realtime';
+
+// Unread messages per room, for rooms the user has opened before
+export function useUnreadCounts(userId: string) {
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  const loadUnreadCounts = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_unread_counts');
+
+      if (error) {
+        console.error('❌ Error loading unread counts:', error);
+        throw error;
+      }
+
+      const counts: Record<string, number> = {};
+      (data || []).forEach((row: { room_id: string; unread_count: number }) => {
+        counts[row.room_id] = Number(row.unread_count);
+      });
+      setUnreadCounts(counts);
+    } catch (err) {
+      console.error('❌ Failed to load unread counts:', err);
+    }
+  }, [userId]);
+
+  const subscribeToUnreadCounts = useCallback(() => {
+    if (!userId) return;
+
+    console.log(`🔄 Setting up unread counts subscription for ${userId}`);
+
+    return subscribeToTopic(userTopic(userId), {
+      bindings: [
+        postgresChanges(
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'messages',
+          },
+          (payload) => {
+            const message = payload.new as Message;
+            if (message.user_id === userId || message.message_type === 'system') return;
+
+            // Only rooms with a read position have a count
+            setUnreadCounts(prev => message.room_id in prev
+              ? { ...prev, [message.room_id]: prev[message.room_id] + 1 }
+              : prev
+            );
+          }
+        ),
+        postgresChanges(
+          {
+            event: '*',
+            schema: 'public',
+            table: 'room_read_states',
+            filter: `user_id=eq.${userId}`,
+          },
+          (payload) => {
+            const state = payload.new as Partial<RoomReadState>;
+            if (state.room_id) {
+              loadUnreadCounts();
+            }
+          }
+        )
+      ],
+      onStatus: (status) => {
+        console.log(`🔌 Unread counts subscription status: ${status}`);
+        if (status === 'connected') {
+          loadUnreadCounts();
+        }
+      }
+    });
+  }, [userId, loadUnreadCounts]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadUnreadCounts();
+    const unsubscribe = subscribeToUnreadCounts();
+
+    return () => {
+      console.log('🧹 Cleaning up unread counts subscription');
+      unsubscribe?.();
+    };
+  }, [userId, loadUnreadCounts, subscribeToUnreadCounts]);
+
+  return { unreadCounts, refetch: loadUnreadCounts };
+}
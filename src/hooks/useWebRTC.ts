@@ -1,4 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { subscribeToTopic, roomTopic, broadcast, sendBroadcast } from '../lib/realtime';
 
 interface WebRTCState {
   isAudioEnabled: boolean;
@@ -10,7 +12,28 @@ interface WebRTCState {
   isConnecting: boolean;
 }
 
-export function useWebRTC(roomId: string, userName: string) {
+// Signaling messages broadcast on the room's channel
+interface CallSignal {
+  from: string;
+  to?: string;
+  offer?: RTCSessionDescriptionInit;
+  answer?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+}
+
+const showErrorToast = (text: string) => {
+  const toast = document.createElement('div');
+  toast.className = 'fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
+  toast.textContent = text;
+  document.body.appendChild(toast);
+  setTimeout(() => {
+    if (document.body.contains(toast)) {
+      document.body.removeChild(toast);
+    }
+  }, 3000);
+};
+
+export function useWebRTC(roomId: string, userId: string, userName: string) {
   const [state, setState] = useState<WebRTCState>({
     isAudioEnabled: false,
     isVideoEnabled: false,
@@ -23,7 +46,42 @@ export function useWebRTC(roomId: string, userName: string) {
 
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const peerConnectionsRef = useRef<Map<string, RTCPeerConnection>>(new Map());
-  const channelRef = useRef<any>(null);
+  const callJoinedRef = useRef(false);
+
+  // Call membership is stored so the database can announce calls in the room.
+  // The row is keyed on the signed-in user, which the database fills in
+  // Resolves to false when the database refuses, e.g. a member starting a call
+  const joinCall = useCallback(async () => {
+    if (callJoinedRef.current) return true;
+    callJoinedRef.current = true;
+
+    const { error } = await supabase
+      .from('call_participants')
+      .upsert({ room_id: roomId }, { ignoreDuplicates: true });
+
+    if (error) {
+      console.error('❌ Error joining call:', error);
+      callJoinedRef.current = false;
+      showErrorToast(error.message);
+      return false;
+    }
+
+    return true;
+  }, [roomId]);
+
+  const leaveCall = useCallback(async () => {
+    if (!callJoinedRef.current) return;
+    callJoinedRef.current = false;
+
+    const { error } = await supabase
+      .from('call_participants')
+      .delete()
+      .match({ room_id: roomId, user_id: userId });
+
+    if (error) {
+      console.error('❌ Error leaving call:', error);
+    }
+  }, [roomId, userId]);
 
   const createPeerConnection = useCallback((participantId: string) => {
     const configuration = {
@@ -36,15 +94,11 @@ export function useWebRTC(roomId: string, userName: string) {
     const pc = new RTCPeerConnection(configuration);
 
     pc.onicecandidate = (event) => {
-      if (event.candidate && channelRef.current) {
-        channelRef.current.send({
-          type: 'broadcast',
-          event: 'ice_candidate',
-          payload: {
-            candidate: event.candidate,
-            to: participantId,
-            from: userName
-          }
+      if (event.candidate) {
+        sendBroadcast(roomTopic(roomId), 'ice_candidate', {
+          candidate: event.candidate,
+          to: participantId,
+          from: userName
         });
       }
     };
@@ -58,7 +112,7 @@ export function useWebRTC(roomId: string, userName: string) {
     };
 
     return pc;
-  }, [userName]);
+  }, [roomId, userName]);
 
   const startLocalStream = useCallback(async (audio: boolean, video: boolean) => {
     try {
@@ -77,6 +131,12 @@ export function useWebRTC(roomId: string, userName: string) {
         } : false
       });
 
+      if (!await joinCall()) {
+        stream.getTracks().forEach(track => track.stop());
+        setState(prev => ({ ...prev, isConnecting: false }));
+        return null;
+      }
+
       setState(prev => ({ 
         ...prev, 
         localStream: stream,
@@ -102,20 +162,10 @@ export function useWebRTC(roomId: string, userName: string) {
       console.error('Error accessing media devices:', error);
       setState(prev => ({ ...prev, isConnecting: false }));
       
-      // Show error toast
-      const toast = document.createElement('div');
-      toast.className = 'fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
-      toast.textContent = 'Camera/microphone access denied';
-      document.body.appendChild(toast);
-      setTimeout(() => {
-        if (document.body.contains(toast)) {
-          document.body.removeChild(toast);
-        }
-      }, 3000);
-      
+      showErrorToast('Camera/microphone access denied');
       return null;
     }
-  }, []);
+  }, [joinCall]);
 
   const stopLocalStream = useCallback(() => {
     if (state.localStream) {
@@ -140,19 +190,13 @@ export function useWebRTC(roomId: string, userName: string) {
         setState(prev => ({ ...prev, isAudioEnabled: !prev.isAudioEnabled }));
         
         // Broadcast audio status
-        if (channelRef.current) {
-          channelRef.current.send({
-            type: 'broadcast',
-            event: 'audio_toggle',
-            payload: {
-              user_name: userName,
-              audio_enabled: !state.isAudioEnabled
-            }
-          });
-        }
+        sendBroadcast(roomTopic(roomId), 'audio_toggle', {
+          user_name: userName,
+          audio_enabled: !state.isAudioEnabled
+        });
       }
     }
-  }, [state.isInCall, state.isAudioEnabled, state.isVideoEnabled, state.localStream, startLocalStream, userName]);
+  }, [state.isInCall, state.isAudioEnabled, state.isVideoEnabled, state.localStream, startLocalStream, roomId, userName]);
 
   const toggleVideo = useCallback(async () => {
     if (!state.isInCall) {
@@ -164,22 +208,17 @@ export function useWebRTC(roomId: string, userName: string) {
         setState(prev => ({ ...prev, isVideoEnabled: !prev.isVideoEnabled }));
         
         // Broadcast video status
-        if (channelRef.current) {
-          channelRef.current.send({
-            type: 'broadcast',
-            event: 'video_toggle',
-            payload: {
-              user_name: userName,
-              video_enabled: !state.isVideoEnabled
-            }
-          });
-        }
+        sendBroadcast(roomTopic(roomId), 'video_toggle', {
+          user_name: userName,
+          video_enabled: !state.isVideoEnabled
+        });
       }
     }
-  }, [state.isInCall, state.isAudioEnabled, state.isVideoEnabled, state.localStream, startLocalStream, userName]);
+  }, [state.isInCall, state.isAudioEnabled, state.isVideoEnabled, state.localStream, startLocalStream, roomId, userName]);
 
   const endCall = useCallback(() => {
     stopLocalStream();
+    leaveCall();
     
     // Close all peer connections
     peerConnectionsRef.current.forEach(pc => pc.close());
@@ -196,102 +235,94 @@ export function useWebRTC(roomId: string, userName: string) {
     }));
 
     // Broadcast call end
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'call_end',
-        payload: {
-          user_name: userName
-        }
-      });
-    }
-  }, [stopLocalStream, userName]);
+    sendBroadcast(roomTopic(roomId), 'call_end', {
+      user_name: userName
+    });
+  }, [stopLocalStream, leaveCall, roomId, userName]);
 
+  // Leave the call when switching rooms or closing the chat
   useEffect(() => {
-    if (!roomId || !userName) return;
+    return () => {
+      leaveCall();
+    };
+  }, [leaveCall]);
 
-    // Set up WebRTC signaling channel
-    if (channelRef.current) {
-      supabase.removeChannel(channelRef.current);
-    }
+  useEffect(() => {
+    if (!roomId || !userName) return;
 
-    channelRef.current = supabase
-      .channel(`webrtc_${roomId}_${Date.now()}`)
-      .on('broadcast', { event: 'call_offer' }, async (payload) => {
-        const { offer, from } = payload.payload;
-        if (from === userName) return;
+    // WebRTC signaling shares the room's channel
+    const unsubscribe = subscribeToTopic(roomTopic(roomId), {
+      bindings: [
+        broadcast('call_offer', async (payload) => {
+          const { offer, from } = payload.payload as unknown as CallSignal & { offer: RTCSessionDescriptionInit };
+          if (from === userName) return;
 
-        const pc = createPeerConnection(from);
-        peerConnectionsRef.current.set(from, pc);
+          const pc = createPeerConnection(from);
+          peerConnectionsRef.current.set(from, pc);
 
-        await pc.setRemoteDescription(offer);
-        const answer = await pc.createAnswer();
-        await pc.setLocalDescription(answer);
+          await pc.setRemoteDescription(offer);
+          const answer = await pc.createAnswer();
+          await pc.setLocalDescription(answer);
 
-        channelRef.current.send({
-          type: 'broadcast',
-          event: 'call_answer',
-          payload: {
+          sendBroadcast(roomTopic(roomId), 'call_answer', {
             answer,
             to: from,
             from: userName
+          });
+        }),
+        broadcast('call_answer', async (payload) => {
+          const { answer, to, from } = payload.payload as unknown as CallSignal & { answer: RTCSessionDescriptionInit };
+          if (to !== userName) return;
+
+          const pc = peerConnectionsRef.current.get(from);
+          if (pc) {
+            await pc.setRemoteDescription(answer);
+          }
+        }),
+        broadcast('ice_candidate', async (payload) => {
+          const { candidate, to, from } = payload.payload as unknown as CallSignal;
+          if (to !== userName) return;
+
+          const pc = peerConnectionsRef.current.get(from);
+          if (pc) {
+            await pc.addIceCandidate(candidate);
+          }
+        }),
+        broadcast('audio_toggle', (payload) => {
+          // Handle remote audio toggle
+          console.log('Remote audio toggle:', payload.payload);
+        }),
+        broadcast('video_toggle', (payload) => {
+          // Handle remote video toggle
+          console.log('Remote video toggle:', payload.payload);
+        }),
+        broadcast('call_end', (payload) => {
+          const { user_name } = payload.payload as { user_name: string };
+          if (user_name === userName) return;
+
+          // Remove peer connection
+          const pc = peerConnectionsRef.current.get(user_name);
+          if (pc) {
+            pc.close();
+            peerConnectionsRef.current.delete(user_name);
           }
-        });
-      })
-      .on('broadcast', { event: 'call_answer' }, async (payload) => {
-        const { answer, to, from } = payload.payload;
-        if (to !== userName) return;
-
-        const pc = peerConnectionsRef.current.get(from);
-        if (pc) {
-          await pc.setRemoteDescription(answer);
-        }
-      })
-      .on('broadcast', { event: 'ice_candidate' }, async (payload) => {
-        const { candidate, to, from } = payload.payload;
-        if (to !== userName) return;
-
-        const pc = peerConnectionsRef.current.get(from);
-        if (pc) {
-          await pc.addIceCandidate(candidate);
-        }
-      })
-      .on('broadcast', { event: 'audio_toggle' }, (payload) => {
-        // Handle remote audio toggle
-        console.log('Remote audio toggle:', payload.payload);
-      })
-      .on('broadcast', { event: 'video_toggle' }, (payload) => {
-        // Handle remote video toggle
-        console.log('Remote video toggle:', payload.payload);
-      })
-      .on('broadcast', { event: 'call_end' }, (payload) => {
-        const { user_name } = payload.payload;
-        if (user_name === userName) return;
-
-        // Remove peer connection
-        const pc = peerConnectionsRef.current.get(user_name);
-        if (pc) {
-          pc.close();
-          peerConnectionsRef.current.delete(user_name);
-        }
-
-        // Remove remote stream
-        setState(prev => {
-          const newRemoteStreams = new Map(prev.remoteStreams);
-          newRemoteStreams.delete(user_name);
-          return {
-            ...prev,
-            remoteStreams: newRemoteStreams,
-            participants: prev.participants.filter(p => p !== user_name)
-          };
-        });
-      })
-      .subscribe();
+
+          // Remove remote stream
+          setState(prev => {
+            const newRemoteStreams = new Map(prev.remoteStreams);
+            newRemoteStreams.delete(user_name);
+            return {
+              ...prev,
+              remoteStreams: newRemoteStreams,
+              participants: prev.participants.filter(p => p !== user_name)
+            };
+          });
+        })
+      ]
+    });
 
     return () => {
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-      }
+      unsubscribe();
       
       // Clean up streams and connections
       stopLocalStream();
@@ -0,0 +1,183 @@
+/*
+  Lightweight syntax highlighting for code blocks. Splits code into tokens
+  with a handful of regular expressions per language family; good enough to
+  make shared snippets readable without shipping a full highlighter.
+*/
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'literal';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  comments: RegExp[];
+  strings: RegExp[];
+  keywords: Set<string>;
+  literals: Set<string>;
+  caseInsensitive?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const C_LIKE_KEYWORDS = words(`
+  abstract as async await break case catch class const continue debugger default delete do else enum
+  export extends final finally for from function func go if implements import in instanceof interface
+  let match mod mut new package private protected pub public readonly return static struct super switch
+  this throw throws trait try type typeof use var void while with yield fn impl where val fun when
+  namespace using virtual override internal sealed defer chan select range map string number boolean
+  int long float double char bool byte short unsigned signed
+`);
+
+const PYTHON_KEYWORDS = words(`
+  and as assert async await break class continue def del elif else except finally for from global if
+  import in is lambda nonlocal not or pass raise return try while with yield self print
+`);
+
+const SHELL_KEYWORDS = words(`
+  if then else elif fi for while until do done case esac function in return export local readonly
+  echo cd ls cat grep sed awk sudo npm npx yarn git docker curl
+`);
+
+const SQL_KEYWORDS = words(`
+  select from where and or not insert into values update set delete create table alter drop index
+  primary key foreign references join left right inner outer full on as group by order having limit
+  offset distinct union all exists in is like between case when then else end begin commit rollback
+  function returns return trigger language declare view grant revoke policy with default unique check
+`);
+
+const C_LIKE_LITERALS = words('true false null undefined nil None True False NaN Infinity');
+
+const C_LIKE: LanguageDefinition = {
+  comments: [/\/\/[^\n]*/y, /\/\*[\s\S]*?(?:\*\/|$)/y],
+  strings: [/"(?:\\.|[^"\\\n])*"?/y, /'(?:\\.|[^'\\\n])*'?/y, /`(?:\\.|[^`\\])*`?/y],
+  keywords: C_LIKE_KEYWORDS,
+  literals: C_LIKE_LITERALS
+};
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: C_LIKE,
+  python: {
+    comments: [/#[^\n]*/y],
+    strings: [/"""[\s\S]*?(?:"""|$)/y, /'''[\s\S]*?(?:'''|$)/y, /"(?:\\.|[^"\\\n])*"?/y, /'(?:\\.|[^'\\\n])*'?/y],
+    keywords: PYTHON_KEYWORDS,
+    literals: C_LIKE_LITERALS
+  },
+  shell: {
+    comments: [/#[^\n]*/y],
+    strings: [/"(?:\\.|[^"\\])*"?/y, /'[^']*'?/y],
+    keywords: SHELL_KEYWORDS,
+    literals: words('true false')
+  },
+  sql: {
+    comments: [/--[^\n]*/y, /\/\*[\s\S]*?(?:\*\/|$)/y],
+    strings: [/'(?:''|[^'])*'?/y],
+    keywords: SQL_KEYWORDS,
+    literals: words('true false null'),
+    caseInsensitive: true
+  },
+  json: {
+    comments: [],
+    strings: [/"(?:\\.|[^"\\\n])*"?/y],
+    keywords: new Set(),
+    literals: words('true false null')
+  },
+  css: {
+    comments: [/\/\*[\s\S]*?(?:\*\/|$)/y],
+    strings: [/"(?:\\.|[^"\\\n])*"?/y, /'(?:\\.|[^'\\\n])*'?/y],
+    keywords: words('important media import from to keyframes'),
+    literals: new Set()
+  },
+  html: {
+    comments: [/<!--[\s\S]*?(?:-->|$)/y],
+    strings: [/"[^"]*"?/y, /'[^']*'?/y],
+    keywords: new Set(),
+    literals: new Set()
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript', typescript: 'javascript',
+  java: 'javascript', c: 'javascript', cpp: 'javascript', 'c++': 'javascript', cs: 'javascript',
+  csharp: 'javascript', go: 'javascript', rust: 'javascript', rs: 'javascript', swift: 'javascript',
+  kotlin: 'javascript', kt: 'javascript', php: 'javascript', dart: 'javascript',
+  py: 'python', python3: 'python', rb: 'python', ruby: 'python', yaml: 'python', yml: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', shell: 'shell', console: 'shell',
+  postgres: 'sql', postgresql: 'sql', plpgsql: 'sql', psql: 'sql',
+  scss: 'css', less: 'css', xml: 'html', svg: 'html', vue: 'html'
+};
+
+const resolveLanguage = (language: string): LanguageDefinition =>
+  LANGUAGES[ALIASES[language] || language] || { ...C_LIKE, keywords: new Set() };
+
+const NUMBER_PATTERN = /(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b/iy;
+const WORD_PATTERN = /[A-Za-z_$][\w$]*/y;
+
+export function highlightCode(code: string, language: string): Token[] {
+  const definition = resolveLanguage(language);
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  const matchAt = (pattern: RegExp) => {
+    pattern.lastIndex = index;
+    const match = pattern.exec(code);
+    return match && match[0].length > 0 ? match[0] : null;
+  };
+
+  while (index < code.length) {
+    let text: string | null = null;
+
+    for (const pattern of definition.comments) {
+      if ((text = matchAt(pattern))) {
+        push('comment', text);
+        break;
+      }
+    }
+    if (text) {
+      index += text.length;
+      continue;
+    }
+
+    for (const pattern of definition.strings) {
+      if ((text = matchAt(pattern))) {
+        push('string', text);
+        break;
+      }
+    }
+    if (text) {
+      index += text.length;
+      continue;
+    }
+
+    if (!/[\w$]/.test(code[index - 1] || '') && (text = matchAt(NUMBER_PATTERN))) {
+      push('number', text);
+      index += text.length;
+      continue;
+    }
+
+    if ((text = matchAt(WORD_PATTERN))) {
+      const word = definition.caseInsensitive ? text.toLowerCase() : text;
+      push(
+        definition.keywords.has(word) ? 'keyword' : definition.literals.has(word) ? 'literal' : 'plain',
+        text
+      );
+      index += text.length;
+      continue;
+    }
+
+    push('plain', code[index]);
+    index++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,274 @@
+/*
+  A small Markdown subset for chat messages:
+    **bold**, __bold__, *italic*, _italic_, `inline code`, [links](https://...),
+    bare URLs, ```fenced code blocks```, > blockquotes, - / 1. lists and
+    @[username] mentions.
+
+  The parser only produces a tree; rendering happens in React, which escapes
+  all text, so message content can never inject markup. Links are limited to
+  http(s) and mailto URLs.
+*/
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; userName: string };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+export const sanitizeUrl = (url: string) => SAFE_URL_PATTERN.test(url.trim()) ? url.trim() : null;
+
+interface InlineRule {
+  pattern: RegExp;
+  // Rules marked wordBoundary only match when not preceded by a letter or digit
+  wordBoundary?: boolean;
+  build: (match: RegExpExecArray) => InlineNode | null;
+}
+
+const INLINE_RULES: InlineRule[] = [
+  {
+    pattern: /\\([\\`*_[\]()>#+\-.!~])/y,
+    build: match => ({ type: 'text', text: match[1] })
+  },
+  {
+    pattern: /@\[([^\]\n]{1,50})\]/y,
+    build: match => ({ type: 'mention', userName: match[1] })
+  },
+  {
+    pattern: /`([^`\n]+)`/y,
+    build: match => ({ type: 'code', text: match[1] })
+  },
+  {
+    pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*/y,
+    build: match => ({ type: 'strong', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}])/uy,
+    wordBoundary: true,
+    build: match => ({ type: 'strong', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /\*(?=[^\s*])([^*\n]*?[^\s*])\*/y,
+    build: match => ({ type: 'em', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /_(?=[^\s_])([^_\n]*?[^\s_])_(?![\p{L}\p{N}])/uy,
+    wordBoundary: true,
+    build: match => ({ type: 'em', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/y,
+    build: match => {
+      const href = sanitizeUrl(match[2]);
+      return href ? { type: 'link', href, children: parseInline(match[1]) } : null;
+    }
+  },
+  {
+    pattern: /https?:\/\/[^\s<]*[^\s<.,:;"')\]!?]/y,
+    wordBoundary: true,
+    build: match => ({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] })
+  }
+];
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let index = 0;
+
+  const pushText = (value: string) => {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  while (index < text.length) {
+    let matched = false;
+
+    for (const rule of INLINE_RULES) {
+      if (rule.wordBoundary && isWordChar(text[index - 1])) continue;
+
+      rule.pattern.lastIndex = index;
+      const match = rule.pattern.exec(text);
+      if (!match) continue;
+
+      const node = rule.build(match);
+      if (!node) continue;
+
+      if (buffer) {
+        pushText(buffer);
+        buffer = '';
+      }
+      if (node.type === 'text') {
+        pushText(node.text);
+      } else {
+        nodes.push(node);
+      }
+      index += match[0].length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      buffer += text[index];
+      index++;
+    }
+  }
+
+  if (buffer) pushText(buffer);
+  return nodes;
+}
+
+const FENCE_PATTERN = /^\s*```\s*([\w+#.-]*)\s*$/;
+const QUOTE_PATTERN = /^\s*>\s?/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+const startsBlock = (line: string) =>
+  FENCE_PATTERN.test(line) || QUOTE_PATTERN.test(line) ||
+  UNORDERED_ITEM_PATTERN.test(line) || ORDERED_ITEM_PATTERN.test(line);
+
+function parseLines(lines: string[]): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    // Fenced code block, an unclosed fence runs to the end of the message
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !/^\s*```\s*$/.test(lines[index])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), code: codeLines.join('\n') });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoteLines.push(lines[index].replace(QUOTE_PATTERN, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoteLines) });
+      continue;
+    }
+
+    const ordered = line.match(ORDERED_ITEM_PATTERN);
+    if (ordered || UNORDERED_ITEM_PATTERN.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM_PATTERN : UNORDERED_ITEM_PATTERN;
+      const items: InlineNode[][] = [];
+      let match: RegExpMatchArray | null;
+      while (index < lines.length && (match = lines[index].match(itemPattern))) {
+        items.push(parseInline(match[match.length - 1]));
+        index++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered: !!ordered,
+        start: ordered ? parseInt(ordered[1], 10) : 1,
+        items
+      });
+      continue;
+    }
+
+    // Paragraphs keep single line breaks, as is usual in chat
+    const paragraphLines: string[] = [];
+    while (index < lines.length && lines[index].trim() && (paragraphLines.length === 0 || !startsBlock(lines[index]))) {
+      paragraphLines.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraphLines.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(content: string): BlockNode[] {
+  return parseLines(content.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+export const formatMention = (userName: string) => `@[${userName}]`;
+
+const inlineToText = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'mention':
+        return `@${node.userName}`;
+      case 'text':
+      case 'code':
+        return node.text;
+      default:
+        return inlineToText(node.children);
+    }
+  }).join('');
+
+const blocksToText = (blocks: BlockNode[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        return inlineToText(block.children);
+      case 'code':
+        return block.code;
+      case 'blockquote':
+        return blocksToText(block.children);
+      case 'list':
+        return block.items.map(inlineToText).join(' ');
+    }
+  }).join(' ');
+
+// Strips formatting for one-line previews such as quoted replies
+export const markdownToPlainText = (content: string) =>
+  blocksToText(parseMarkdown(content)).replace(/\s+/g, ' ').trim();
+
+const collectInlineMentions = (nodes: InlineNode[], names: Set<string>) => {
+  nodes.forEach(node => {
+    if (node.type === 'mention') {
+      names.add(node.userName);
+    } else if ('children' in node) {
+      collectInlineMentions(node.children, names);
+    }
+  });
+};
+
+const collectMentions = (blocks: BlockNode[], names: Set<string>) => {
+  blocks.forEach(block => {
+    if (block.type === 'paragraph') {
+      collectInlineMentions(block.children, names);
+    } else if (block.type === 'blockquote') {
+      collectMentions(block.children, names);
+    } else if (block.type === 'list') {
+      block.items.forEach(item => collectInlineMentions(item, names));
+    }
+  });
+};
+
+// Usernames mentioned in a message, ignoring anything inside code
+export function extractMentions(content: string): string[] {
+  const names = new Set<string>();
+  collectMentions(parseMarkdown(content), names);
+  return Array.from(names);
+}
@@ -0,0 +1,87 @@
+import { MessageAttachment } from './supabase';
+
+/*
+  Messages that haven't reached the server yet are kept in IndexedDB so they
+  survive reloads and going offline. Each entry is keyed by the message's
+  client_id, which the server stores with a unique constraint: replaying an
+  entry that was in fact delivered never creates a second message.
+
+  The database is shared by everyone using the browser, so entries record
+  whose they are and are only replayed for that user, and signing out
+  empties the outbox.
+*/
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  client_id: string;
+  room_id: string;
+  user_id: string;
+  user_name: string;
+  content: string;
+  message_type: 'text' | 'attachment';
+  reply_to_id: string | null;
+  attachments: MessageAttachment[] | null;
+  created_at: string;
+  status: OutboxStatus;
+  error?: string;
+}
+
+const DB_NAME = 'global-chat';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'client_id' });
+        store.createIndex('room_id', 'room_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveOutboxEntry = (entry: OutboxEntry) =>
+  runRequest('readwrite', store => store.put(entry)).then(() => undefined);
+
+export const removeOutboxEntry = (clientId: string) =>
+  runRequest('readwrite', store => store.delete(clientId)).then(() => undefined);
+
+export const clearOutbox = () =>
+  runRequest('readwrite', store => store.clear()).then(() => undefined);
+
+// A user's unsent messages in a room, oldest first so they are replayed in order
+export const getOutboxEntries = async (roomId: string, userId: string) => {
+  const entries = await runRequest<OutboxEntry[]>('readonly', store => store.index('room_id').getAll(roomId));
+  return entries
+    .filter(entry => entry.user_id === userId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+export const generateClientId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+        const random = Math.random() * 16 | 0;
+        return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+      });
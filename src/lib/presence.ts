@@ -0,0 +1,31 @@
+import { CustomStatus, PresenceStatus } from './supabase';
+
+export const PRESENCE_STATUS_LABELS: Record<PresenceStatus, string> = {
+  active: 'Active now',
+  idle: 'Idle',
+  away: 'Away',
+  dnd: 'Do not disturb'
+};
+
+export const PRESENCE_STATUS_DOT_CLASSES: Record<PresenceStatus, string> = {
+  active: 'bg-green-500',
+  idle: 'bg-yellow-400',
+  away: 'bg-orange-400',
+  dnd: 'bg-red-500'
+};
+
+// How long a custom status is shown, in minutes; null keeps it until cleared
+export const CUSTOM_STATUS_DURATIONS: { label: string; minutes: number | null }[] = [
+  { label: "Don't clear", minutes: null },
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 240 },
+  { label: '1 day', minutes: 1440 }
+];
+
+// The custom status to show, or null when there is none or it has expired
+export const getActiveCustomStatus = (status?: Partial<CustomStatus> | null) => {
+  if (!status || (!status.status_text && !status.status_emoji)) return null;
+  if (status.status_expires_at && new Date(status.status_expires_at).getTime() <= Date.now()) return null;
+  return status as CustomStatus;
+};
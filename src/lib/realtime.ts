@@ -0,0 +1,588 @@
+import {
+  RealtimeChannel,
+  RealtimePostgresChangesFilter,
+  RealtimePostgresChangesPayload,
+  REALTIME_SUBSCRIBE_STATES
+} from '@supabase/supabase-js';
+import { supabase, realtimeState } from './supabase';
+import { generateClientId } from './outbox';
+
+/*
+  One channel per topic (a room, a user, the lobby) shared by every hook that
+  listens to it. Hooks register their bindings with `subscribeToTopic`; the
+  channel is rebuilt with the combined bindings whenever they change, and
+  re-subscribed with exponential backoff when it drops. Presence tracked on a
+  topic is sent again after every re-subscribe.
+
+  Tabs of the same browser share one set of channels: the leader tab
+  subscribes for every tab and relays events, statuses and presence to the
+  others over a BroadcastChannel, and they forward their broadcasts and
+  tracked presence to it. Leadership is a Web Lock, so when the leader closes
+  or crashes the next tab waiting for it takes over.
+*/
+
+export type ConnectionState = 'connected' | 'connecting' | 'disconnected';
+
+type PostgresChangesEvent = '*' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+// State a client tracks on a topic's presence
+export interface PresenceMeta {
+  user_id: string;
+  user_name: string;
+  online_at: string;
+  // Tab that tracked the state, set by `trackPresence`
+  session_id?: string;
+  [key: string]: unknown;
+}
+
+export type RealtimeBinding =
+  | {
+      type: 'postgres_changes';
+      filter: { event: PostgresChangesEvent; schema: string; table: string; filter?: string };
+      callback: (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => void;
+    }
+  | {
+      type: 'broadcast';
+      event: string;
+      callback: (payload: { payload: Record<string, unknown> }) => void;
+    }
+  | {
+      type: 'presence';
+      // Everyone present on the topic, once per session, after each sync
+      callback: (states: PresenceMeta[]) => void;
+    };
+
+export interface TopicSubscription {
+  bindings: RealtimeBinding[];
+  // Called on every status change of the topic's channel. 'connected' follows
+  // each (re)subscribe, which is when missed changes should be fetched.
+  onStatus?: (status: ConnectionState) => void;
+}
+
+// A binding without its callback, as sent between tabs
+type BindingDescriptor = RealtimeBinding extends infer B
+  ? B extends RealtimeBinding ? Omit<B, 'callback'> : never
+  : never;
+
+// What another tab needs from a topic the leader subscribes to for it
+interface RemoteSession {
+  bindings: BindingDescriptor[];
+  tracked: PresenceMeta | null;
+}
+
+interface ManagedTopic {
+  subscriptions: Set<TopicSubscription>;
+  // Other tabs listening to the topic, by session, on the leader only
+  remote: Map<string, RemoteSession>;
+  channel: RealtimeChannel | null;
+  status: ConnectionState;
+  attempts: number;
+  tracked: PresenceMeta | null;
+  rebuildTimeout?: ReturnType<typeof setTimeout>;
+  // Rebuilds run one after another so a topic never has two live channels
+  rebuilding: Promise<void>;
+}
+
+type TabMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'leader'; from: string }
+  | { type: 'bye'; from: string }
+  // No bindings once the tab stops listening to the topic
+  | { type: 'subscribe'; from: string; topic: string; bindings: BindingDescriptor[] | null }
+  | { type: 'track'; from: string; topic: string; state: PresenceMeta | null }
+  | { type: 'send'; from: string; topic: string; event: string; payload: Record<string, unknown> }
+  | { type: 'reconnect'; from: string }
+  | { type: 'event'; from: string; topic: string; key: string; payload: unknown }
+  | { type: 'status'; from: string; topic: string; status: ConnectionState };
+
+const BASE_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+const TAB_CHANNEL_NAME = 'global-chat-realtime';
+const LEADER_LOCK = 'global-chat-realtime-leader';
+// Each tab holds its own lock for as long as it is open
+const TAB_LOCK_PREFIX = 'global-chat-realtime-tab:';
+// How often the leader checks which followers are still open
+const TAB_CHECK_INTERVAL = 5000;
+
+// Identifies this tab in presence and between tabs
+export const SESSION_ID = generateClientId();
+
+const topics = new Map<string, ManagedTopic>();
+const stateListeners = new Set<(state: ConnectionState) => void>();
+let connectionState: ConnectionState = 'connecting';
+
+const canShareTabs = typeof BroadcastChannel !== 'undefined' &&
+  typeof navigator !== 'undefined' && !!navigator.locks;
+const tabChannel = canShareTabs ? new BroadcastChannel(TAB_CHANNEL_NAME) : null;
+// Without tab sharing every tab subscribes for itself
+let role: 'pending' | 'leader' | 'follower' = tabChannel ? 'pending' : 'leader';
+let leaderId: string | null = null;
+
+export const roomTopic = (roomId: string) => `room:${roomId}`;
+export const userTopic = (userId: string) => `user:${userId}`;
+export const LOBBY_TOPIC = 'lobby';
+
+export const postgresChanges = (
+  filter: Extract<RealtimeBinding, { type: 'postgres_changes' }>['filter'],
+  callback: Extract<RealtimeBinding, { type: 'postgres_changes' }>['callback']
+): RealtimeBinding => ({ type: 'postgres_changes', filter, callback });
+
+export const broadcast = (
+  event: string,
+  callback: Extract<RealtimeBinding, { type: 'broadcast' }>['callback']
+): RealtimeBinding => ({ type: 'broadcast', event, callback });
+
+export const presence = (
+  callback: Extract<RealtimeBinding, { type: 'presence' }>['callback']
+): RealtimeBinding => ({ type: 'presence', callback });
+
+// Bindings with the same key receive the same events, so the channel binds
+// each key once and hands its events to every listener
+const getBindingKey = (binding: BindingDescriptor) => {
+  if (binding.type === 'postgres_changes') {
+    const { event, schema, table, filter } = binding.filter;
+    return `postgres_changes:${event}:${schema}:${table}:${filter || ''}`;
+  }
+  return binding.type === 'broadcast' ? `broadcast:${binding.event}` : 'presence';
+};
+
+const toDescriptor = (binding: RealtimeBinding): BindingDescriptor =>
+  binding.type === 'postgres_changes'
+    ? { type: binding.type, filter: binding.filter }
+    : binding.type === 'broadcast'
+      ? { type: binding.type, event: binding.event }
+      : { type: binding.type };
+
+const postToTabs = (message: TabMessage) => {
+  tabChannel?.postMessage(message);
+};
+
+// Full jitter: a random delay up to the exponential bound, so clients that
+// dropped together don't reconnect together
+const getReconnectDelay = (attempt: number) =>
+  Math.random() * Math.min(MAX_RECONNECT_DELAY, BASE_RECONNECT_DELAY * 2 ** attempt);
+
+const updateConnectionState = () => {
+  const statuses = Array.from(topics.values()).map(topic => topic.status);
+  const next: ConnectionState = statuses.includes('disconnected')
+    ? 'disconnected'
+    : statuses.includes('connecting') ? 'connecting' : 'connected';
+
+  realtimeState.isConnected = next === 'connected';
+  realtimeState.reconnectAttempts = Math.max(0, ...Array.from(topics.values()).map(topic => topic.attempts));
+
+  if (next !== connectionState) {
+    connectionState = next;
+    console.log(`🔌 Realtime connection: ${next}`);
+    stateListeners.forEach(listener => listener(next));
+  }
+};
+
+const setTopicStatus = (name: string, topic: ManagedTopic, status: ConnectionState) => {
+  topic.status = status;
+  if (status === 'connected') {
+    realtimeState.subscriptions.add(name);
+  } else {
+    realtimeState.subscriptions.delete(name);
+  }
+  topic.subscriptions.forEach(subscription => subscription.onStatus?.(status));
+  updateConnectionState();
+
+  if (role === 'leader' && topic.remote.size > 0) {
+    postToTabs({ type: 'status', from: SESSION_ID, topic: name, status });
+  }
+};
+
+const dispatchLocally = (name: string, key: string, payload: unknown) => {
+  topics.get(name)?.subscriptions.forEach(subscription => {
+    subscription.bindings.forEach(binding => {
+      if (getBindingKey(binding) === key) {
+        (binding.callback as (payload: unknown) => void)(payload);
+      }
+    });
+  });
+};
+
+const dispatch = (name: string, topic: ManagedTopic, key: string, payload: unknown) => {
+  dispatchLocally(name, key, payload);
+  if (topic.remote.size > 0) {
+    postToTabs({ type: 'event', from: SESSION_ID, topic: name, key, payload });
+  }
+};
+
+// Tabs of one browser are tracked as a single state listing each session
+const getTrackedState = (topic: ManagedTopic): PresenceMeta | null => {
+  const states = [topic.tracked, ...Array.from(topic.remote.values()).map(session => session.tracked)]
+    .filter((state): state is PresenceMeta => !!state);
+  if (states.length === 0) return null;
+  return states.length === 1 ? states[0] : { ...states[0], sessions: states };
+};
+
+const syncTracked = (topic: ManagedTopic) => {
+  if (!topic.channel || topic.status !== 'connected') return;
+
+  const state = getTrackedState(topic);
+  if (state) {
+    topic.channel.track(state);
+  } else {
+    topic.channel.untrack();
+  }
+};
+
+const bindChannel = (name: string, topic: ManagedTopic, channel: RealtimeChannel, binding: BindingDescriptor) => {
+  const key = getBindingKey(binding);
+  if (binding.type === 'postgres_changes') {
+    channel.on('postgres_changes', binding.filter as RealtimePostgresChangesFilter<'*'>, (payload) => {
+      dispatch(name, topic, key, payload);
+    });
+  } else if (binding.type === 'broadcast') {
+    channel.on('broadcast', { event: binding.event }, (payload) => dispatch(name, topic, key, payload));
+  } else {
+    channel.on('presence', { event: 'sync' }, () => {
+      const states = Object.values(channel.presenceState<PresenceMeta>())
+        .flat()
+        .flatMap(state => (state.sessions as PresenceMeta[] | undefined) || [state]);
+      dispatch(name, topic, key, states);
+    });
+  }
+};
+
+const getTopicBindings = (topic: ManagedTopic) => {
+  const bindings = new Map<string, BindingDescriptor>();
+  topic.subscriptions.forEach(subscription => subscription.bindings.forEach(binding => {
+    bindings.set(getBindingKey(binding), toDescriptor(binding));
+  }));
+  topic.remote.forEach(session => session.bindings.forEach(binding => {
+    bindings.set(getBindingKey(binding), binding);
+  }));
+  return Array.from(bindings.values());
+};
+
+const removeTopicChannel = async (name: string, topic: ManagedTopic) => {
+  const previous = topic.channel;
+  topic.channel = null;
+  realtimeState.channels.delete(name);
+  if (previous) {
+    await supabase.removeChannel(previous);
+  }
+};
+
+const rebuildChannel = async (name: string, topic: ManagedTopic) => {
+  await removeTopicChannel(name, topic);
+
+  // Leadership may have passed to another tab while waiting
+  if (role !== 'leader') return;
+
+  if (topic.subscriptions.size === 0 && topic.remote.size === 0) {
+    topics.delete(name);
+    realtimeState.subscriptions.delete(name);
+    updateConnectionState();
+    return;
+  }
+
+  console.log(`🔄 Subscribing to ${name} for ${topic.subscriptions.size + topic.remote.size} listeners`);
+  const channel = supabase.channel(name, { config: { broadcast: { self: false } } });
+  getTopicBindings(topic).forEach(binding => bindChannel(name, topic, channel, binding));
+  topic.channel = channel;
+  realtimeState.channels.set(name, channel);
+  setTopicStatus(name, topic, 'connecting');
+
+  channel.subscribe((status) => {
+    // Ignore the channel being closed by a newer rebuild
+    if (topic.channel !== channel) return;
+
+    if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+      topic.attempts = 0;
+      setTopicStatus(name, topic, 'connected');
+      syncTracked(topic);
+    } else {
+      console.log(`❌ ${name} subscription ${status}`);
+      setTopicStatus(name, topic, 'disconnected');
+      scheduleReconnect(name, topic);
+    }
+  });
+};
+
+const scheduleRebuild = (name: string, topic: ManagedTopic, delay: number) => {
+  if (topic.rebuildTimeout) {
+    clearTimeout(topic.rebuildTimeout);
+  }
+  topic.rebuildTimeout = setTimeout(() => {
+    topic.rebuildTimeout = undefined;
+    topic.rebuilding = topic.rebuilding
+      .then(() => rebuildChannel(name, topic))
+      .catch(err => console.error(`❌ Failed to subscribe to ${name}:`, err));
+  }, delay);
+};
+
+const scheduleReconnect = (name: string, topic: ManagedTopic) => {
+  if (topic.attempts >= realtimeState.maxReconnectAttempts) {
+    console.log(`🛑 Giving up on ${name} after ${topic.attempts} attempts`);
+    return;
+  }
+
+  const delay = getReconnectDelay(topic.attempts);
+  topic.attempts += 1;
+  updateConnectionState();
+  console.log(`🔄 Reconnecting ${name} in ${Math.round(delay)}ms (attempt ${topic.attempts})`);
+  scheduleRebuild(name, topic, delay);
+};
+
+// Hands a follower's bindings and tracked presence for a topic to the leader
+const registerWithLeader = (name: string, topic: ManagedTopic) => {
+  postToTabs({
+    type: 'subscribe',
+    from: SESSION_ID,
+    topic: name,
+    bindings: topic.subscriptions.size > 0
+      ? Array.from(topic.subscriptions).flatMap(subscription => subscription.bindings.map(toDescriptor))
+      : null
+  });
+  postToTabs({ type: 'track', from: SESSION_ID, topic: name, state: topic.tracked });
+};
+
+// Applies a change in this tab's listeners for a topic
+const syncTopic = (name: string, topic: ManagedTopic) => {
+  if (role === 'leader') {
+    scheduleRebuild(name, topic, 0);
+    return;
+  }
+
+  if (role === 'follower') {
+    registerWithLeader(name, topic);
+  }
+  if (topic.subscriptions.size === 0) {
+    topics.delete(name);
+    updateConnectionState();
+  }
+};
+
+const getOrCreateTopic = (name: string) => {
+  let topic = topics.get(name);
+  if (!topic) {
+    topic = {
+      subscriptions: new Set(),
+      remote: new Map(),
+      channel: null,
+      status: 'connecting',
+      attempts: 0,
+      tracked: null,
+      rebuilding: Promise.resolve()
+    };
+    topics.set(name, topic);
+    updateConnectionState();
+  }
+  return topic;
+};
+
+const becomeLeader = () => {
+  console.log(`👑 Tab ${SESSION_ID} is now the realtime leader`);
+  role = 'leader';
+  leaderId = SESSION_ID;
+  postToTabs({ type: 'leader', from: SESSION_ID });
+  topics.forEach((topic, name) => scheduleRebuild(name, topic, 0));
+};
+
+const followLeader = (id: string) => {
+  if (role === 'leader' || leaderId === id) return;
+
+  role = 'follower';
+  leaderId = id;
+  topics.forEach((topic, name) => {
+    topic.attempts = 0;
+    setTopicStatus(name, topic, 'connecting');
+    registerWithLeader(name, topic);
+  });
+};
+
+const dropFollower = (id: string) => {
+  topics.forEach((topic, name) => {
+    if (!topic.remote.delete(id)) return;
+    scheduleRebuild(name, topic, 0);
+  });
+};
+
+const handleTabMessage = (message: TabMessage) => {
+  if (message.from === SESSION_ID) return;
+
+  switch (message.type) {
+    case 'hello':
+      if (role === 'leader') postToTabs({ type: 'leader', from: SESSION_ID });
+      break;
+
+    case 'leader':
+      followLeader(message.from);
+      break;
+
+    case 'bye':
+      if (message.from === leaderId) {
+        // Another tab picks up the leader lock and announces itself
+        console.log('👋 Realtime leader tab closed');
+        role = 'pending';
+        leaderId = null;
+        topics.forEach((topic, name) => setTopicStatus(name, topic, 'connecting'));
+      } else if (role === 'leader') {
+        dropFollower(message.from);
+      }
+      break;
+
+    case 'subscribe': {
+      if (role !== 'leader') break;
+      const topic = getOrCreateTopic(message.topic);
+      if (message.bindings) {
+        const session = topic.remote.get(message.from);
+        topic.remote.set(message.from, { bindings: message.bindings, tracked: session?.tracked || null });
+      } else {
+        topic.remote.delete(message.from);
+      }
+      scheduleRebuild(message.topic, topic, 0);
+      break;
+    }
+
+    case 'track': {
+      const session = role === 'leader' ? topics.get(message.topic)?.remote.get(message.from) : undefined;
+      if (!session) break;
+      session.tracked = message.state;
+      syncTracked(topics.get(message.topic)!);
+      break;
+    }
+
+    case 'send':
+      if (role === 'leader') sendBroadcast(message.topic, message.event, message.payload);
+      break;
+
+    case 'reconnect':
+      if (role === 'leader') reconnectRealtime();
+      break;
+
+    case 'event':
+      if (message.from === leaderId) dispatchLocally(message.topic, message.key, message.payload);
+      break;
+
+    case 'status': {
+      const topic = topics.get(message.topic);
+      if (message.from === leaderId && topic) setTopicStatus(message.topic, topic, message.status);
+      break;
+    }
+  }
+};
+
+// Registers listeners on a topic and returns a function that removes them.
+// Hooks mounting in the same render share a single subscribe.
+export function subscribeToTopic(name: string, subscription: TopicSubscription) {
+  const managed = getOrCreateTopic(name);
+  managed.subscriptions.add(subscription);
+  syncTopic(name, managed);
+
+  return () => {
+    managed.subscriptions.delete(subscription);
+    syncTopic(name, managed);
+  };
+}
+
+export function sendBroadcast(name: string, event: string, payload: Record<string, unknown>) {
+  if (role === 'follower') {
+    postToTabs({ type: 'send', from: SESSION_ID, topic: name, event, payload });
+    return;
+  }
+
+  const channel = topics.get(name)?.channel;
+  if (!channel) {
+    console.log(`⚠️ Not subscribed to ${name}, dropping ${event}`);
+    return;
+  }
+  channel.send({ type: 'broadcast', event, payload });
+}
+
+// Announces this client on a topic it is subscribed to, until untracked
+export function trackPresence(name: string, state: PresenceMeta) {
+  const topic = topics.get(name);
+  if (!topic) {
+    console.log(`⚠️ Not subscribed to ${name}, can't track presence`);
+    return;
+  }
+
+  topic.tracked = { ...state, session_id: SESSION_ID };
+  if (role === 'follower') {
+    postToTabs({ type: 'track', from: SESSION_ID, topic: name, state: topic.tracked });
+  } else {
+    syncTracked(topic);
+  }
+}
+
+export function untrackPresence(name: string) {
+  const topic = topics.get(name);
+  if (!topic?.tracked) return;
+
+  topic.tracked = null;
+  if (role === 'follower') {
+    postToTabs({ type: 'track', from: SESSION_ID, topic: name, state: null });
+  } else {
+    syncTracked(topic);
+  }
+}
+
+// Retries every topic that is down, including those that ran out of attempts
+export function reconnectRealtime() {
+  if (role === 'follower') {
+    postToTabs({ type: 'reconnect', from: SESSION_ID });
+    return;
+  }
+
+  topics.forEach((topic, name) => {
+    if (topic.status === 'disconnected') {
+      topic.attempts = 0;
+      scheduleRebuild(name, topic, 0);
+    }
+  });
+}
+
+export const getConnectionState = () => connectionState;
+
+export function onConnectionStateChange(listener: (state: ConnectionState) => void) {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    if (role === 'leader') reconnectRealtime();
+  });
+}
+
+// Resolves only when the tab closes, holding the lock until then
+const holdLock = (name: string, onAcquired?: () => void) =>
+  navigator.locks.request(name, () => {
+    onAcquired?.();
+    return new Promise<void>(() => {});
+  });
+
+// Followers that closed without a goodbye no longer hold their tab lock
+const dropClosedFollowers = async () => {
+  if (role !== 'leader') return;
+
+  const { held = [] } = await navigator.locks.query();
+  const openTabs = new Set(held.map(lock => lock.name));
+  const followers = new Set<string>();
+  topics.forEach(topic => topic.remote.forEach((_, id) => followers.add(id)));
+  followers.forEach(id => {
+    if (!openTabs.has(`${TAB_LOCK_PREFIX}${id}`)) dropFollower(id);
+  });
+};
+
+if (tabChannel) {
+  tabChannel.onmessage = (event: MessageEvent<TabMessage>) => handleTabMessage(event.data);
+
+  holdLock(`${TAB_LOCK_PREFIX}${SESSION_ID}`);
+  holdLock(LEADER_LOCK, becomeLeader);
+  setInterval(dropClosedFollowers, TAB_CHECK_INTERVAL);
+
+  window.addEventListener('pagehide', () => {
+    postToTabs({ type: 'bye', from: SESSION_ID });
+  });
+
+  postToTabs({ type: 'hello', from: SESSION_ID });
+}
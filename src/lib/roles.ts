@@ -0,0 +1,27 @@
+import { RoomPermission, RoomRole } from './supabase';
+
+// Mirrors room_role_has_permission() in the database, which has the final say
+export const ROOM_ROLE_PERMISSIONS: Record<RoomRole, RoomPermission[]> = {
+  owner: ['edit_settings', 'moderate_messages', 'moderate_members', 'manage_invites', 'start_calls'],
+  moderator: ['moderate_messages', 'moderate_members', 'manage_invites', 'start_calls'],
+  member: []
+};
+
+export const ROOM_ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  moderator: 'Moderator',
+  member: 'Member'
+};
+
+const ROOM_ROLE_RANKS: Record<RoomRole, number> = {
+  owner: 3,
+  moderator: 2,
+  member: 1
+};
+
+export const hasRoomPermission = (role: RoomRole | null | undefined, permission: RoomPermission) =>
+  !!role && ROOM_ROLE_PERMISSIONS[role].includes(permission);
+
+// Members can only be kicked, banned or timed out by someone with a higher role
+export const canModerateMember = (role: RoomRole | null | undefined, targetRole: RoomRole) =>
+  !!role && hasRoomPermission(role, 'moderate_members') && ROOM_ROLE_RANKS[role] > ROOM_ROLE_RANKS[targetRole];
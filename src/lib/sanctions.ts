@@ -0,0 +1,31 @@
+import { RoomSanction } from './supabase';
+
+// Durations offered to moderators, in minutes; null bans for good
+export const TIMEOUT_DURATIONS = [5, 10, 60, 1440];
+export const BAN_DURATIONS: (number | null)[] = [60, 1440, 10080, null];
+
+export const formatSanctionDuration = (minutes: number | null) => {
+  if (minutes === null) return 'Permanently';
+  if (minutes < 60) return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+  if (minutes < 1440) {
+    const hours = Math.round(minutes / 60);
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  const days = Math.round(minutes / 1440);
+  return `${days} ${days === 1 ? 'day' : 'days'}`;
+};
+
+// PostgREST filter for bans and timeouts still in force; matches has_room_sanction()
+export const activeSanctionFilter = () =>
+  `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
+
+export const isSanctionActive = (sanction: RoomSanction) =>
+  sanction.expires_at === null || new Date(sanction.expires_at).getTime() > Date.now();
+
+export const formatSanctionEnd = (sanction: RoomSanction) => {
+  if (!sanction.expires_at) return 'for good';
+  const expiresAt = new Date(sanction.expires_at);
+  return expiresAt.toDateString() === new Date().toDateString()
+    ? `until ${expiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+    : `until ${expiresAt.toLocaleString()}`;
+};
@@ -0,0 +1,60 @@
+export interface ParsedSearchQuery {
+  text: string;
+  from: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+export const HIGHLIGHT_START = '\u0001';
+export const HIGHLIGHT_END = '\u0002';
+
+const FILTER_PATTERN = /(^|\s)(from|before|after):(?:"([^"]*)"|(\S+))/gi;
+
+// Parses a YYYY-MM-DD date as local midnight, offset by a number of days
+const parseDate = (value: string, dayOffset = 0) => {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + dayOffset);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Splits a search box query into free text and filters:
+ * `from:alice`, `from:"Alice Smith"`, `before:2025-09-01` and `after:2025-09-01`.
+ * `before:` excludes the given day and `after:` starts the day after it.
+ * Anything else, including "quoted phrases", is left for full-text search.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: '', from: null, before: null, after: null };
+
+  const text = input.replace(FILTER_PATTERN, (token, leading: string, key: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? '').trim();
+
+    switch (key.toLowerCase()) {
+      case 'from':
+        parsed.from = value.replace(/^@/, '') || null;
+        return leading;
+      case 'before': {
+        const date = parseDate(value);
+        if (!date) return token;
+        parsed.before = date;
+        return leading;
+      }
+      case 'after': {
+        const date = parseDate(value, 1);
+        if (!date) return token;
+        parsed.after = date;
+        return leading;
+      }
+      default:
+        return token;
+    }
+  });
+
+  parsed.text = text.replace(/\s+/g, ' ').trim();
+  return parsed;
+}
+
+export const isEmptySearch = (query: ParsedSearchQuery) =>
+  !query.text && !query.from && !query.before && !query.after;
@@ -0,0 +1,187 @@
+import { supabase, supabaseUrl, supabaseAnonKey, MessageAttachment, Room } from './supabase';
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+export const DEFAULT_MAX_ATTACHMENT_MB = 10;
+
+// Speaks the Supabase Storage REST API, so any compatible server (such as a
+// local stand-in) can be used by pointing VITE_SUPABASE_STORAGE_URL at it
+const storageUrl = (import.meta.env.VITE_SUPABASE_STORAGE_URL || `${supabaseUrl}/storage/v1`).replace(/\/$/, '');
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+// Signed URLs are valid this long and are renewed a minute before they run out
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const SIGNED_URL_RENEW_MS = 60 * 1000;
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+// Storage checks the signed-in user's access to the room's folder
+const authHeaders = async () => {
+  const { data } = await supabase.auth.getSession();
+  return {
+    Authorization: `Bearer ${data.session?.access_token ?? supabaseAnonKey}`,
+    apikey: supabaseAnonKey
+  };
+};
+
+/**
+ * Resolves attachment paths to signed URLs, since the bucket is private.
+ * URLs are cached until shortly before they expire. Paths the user can't
+ * access are left out of the result.
+ */
+export async function getAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  const now = Date.now();
+  const missing = paths.filter(path => (signedUrls.get(path)?.expiresAt ?? 0) - SIGNED_URL_RENEW_MS <= now);
+
+  if (missing.length > 0) {
+    const response = await fetch(`${storageUrl}/object/sign/${ATTACHMENTS_BUCKET}`, {
+      method: 'POST',
+      headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ expiresIn: SIGNED_URL_TTL_SECONDS, paths: missing })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Signing attachment URLs failed with status ${response.status}`);
+    }
+
+    const signed: { path: string; signedURL: string | null }[] = await response.json();
+    signed.forEach(({ path, signedURL }) => {
+      if (signedURL) {
+        signedUrls.set(path, {
+          url: encodeURI(`${storageUrl}${signedURL}`),
+          expiresAt: now + SIGNED_URL_TTL_SECONDS * 1000
+        });
+      }
+    });
+  }
+
+  const urls: Record<string, string> = {};
+  paths.forEach(path => {
+    const signed = signedUrls.get(path);
+    if (signed) urls[path] = signed.url;
+  });
+  return urls;
+}
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'mime_type'>) =>
+  attachment.mime_type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const matchesType = (mimeType: string, pattern: string) => {
+  const type = mimeType.toLowerCase();
+  const allowed = pattern.toLowerCase();
+  return allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed;
+};
+
+/**
+ * Checks a file against the room's attachment limits. Returns a message
+ * describing the problem, or null if the file can be uploaded. The same
+ * limits are enforced by the database when the message is sent.
+ */
+export function validateAttachment(file: File, room: Room): string | null {
+  const maxMb = room.max_attachment_mb ?? DEFAULT_MAX_ATTACHMENT_MB;
+  if (file.size > maxMb * 1024 * 1024) {
+    return `${file.name} is larger than ${maxMb} MB`;
+  }
+
+  const mimeType = file.type || 'application/octet-stream';
+  if (room.allowed_attachment_types && !room.allowed_attachment_types.some(pattern => matchesType(mimeType, pattern))) {
+    return `${file.name} is not an allowed file type in this room`;
+  }
+
+  return null;
+}
+
+const readImageSize = (file: File) =>
+  new Promise<{ width: number; height: number } | null>(resolve => {
+    if (!file.type.startsWith('image/')) {
+      resolve(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    image.onerror = () => {
+      resolve(null);
+      URL.revokeObjectURL(url);
+    };
+    image.src = url;
+  });
+
+export interface AttachmentUpload {
+  promise: Promise<MessageAttachment>;
+  abort: () => void;
+}
+
+/**
+ * Uploads a file into the room's folder of the attachments bucket. Uses
+ * XMLHttpRequest rather than supabase-js so upload progress can be reported.
+ */
+export function uploadAttachment(
+  roomId: string,
+  file: File,
+  onProgress?: (progress: number) => void
+): AttachmentUpload {
+  const xhr = new XMLHttpRequest();
+  let aborted = false;
+  const safeName = file.name.replace(/[^\w.-]+/g, '_') || 'file';
+  const path = `${roomId}/${crypto.randomUUID()}/${safeName}`;
+  const mimeType = file.type || 'application/octet-stream';
+
+  const upload = authHeaders().then(headers => new Promise<void>((resolve, reject) => {
+    if (aborted) {
+      reject(new Error('Upload cancelled'));
+      return;
+    }
+
+    xhr.open('POST', `${storageUrl}/object/${ATTACHMENTS_BUCKET}/${encodePath(path)}`);
+    xhr.setRequestHeader('Authorization', headers.Authorization);
+    xhr.setRequestHeader('apikey', headers.apikey);
+    xhr.setRequestHeader('Content-Type', mimeType);
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.onabort = () => reject(new Error('Upload cancelled'));
+
+    xhr.send(file);
+  }));
+
+  const promise = Promise.all([upload, readImageSize(file)]).then(([, size]) => ({
+    path,
+    name: file.name,
+    size: file.size,
+    mime_type: mimeType,
+    ...(size || {})
+  }));
+
+  return {
+    promise,
+    abort: () => {
+      aborted = true;
+      xhr.abort();
+    }
+  };
+}
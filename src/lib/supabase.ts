@@ -1,7 +1,20 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, RealtimeChannel } from '@supabase/supabase-js';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'YOUR_SUPABASE_URL';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'YOUR_SUPABASE_ANON_KEY';
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'YOUR_SUPABASE_URL';
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'YOUR_SUPABASE_ANON_KEY';
+
+// Auth requests go to VITE_SUPABASE_AUTH_URL when it is set, so a local stand-in
+// speaking the Supabase Auth API can be used instead of the hosted service
+const authUrl = import.meta.env.VITE_SUPABASE_AUTH_URL?.replace(/\/$/, '');
+const defaultAuthUrl = `${supabaseUrl.replace(/\/$/, '')}/auth/v1`;
+
+const fetchWithAuthUrl: typeof fetch = (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  if (authUrl && url.startsWith(defaultAuthUrl)) {
+    return fetch(authUrl + url.slice(defaultAuthUrl.length), init);
+  }
+  return fetch(input, init);
+};
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   realtime: {
@@ -10,10 +23,22 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     },
   },
   auth: {
-    persistSession: false
+    persistSession: true,
+    autoRefreshToken: true
+  },
+  global: {
+    fetch: fetchWithAuthUrl
   }
 });
 
+// Public profile of an auth user; display names are unique ignoring case
+export interface Profile {
+  id: string;
+  display_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export type RoomType = 'public' | 'private' | 'password';
 
 export interface Room {
@@ -21,48 +46,196 @@ export interface Room {
   name: string;
   type: RoomType;
   description?: string;
-  password_hash?: string;
   max_users?: number;
+  // Number of members; who is online comes from presence
   current_users: number;
+  // Display name of the owner, kept in step when they rename
   created_by: string;
+  owner_id?: string | null;
   created_at: string;
   is_active: boolean;
+  edit_window_minutes?: number | null;
+  max_attachment_mb?: number;
+  allowed_attachment_types?: string[] | null;
+  updated_by?: string | null;
 }
 
 export interface Message {
   id: string;
   room_id: string;
+  // Author's profile, null for system messages and messages from before accounts
+  user_id?: string | null;
+  // Author's display name, kept in step with their profile
   user_name: string;
   content: string;
   created_at: string;
-  message_type?: 'text' | 'system';
+  message_type?: 'text' | 'system' | 'attachment';
+  reply_to_id?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  attachments?: MessageAttachment[] | null;
+  // Only set on system messages, which are written by database triggers
+  metadata?: SystemMessageMetadata | null;
+  // Idempotency key generated by the sender, also the render key so an optimistic
+  // message keeps its row when it is swapped for the stored one
+  client_id?: string | null;
+  // Client-only delivery state of messages waiting in the outbox
+  send_status?: 'pending' | 'failed';
+}
+
+export type SystemEventType =
+  | 'member_joined'
+  | 'member_left'
+  | 'room_updated'
+  | 'call_started'
+  | 'call_ended'
+  | 'role_changed'
+  | 'member_kicked'
+  | 'member_banned'
+  | 'member_timed_out'
+  | 'sanction_lifted';
+
+export interface SystemMessageMetadata {
+  event: SystemEventType;
+  // Settings that changed, for room_updated
+  changes?: string[];
+  // For call_ended
+  duration_seconds?: number;
+  // Who got which role, for role_changed
+  user_name?: string;
+  role?: RoomRole;
+  // For member_banned and member_timed_out; bans without it are permanent
+  duration_minutes?: number;
+}
+
+export interface MessageAttachment {
+  // Object path inside the attachments bucket: <room_id>/<uuid>/<file name>
+  path: string;
+  name: string;
+  size: number;
+  mime_type: string;
+  width?: number;
+  height?: number;
+}
+
+export interface MessageSearchResult extends Message {
+  // Matched words are wrapped in \u0001 ... \u0002
+  snippet: string;
+}
+
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_at: string;
+}
+
+export interface MessageReaction {
+  message_id: string;
+  room_id: string;
+  user_id: string;
+  user_name: string;
+  emoji: string;
+  created_at: string;
 }
 
+export interface MessageMention {
+  message_id: string;
+  room_id: string;
+  mentioned_user_id: string;
+  mentioned_user: string;
+  mentioned_by: string;
+  created_at: string;
+  read_at?: string;
+  message?: Pick<Message, 'id' | 'content' | 'deleted_at'>;
+  room?: Pick<Room, 'id' | 'name'>;
+}
+
+export interface RoomReadState {
+  room_id: string;
+  user_id: string;
+  user_name: string;
+  last_read_message_id: string | null;
+  // Creation time of the last read message
+  last_read_at: string;
+  updated_at: string;
+}
+
+// Every room has exactly one owner; see src/lib/roles.ts for what each role may do
+export type RoomRole = 'owner' | 'moderator' | 'member';
+
+export type RoomPermission = 'edit_settings' | 'moderate_messages' | 'moderate_members' | 'manage_invites' | 'start_calls';
+
 export interface RoomParticipant {
   room_id: string;
+  user_id: string;
   user_name: string;
   joined_at: string;
-  is_admin: boolean;
+  role: RoomRole;
 }
 
-export interface TypingIndicator {
+export type SanctionKind = 'kick' | 'ban' | 'timeout';
+
+// Visible to the sanctioned user and to the room's owner and moderators
+export interface RoomSanction {
+  id: string;
   room_id: string;
+  user_id: string;
   user_name: string;
-  is_typing: boolean;
-  last_typed: string;
+  kind: SanctionKind;
+  created_by: string | null;
+  created_at: string;
+  // Null for permanent bans; kicks expire right away
+  expires_at: string | null;
+  lifted_by: string | null;
 }
 
-export interface UserPresence {
+// Only visible to room owners and moderators; the token is the secret part of the invite link
+export interface RoomInvite {
+  id: string;
+  room_id: string;
+  token: string;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  uses: number;
+}
+
+// Live state of an online user: idle after a while without input, away while
+// the tab is hidden, dnd when chosen by the user
+export type PresenceStatus = 'active' | 'idle' | 'away' | 'dnd';
+
+export interface CustomStatus {
+  status_text: string | null;
+  status_emoji: string | null;
+  status_expires_at: string | null;
+}
+
+export interface UserPresence extends Partial<CustomStatus> {
+  user_id?: string;
   user_name: string;
   is_online: boolean;
   last_seen: string;
   current_room_id?: string;
+  status?: PresenceStatus;
+  do_not_disturb?: boolean;
+}
+
+// What a user in a room is doing right now, sent over broadcast and never stored
+export type TypingActivity = 'typing' | 'uploading' | 'recording';
+
+export interface TypingUser {
+  user_name: string;
+  activity: TypingActivity;
 }
 
-// Global state for real-time updates
+// Global state for real-time updates, maintained by the connection manager in ./realtime
 export const realtimeState = {
-  channels: new Map(),
-  subscriptions: new Set(),
+  // Live channel per topic
+  channels: new Map<string, RealtimeChannel>(),
+  // Topics whose channel is currently subscribed
+  subscriptions: new Set<string>(),
   isConnected: false,
   reconnectAttempts: 0,
   maxReconnectAttempts: 5
@@ -0,0 +1,27 @@
+/*
+  # Threaded Replies
+
+  1. Modified Tables
+    - `messages`
+      - `reply_to_id` (uuid, optional reference to the parent message)
+
+  2. Behaviour
+    - Deleting a parent message keeps its replies and clears the link
+    - Replies are indexed by parent so thread panels load quickly
+*/
+
+-- Add reply_to_id column to messages table if it doesn't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'reply_to_id'
+  ) THEN
+    ALTER TABLE messages
+      ADD COLUMN reply_to_id uuid REFERENCES messages(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to
+  ON messages(reply_to_id, created_at)
+  WHERE reply_to_id IS NOT NULL;
@@ -0,0 +1,61 @@
+/*
+  # Message Reactions
+
+  1. New Tables
+    - `message_reactions`
+      - `message_id` (uuid, foreign key to messages)
+      - `room_id` (uuid, foreign key to rooms, used to scope realtime updates)
+      - `user_name` (text, reacting username)
+      - `emoji` (text, the reaction)
+      - `created_at` (timestamp)
+      - Primary key: (message_id, user_name, emoji)
+
+  2. Security
+    - Enable RLS on `message_reactions`
+    - Anyone can view, add and remove reactions
+
+  3. Real-time
+    - Full replica identity so DELETE events carry the room and emoji
+    - Table added to the realtime publication
+*/
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  user_name text NOT NULL,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (message_id, user_name, emoji)
+);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reactions"
+  ON message_reactions
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can add reactions"
+  ON message_reactions
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can remove reactions"
+  ON message_reactions
+  FOR DELETE
+  TO public
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_room
+  ON message_reactions(room_id, message_id);
+
+ALTER TABLE message_reactions REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+  END IF;
+END $$;
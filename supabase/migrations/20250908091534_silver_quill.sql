@@ -0,0 +1,128 @@
+/*
+  # Message Editing and Deletion
+
+  1. Modified Tables
+    - `messages`
+      - `edited_at` (timestamp, set when the content last changed)
+      - `deleted_at` (timestamp, set when the message was retracted)
+    - `rooms`
+      - `edit_window_minutes` (integer, how long messages stay editable; NULL for no limit)
+
+  2. New Tables
+    - `message_edits`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, foreign key to messages)
+      - `previous_content` (text, content before the edit)
+      - `edited_at` (timestamp)
+
+  3. Behaviour
+    - Edits are recorded in `message_edits` and rejected once the room's edit window has passed
+    - Deleting a message keeps a tombstone row: content and edit history are cleared
+    - Deleted messages can no longer be changed
+    - Room, author and creation time of a message are immutable
+
+  4. Security
+    - Enable RLS on `message_edits`, history is written only by the trigger
+    - Add update policy on `messages`
+*/
+
+-- Add edit/delete columns to messages table if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'edited_at'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN edited_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'deleted_at'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN deleted_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rooms' AND column_name = 'edit_window_minutes'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN edit_window_minutes integer DEFAULT 15
+      CHECK (edit_window_minutes IS NULL OR edit_window_minutes >= 0);
+  END IF;
+END $$;
+
+-- Create message edit history table
+CREATE TABLE IF NOT EXISTS message_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE,
+  previous_content text NOT NULL,
+  edited_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view edit history"
+  ON message_edits
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can edit messages"
+  ON messages
+  FOR UPDATE
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message
+  ON message_edits(message_id, edited_at DESC);
+
+-- Validate edits and deletions, and keep the edit history
+CREATE OR REPLACE FUNCTION handle_message_update()
+RETURNS trigger AS $$
+DECLARE
+  v_edit_window integer;
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  NEW.room_id := OLD.room_id;
+  NEW.user_name := OLD.user_name;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    SELECT edit_window_minutes INTO v_edit_window
+    FROM rooms
+    WHERE id = OLD.room_id;
+
+    IF v_edit_window IS NOT NULL
+      AND now() > OLD.created_at + make_interval(mins => v_edit_window) THEN
+      RAISE EXCEPTION 'The edit window for this message has expired';
+    END IF;
+
+    INSERT INTO message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_handle_message_update ON messages;
+CREATE TRIGGER trigger_handle_message_update
+  BEFORE UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION handle_message_update();
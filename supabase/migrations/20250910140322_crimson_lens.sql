@@ -0,0 +1,87 @@
+/*
+  # Full-Text Message Search
+
+  1. New Indexes
+    - `idx_messages_content_search` - GIN expression index over `to_tsvector('simple', content)`
+
+  2. New Functions
+    - `search_messages` - searches a room's messages
+      - `p_query` uses web search syntax: plain words, "quoted phrases", `or` and `-excluded` words
+      - `p_user_name`, `p_before` and `p_after` narrow results by author and creation time
+      - Returns matches newest first with a highlighted `snippet`; matched words are wrapped
+        in the control characters U+0001 and U+0002 so the client can mark them up safely
+
+  3. Notes
+    - The `simple` text search configuration is used so that search behaves the same for
+      every language spoken in a room (no stemming or stop words)
+    - Deleted messages are never returned
+*/
+
+-- Index the text search vector as an expression rather than a stored column, so that
+-- message rows and realtime payloads don't carry a tsvector each
+CREATE INDEX IF NOT EXISTS idx_messages_content_search
+  ON messages USING GIN (to_tsvector('simple'::regconfig, coalesce(content, '')));
+
+-- Function to search messages in a room
+CREATE OR REPLACE FUNCTION search_messages(
+  p_room_id uuid,
+  p_query text DEFAULT '',
+  p_user_name text DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL,
+  p_after timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  room_id uuid,
+  user_name text,
+  content text,
+  created_at timestamptz,
+  message_type text,
+  reply_to_id uuid,
+  edited_at timestamptz,
+  snippet text
+) AS $$
+DECLARE
+  v_query tsquery;
+BEGIN
+  IF coalesce(trim(p_query), '') <> '' THEN
+    v_query := websearch_to_tsquery('simple'::regconfig, p_query);
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.room_id,
+    m.user_name,
+    m.content,
+    m.created_at,
+    m.message_type,
+    m.reply_to_id,
+    m.edited_at,
+    CASE
+      WHEN v_query IS NULL THEN left(m.content, 200)
+      ELSE ts_headline(
+        'simple'::regconfig,
+        m.content,
+        v_query,
+        format(
+          'StartSel="%s", StopSel="%s", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "',
+          chr(1),
+          chr(2)
+        )
+      )
+    END
+  FROM messages m
+  WHERE m.room_id = p_room_id
+    AND m.deleted_at IS NULL
+    AND (v_query IS NULL OR to_tsvector('simple'::regconfig, coalesce(m.content, '')) @@ v_query)
+    AND (p_user_name IS NULL OR lower(m.user_name) = lower(p_user_name))
+    AND (p_before IS NULL OR m.created_at < p_before)
+    AND (p_after IS NULL OR m.created_at >= p_after)
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT least(greatest(p_limit, 1), 100)
+  OFFSET greatest(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
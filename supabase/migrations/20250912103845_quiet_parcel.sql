@@ -0,0 +1,197 @@
+/*
+  # Message Attachments
+
+  1. Modified Tables
+    - `messages`
+      - `attachments` (jsonb, array of uploaded files: path, name, size, mime_type and
+        optional width/height for images)
+      - `message_type` gains the `attachment` value
+    - `rooms`
+      - `max_attachment_mb` (integer, largest file accepted in the room)
+      - `allowed_attachment_types` (text[], MIME types such as `image/*` or `application/pdf`;
+        NULL allows every type)
+
+  2. Storage
+    - Public `attachments` bucket, files are stored under `<room_id>/<uuid>/<file name>`
+
+  3. Behaviour
+    - Attachments are validated against the room's limits when a message is sent, using the
+      size and MIME type storage recorded for the uploaded file rather than the ones the
+      client wrote into the message; files that were never uploaded are rejected
+    - At most 10 attachments per message
+    - Attachments can't be changed after sending and are cleared when the message is deleted
+
+  4. Security
+    - Anyone can upload to and read from the `attachments` bucket
+*/
+
+-- Add attachment columns if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'attachments'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN attachments jsonb
+      CHECK (attachments IS NULL OR jsonb_typeof(attachments) = 'array');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rooms' AND column_name = 'max_attachment_mb'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN max_attachment_mb integer DEFAULT 10
+      CHECK (max_attachment_mb > 0 AND max_attachment_mb <= 50);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rooms' AND column_name = 'allowed_attachment_types'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN allowed_attachment_types text[]
+      DEFAULT ARRAY['image/*', 'video/*', 'audio/*', 'application/pdf', 'text/plain', 'application/zip'];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'messages' AND constraint_name = 'messages_message_type_check'
+  ) THEN
+    ALTER TABLE messages ADD CONSTRAINT messages_message_type_check
+      CHECK (message_type IN ('text', 'system', 'attachment'));
+  END IF;
+END $$;
+
+-- Create storage bucket for attachments (50 MB is the hard upper limit)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', true, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can upload attachments"
+  ON storage.objects
+  FOR INSERT
+  TO public
+  WITH CHECK (bucket_id = 'attachments');
+
+CREATE POLICY "Anyone can view attachments"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'attachments');
+
+-- Check attachments against the room's size and type limits
+CREATE OR REPLACE FUNCTION validate_message_attachments()
+RETURNS trigger AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_attachment jsonb;
+  v_metadata jsonb;
+  v_size bigint;
+  v_mime_type text;
+  v_checked jsonb := '[]'::jsonb;
+BEGIN
+  IF NEW.attachments IS NULL OR jsonb_array_length(NEW.attachments) = 0 THEN
+    NEW.attachments := NULL;
+    IF NEW.message_type = 'attachment' THEN
+      RAISE EXCEPTION 'Attachment messages need at least one attachment';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_array_length(NEW.attachments) > 10 THEN
+    RAISE EXCEPTION 'A message can have at most 10 attachments';
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = NEW.room_id;
+
+  FOR v_attachment IN SELECT * FROM jsonb_array_elements(NEW.attachments)
+  LOOP
+    IF coalesce(v_attachment->>'path', '') NOT LIKE NEW.room_id::text || '/%' THEN
+      RAISE EXCEPTION 'Attachment does not belong to this room';
+    END IF;
+
+    SELECT o.metadata INTO v_metadata
+    FROM storage.objects o
+    WHERE o.bucket_id = 'attachments' AND o.name = v_attachment->>'path';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Attachment % has not been uploaded', v_attachment->>'name';
+    END IF;
+
+    v_size := coalesce((v_metadata->>'size')::bigint, 0);
+    v_mime_type := lower(coalesce(v_metadata->>'mimetype', 'application/octet-stream'));
+
+    IF v_size > coalesce(v_room.max_attachment_mb, 10)::bigint * 1024 * 1024 THEN
+      RAISE EXCEPTION 'Attachment % exceeds the % MB limit of this room',
+        v_attachment->>'name', coalesce(v_room.max_attachment_mb, 10);
+    END IF;
+
+    IF v_room.allowed_attachment_types IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM unnest(v_room.allowed_attachment_types) AS allowed(pattern)
+      WHERE v_mime_type = lower(allowed.pattern)
+        OR (allowed.pattern LIKE '%/*' AND v_mime_type LIKE lower(left(allowed.pattern, -1)) || '%')
+    ) THEN
+      RAISE EXCEPTION 'Attachments of type % are not allowed in this room', v_mime_type;
+    END IF;
+
+    v_checked := v_checked || jsonb_build_array(
+      v_attachment || jsonb_build_object('size', v_size, 'mime_type', v_mime_type)
+    );
+  END LOOP;
+
+  NEW.attachments := v_checked;
+  NEW.message_type := 'attachment';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_validate_message_attachments ON messages;
+CREATE TRIGGER trigger_validate_message_attachments
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION validate_message_attachments();
+
+-- Keep attachments fixed once sent and drop them along with deleted messages
+CREATE OR REPLACE FUNCTION handle_message_update()
+RETURNS trigger AS $$
+DECLARE
+  v_edit_window integer;
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  NEW.room_id := OLD.room_id;
+  NEW.user_name := OLD.user_name;
+  NEW.created_at := OLD.created_at;
+  NEW.message_type := OLD.message_type;
+  NEW.attachments := OLD.attachments;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.attachments := NULL;
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    SELECT edit_window_minutes INTO v_edit_window
+    FROM rooms
+    WHERE id = OLD.room_id;
+
+    IF v_edit_window IS NOT NULL
+      AND now() > OLD.created_at + make_interval(mins => v_edit_window) THEN
+      RAISE EXCEPTION 'The edit window for this message has expired';
+    END IF;
+
+    INSERT INTO message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
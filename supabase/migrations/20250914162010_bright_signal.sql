@@ -0,0 +1,101 @@
+/*
+  # Message Mentions
+
+  1. New Tables
+    - `message_mentions`
+      - `message_id` (uuid, foreign key to messages)
+      - `room_id` (uuid, foreign key to rooms)
+      - `mentioned_user` (text, username that was mentioned)
+      - `mentioned_by` (text, author of the message)
+      - `created_at` (timestamp)
+      - `read_at` (timestamp, set once the mention has been seen)
+      - Primary key: (message_id, mentioned_user)
+
+  2. Behaviour
+    - Mentions are written in messages as `@[username]`
+    - A trigger records a mention for every participant of the room named in a new or
+      edited message; mentions inside code are ignored and authors never mention themselves
+    - Mentions are removed when their message is deleted
+
+  3. Security
+    - Enable RLS on `message_mentions`, rows are only written by the trigger
+    - Anyone can view mentions and mark them as read
+
+  4. Real-time
+    - Full replica identity so DELETE events carry the mentioned user
+    - Table added to the realtime publication
+*/
+
+CREATE TABLE IF NOT EXISTS message_mentions (
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  mentioned_user text NOT NULL,
+  mentioned_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz,
+  PRIMARY KEY (message_id, mentioned_user)
+);
+
+ALTER TABLE message_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view mentions"
+  ON message_mentions
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can mark mentions as read"
+  ON message_mentions
+  FOR UPDATE
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user
+  ON message_mentions(mentioned_user, created_at DESC);
+
+-- Record mentions of room participants in new and edited messages
+CREATE OR REPLACE FUNCTION record_message_mentions()
+RETURNS trigger AS $$
+DECLARE
+  v_content text;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    DELETE FROM message_mentions WHERE message_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  -- Drop fenced and inline code first so snippets don't notify anyone
+  v_content := regexp_replace(NEW.content, '```.*?(```|$)', '', 'g');
+  v_content := regexp_replace(v_content, '`[^`\n]+`', '', 'g');
+
+  INSERT INTO message_mentions (message_id, room_id, mentioned_user, mentioned_by, created_at)
+  SELECT DISTINCT NEW.id, NEW.room_id, rp.user_name, NEW.user_name, NEW.created_at
+  FROM regexp_matches(v_content, '@\[([^]\n]{1,50})\]', 'g') AS mention(names)
+  JOIN room_participants rp
+    ON rp.room_id = NEW.room_id
+    AND lower(rp.user_name) = lower(mention.names[1])
+  WHERE rp.user_name <> NEW.user_name
+  ON CONFLICT (message_id, mentioned_user) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_record_message_mentions ON messages;
+CREATE TRIGGER trigger_record_message_mentions
+  AFTER INSERT OR UPDATE OF content, deleted_at ON messages
+  FOR EACH ROW EXECUTE FUNCTION record_message_mentions();
+
+ALTER TABLE message_mentions REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE message_mentions;
+  END IF;
+END $$;
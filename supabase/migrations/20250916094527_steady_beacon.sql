@@ -0,0 +1,268 @@
+/*
+  # System Messages
+
+  1. Modified Tables
+    - `messages`
+      - `metadata` (jsonb, structured details of system messages such as
+        `{ "event": "member_joined" }`)
+    - `rooms`
+      - `updated_by` (text, user who last changed the room settings)
+
+  2. New Tables
+    - `call_participants`
+      - `room_id` (uuid, foreign key to rooms)
+      - `user_name` (text)
+      - `joined_at` (timestamp)
+      - Primary key: (room_id, user_name)
+
+  3. Behaviour
+    - System messages are written by triggers only:
+      - `member_joined` / `member_left` when a participant joins or leaves a room. Leaving and
+        rejoining within two minutes (e.g. a page reload) removes the leave message instead
+      - `room_updated` when the name, description or limits of a room change
+      - `call_started` when the first user joins a call and `call_ended` when the last one leaves
+    - Clients can't send, edit or delete system messages and can't set `metadata`
+
+  4. Security
+    - Enable RLS on `call_participants`
+    - Anyone can view, join and leave calls
+
+  5. Real-time
+    - `call_participants` added to the realtime publication
+*/
+
+-- Add columns if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'metadata'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN metadata jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rooms' AND column_name = 'updated_by'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN updated_by text;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS call_participants (
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  user_name text NOT NULL,
+  joined_at timestamptz DEFAULT now(),
+  PRIMARY KEY (room_id, user_name)
+);
+
+ALTER TABLE call_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view call participants"
+  ON call_participants
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can join calls"
+  ON call_participants
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can leave calls"
+  ON call_participants
+  FOR DELETE
+  TO public
+  USING (true);
+
+-- Only triggers may write system messages. Their inserts run nested inside another
+-- trigger, while anything sent by a client arrives at the top level.
+CREATE OR REPLACE FUNCTION protect_system_messages()
+RETURNS trigger AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.message_type = 'system' THEN
+      RAISE EXCEPTION 'System messages cannot be sent by clients';
+    END IF;
+    NEW.metadata := NULL;
+  ELSE
+    IF OLD.message_type = 'system' THEN
+      RAISE EXCEPTION 'System messages cannot be changed';
+    END IF;
+    NEW.metadata := OLD.metadata;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_system_messages ON messages;
+CREATE TRIGGER trigger_protect_system_messages
+  BEFORE INSERT OR UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION protect_system_messages();
+
+CREATE OR REPLACE FUNCTION post_system_message(
+  p_room_id uuid,
+  p_user_name text,
+  p_content text,
+  p_metadata jsonb
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO messages (room_id, user_name, content, message_type, metadata)
+  VALUES (p_room_id, p_user_name, p_content, 'system', p_metadata);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION post_system_message(uuid, text, text, jsonb) FROM PUBLIC;
+
+-- Join and leave events
+CREATE OR REPLACE FUNCTION post_membership_message()
+RETURNS trigger AS $$
+DECLARE
+  v_last messages%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO v_last
+    FROM messages
+    WHERE room_id = NEW.room_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- A quick rejoin just cancels the leave message
+    IF v_last.message_type = 'system'
+      AND v_last.user_name = NEW.user_name
+      AND v_last.metadata->>'event' = 'member_left'
+      AND v_last.created_at > now() - interval '2 minutes' THEN
+      DELETE FROM messages WHERE id = v_last.id;
+      RETURN NEW;
+    END IF;
+
+    PERFORM post_system_message(
+      NEW.room_id, NEW.user_name, NEW.user_name || ' joined the room',
+      jsonb_build_object('event', 'member_joined')
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Skip leave messages for rooms that are being deleted
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = OLD.room_id) THEN
+    PERFORM post_system_message(
+      OLD.room_id, OLD.user_name, OLD.user_name || ' left the room',
+      jsonb_build_object('event', 'member_left')
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_post_membership_message ON room_participants;
+CREATE TRIGGER trigger_post_membership_message
+  AFTER INSERT OR DELETE ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION post_membership_message();
+
+-- Room setting changes, the participant counter and other bookkeeping are ignored
+CREATE OR REPLACE FUNCTION post_room_update_message()
+RETURNS trigger AS $$
+DECLARE
+  v_changes text[] := ARRAY[]::text[];
+  v_actor text := COALESCE(NEW.updated_by, NEW.created_by);
+  v_content text;
+BEGIN
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    v_changes := array_append(v_changes, 'description');
+  END IF;
+  IF NEW.max_users IS DISTINCT FROM OLD.max_users THEN
+    v_changes := array_append(v_changes, 'member limit');
+  END IF;
+  IF NEW.password_hash IS DISTINCT FROM OLD.password_hash THEN
+    v_changes := array_append(v_changes, 'password');
+  END IF;
+  IF NEW.edit_window_minutes IS DISTINCT FROM OLD.edit_window_minutes THEN
+    v_changes := array_append(v_changes, 'edit window');
+  END IF;
+  IF NEW.max_attachment_mb IS DISTINCT FROM OLD.max_attachment_mb
+    OR NEW.allowed_attachment_types IS DISTINCT FROM OLD.allowed_attachment_types THEN
+    v_changes := array_append(v_changes, 'attachment rules');
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    v_content := v_actor || ' renamed the room to "' || NEW.name || '"';
+    IF array_length(v_changes, 1) > 0 THEN
+      v_content := v_content || ' and updated the ' || array_to_string(v_changes, ', ');
+    END IF;
+    v_changes := array_prepend('name', v_changes);
+  ELSIF array_length(v_changes, 1) > 0 THEN
+    v_content := v_actor || ' updated the ' || array_to_string(v_changes, ', ');
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM post_system_message(
+    NEW.id, v_actor, v_content,
+    jsonb_build_object('event', 'room_updated', 'changes', to_jsonb(v_changes))
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_post_room_update_message ON rooms;
+CREATE TRIGGER trigger_post_room_update_message
+  AFTER UPDATE OF name, description, max_users, password_hash, edit_window_minutes,
+    max_attachment_mb, allowed_attachment_types ON rooms
+  FOR EACH ROW EXECUTE FUNCTION post_room_update_message();
+
+-- A call starts with its first participant and ends with its last
+CREATE OR REPLACE FUNCTION post_call_message()
+RETURNS trigger AS $$
+DECLARE
+  v_started_at timestamptz;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF (SELECT COUNT(*) FROM call_participants WHERE room_id = NEW.room_id) = 1 THEN
+      PERFORM post_system_message(
+        NEW.room_id, NEW.user_name, NEW.user_name || ' started a call',
+        jsonb_build_object('event', 'call_started')
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM call_participants WHERE room_id = OLD.room_id)
+    AND EXISTS (SELECT 1 FROM rooms WHERE id = OLD.room_id) THEN
+    SELECT created_at INTO v_started_at
+    FROM messages
+    WHERE room_id = OLD.room_id
+      AND message_type = 'system'
+      AND metadata->>'event' = 'call_started'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    PERFORM post_system_message(
+      OLD.room_id, OLD.user_name, 'Call ended',
+      jsonb_build_object(
+        'event', 'call_ended',
+        'duration_seconds', floor(extract(epoch FROM now() - COALESCE(v_started_at, OLD.joined_at)))
+      )
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_post_call_message ON call_participants;
+CREATE TRIGGER trigger_post_call_message
+  AFTER INSERT OR DELETE ON call_participants
+  FOR EACH ROW EXECUTE FUNCTION post_call_message();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE call_participants;
+  END IF;
+END $$;
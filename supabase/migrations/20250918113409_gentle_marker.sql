@@ -0,0 +1,129 @@
+/*
+  # Read Receipts
+
+  1. New Tables
+    - `room_read_states`
+      - `room_id` (uuid, foreign key to rooms)
+      - `user_name` (text)
+      - `last_read_message_id` (uuid, foreign key to messages, newest message the user has seen)
+      - `last_read_at` (timestamp, creation time of that message)
+      - `updated_at` (timestamp)
+      - Primary key: (room_id, user_name)
+
+  2. Functions
+    - `get_unread_counts(p_user_name)` returns the number of unread messages per room for
+      every room the user has read before. Own messages and system messages don't count.
+
+  3. Behaviour
+    - `last_read_at` is taken from the message, so clients only send the message id
+    - Read positions never move backwards, an older message leaves the state unchanged
+
+  4. Security
+    - Enable RLS on `room_read_states`
+    - Anyone can view read states and record their own
+
+  5. Real-time
+    - Table added to the realtime publication for "Seen by" indicators
+*/
+
+CREATE TABLE IF NOT EXISTS room_read_states (
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  user_name text NOT NULL,
+  last_read_message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (room_id, user_name)
+);
+
+ALTER TABLE room_read_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view read states"
+  ON room_read_states
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can create read states"
+  ON room_read_states
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update read states"
+  ON room_read_states
+  FOR UPDATE
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_room_read_states_user
+  ON room_read_states(user_name);
+
+-- Derive the read time from the message and keep read positions moving forward
+CREATE OR REPLACE FUNCTION set_room_read_position()
+RETURNS trigger AS $$
+DECLARE
+  v_created_at timestamptz;
+BEGIN
+  IF NEW.last_read_message_id IS NULL THEN
+    IF TG_OP = 'UPDATE' THEN
+      NEW.last_read_message_id := OLD.last_read_message_id;
+      NEW.last_read_at := OLD.last_read_at;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT created_at INTO v_created_at
+  FROM messages
+  WHERE id = NEW.last_read_message_id AND room_id = NEW.room_id;
+
+  IF v_created_at IS NULL THEN
+    RAISE EXCEPTION 'Message % does not belong to this room', NEW.last_read_message_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_created_at < OLD.last_read_at THEN
+    NEW.last_read_message_id := OLD.last_read_message_id;
+    NEW.last_read_at := OLD.last_read_at;
+    RETURN NEW;
+  END IF;
+
+  NEW.last_read_at := v_created_at;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_room_read_position ON room_read_states;
+CREATE TRIGGER trigger_set_room_read_position
+  BEFORE INSERT OR UPDATE ON room_read_states
+  FOR EACH ROW EXECUTE FUNCTION set_room_read_position();
+
+-- Unread messages per room the user has read before
+CREATE OR REPLACE FUNCTION get_unread_counts(p_user_name text)
+RETURNS TABLE (
+  room_id uuid,
+  unread_count bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT rs.room_id, COUNT(m.id)
+  FROM room_read_states rs
+  JOIN messages m
+    ON m.room_id = rs.room_id
+    AND m.created_at > rs.last_read_at
+  WHERE rs.user_name = p_user_name
+    AND m.user_name <> p_user_name
+    AND m.deleted_at IS NULL
+    AND m.message_type IS DISTINCT FROM 'system'
+  GROUP BY rs.room_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+ALTER TABLE room_read_states REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE room_read_states;
+  END IF;
+END $$;
@@ -0,0 +1,39 @@
+/*
+  # Message Idempotency Keys
+
+  1. Modified Tables
+    - `messages`
+      - `client_id` (uuid, generated by the sending client, unique)
+
+  2. Behaviour
+    - Clients queue unsent messages and retry them; the unique key makes a retried insert of a
+      message that was already stored fail instead of creating a duplicate
+    - The key can't be changed after sending
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'client_id'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN client_id uuid;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_client_id
+  ON messages(client_id);
+
+-- Keep the idempotency key fixed once a message is stored
+CREATE OR REPLACE FUNCTION keep_message_client_id()
+RETURNS trigger AS $$
+BEGIN
+  NEW.client_id := OLD.client_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_keep_message_client_id ON messages;
+CREATE TRIGGER trigger_keep_message_client_id
+  BEFORE UPDATE OF client_id ON messages
+  FOR EACH ROW EXECUTE FUNCTION keep_message_client_id();
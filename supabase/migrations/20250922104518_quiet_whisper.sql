@@ -0,0 +1,14 @@
+/*
+  # Ephemeral Typing Indicators
+
+  1. Removed Tables
+    - `typing_indicators`, typing state is now sent as realtime broadcast events between
+      clients and expires on the client
+
+  2. Removed Functions
+    - `cleanup_typing_indicators()`
+*/
+
+DROP FUNCTION IF EXISTS cleanup_typing_indicators();
+
+DROP TABLE IF EXISTS typing_indicators;
@@ -0,0 +1,45 @@
+/*
+  # Custom Status and Do Not Disturb
+
+  1. Modified Tables
+    - `user_presence`
+      - `status_text` (text, custom status shown next to the user, up to 100 characters)
+      - `status_emoji` (text, emoji shown with the custom status)
+      - `status_expires_at` (timestamp, when the custom status stops being shown, null to keep it)
+      - `do_not_disturb` (boolean, default false)
+
+  2. Behaviour
+    - Active, idle and away are live states sent over channel presence and aren't stored
+    - The custom status and do not disturb are chosen by the user and kept between sessions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_presence' AND column_name = 'status_text'
+  ) THEN
+    ALTER TABLE user_presence ADD COLUMN status_text text CHECK (char_length(status_text) <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_presence' AND column_name = 'status_emoji'
+  ) THEN
+    ALTER TABLE user_presence ADD COLUMN status_emoji text CHECK (char_length(status_emoji) <= 16);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_presence' AND column_name = 'status_expires_at'
+  ) THEN
+    ALTER TABLE user_presence ADD COLUMN status_expires_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_presence' AND column_name = 'do_not_disturb'
+  ) THEN
+    ALTER TABLE user_presence ADD COLUMN do_not_disturb boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
@@ -0,0 +1,23 @@
+/*
+  # Durable Room Membership
+
+  1. Changes
+    - `room_participants` rows are now kept until a user explicitly leaves a
+      room, instead of being deleted whenever they navigate away
+    - `rooms.current_users` counts members, kept up to date by the existing
+      `update_room_participant_count()` trigger function
+    - Who is online in a room comes from realtime presence and isn't stored
+
+  2. Data
+    - Recount `current_users` for every room
+*/
+
+UPDATE rooms
+SET current_users = (
+  SELECT COUNT(*)
+  FROM room_participants
+  WHERE room_participants.room_id = rooms.id
+);
+
+COMMENT ON COLUMN rooms.current_users IS 'Number of members of the room';
+COMMENT ON TABLE room_participants IS 'Room members, removed only when they leave the room';
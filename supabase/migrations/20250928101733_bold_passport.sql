@@ -0,0 +1,430 @@
+/*
+  # User Accounts and Profiles
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, the Supabase Auth user id)
+      - `display_name` (text, 2 to 30 characters, unique ignoring case)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Modified Tables
+    - `messages`
+      - `user_id` (uuid, foreign key to profiles, null for system messages and messages
+        sent before accounts existed)
+    - `room_participants`
+      - `user_id` (uuid, foreign key to profiles), now part of the primary key instead of `user_name`
+    - `user_presence`
+      - `user_id` (uuid, foreign key to profiles), now the primary key instead of `user_name`
+    - `message_reactions`
+      - `user_id` (uuid, foreign key to profiles), now part of the primary key instead of `user_name`
+    - `room_read_states`
+      - `user_id` (uuid, foreign key to profiles), now part of the primary key instead of `user_name`
+    - `message_mentions`
+      - `mentioned_user_id` (uuid, foreign key to profiles), now part of the primary key
+        instead of `mentioned_user`
+    - `typing_indicators` was dropped when typing moved to broadcast, so it needs no change
+
+  3. Behaviour
+    - A profile is created for every new auth user, anonymous or with email and password,
+      from the `display_name` in their sign-up metadata. A name that is taken gets a suffix.
+    - `user_id` is set from the signed-in user on insert and `user_name` is copied from their
+      profile, so clients can no longer write rows under someone else's name
+    - `user_name` stays on each table as the display name, kept in step when a profile is renamed
+    - Memberships, presence, reactions, read positions and mentions of names without an
+      account are removed, quietly
+    - Mentions are recorded for the mentioned participant's user id
+    - `get_unread_counts()` takes no arguments and counts for the signed-in user
+    - Drop `update_user_presence()`, which was unused and keyed on `user_name`
+
+  4. Security
+    - Enable RLS on `profiles`: anyone can view, users can only rename themselves
+    - Messages, memberships, presence, reactions and read positions can only be written by
+      their own user
+*/
+
+-- Create profiles table
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name text NOT NULL CHECK (char_length(trim(display_name)) BETWEEN 2 AND 30),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_display_name
+  ON profiles(lower(display_name));
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view profiles"
+  ON profiles
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Users can update their own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+-- Create a profile for every new user, anonymous ones included
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger AS $$
+DECLARE
+  v_name text;
+BEGIN
+  v_name := left(trim(COALESCE(NEW.raw_user_meta_data->>'display_name', '')), 30);
+  IF char_length(v_name) < 2 THEN
+    v_name := 'Guest';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE lower(display_name) = lower(v_name)) THEN
+    v_name := left(v_name, 25) || '-' || left(replace(NEW.id::text, '-', ''), 4);
+  END IF;
+
+  INSERT INTO profiles (id, display_name)
+  VALUES (NEW.id, v_name);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_handle_new_user ON auth.users;
+CREATE TRIGGER trigger_handle_new_user
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Add user ids
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN user_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'room_participants' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE room_participants ADD COLUMN user_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_presence' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE user_presence ADD COLUMN user_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'message_reactions' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE message_reactions ADD COLUMN user_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'room_read_states' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE room_read_states ADD COLUMN user_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'message_mentions' AND column_name = 'mentioned_user_id'
+  ) THEN
+    ALTER TABLE message_mentions ADD COLUMN mentioned_user_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Names without an account can't be claimed by anyone, so their memberships and
+-- presence go. No leave messages are posted for them.
+ALTER TABLE room_participants DISABLE TRIGGER trigger_post_membership_message;
+DELETE FROM room_participants WHERE user_id IS NULL;
+ALTER TABLE room_participants ENABLE TRIGGER trigger_post_membership_message;
+
+DELETE FROM user_presence WHERE user_id IS NULL;
+DELETE FROM message_reactions WHERE user_id IS NULL;
+DELETE FROM room_read_states WHERE user_id IS NULL;
+DELETE FROM message_mentions WHERE mentioned_user_id IS NULL;
+
+ALTER TABLE room_participants ALTER COLUMN user_id SET NOT NULL;
+ALTER TABLE room_participants DROP CONSTRAINT IF EXISTS room_participants_pkey;
+ALTER TABLE room_participants ADD PRIMARY KEY (room_id, user_id);
+
+ALTER TABLE user_presence ALTER COLUMN user_id SET NOT NULL;
+ALTER TABLE user_presence DROP CONSTRAINT IF EXISTS user_presence_pkey;
+ALTER TABLE user_presence ADD PRIMARY KEY (user_id);
+
+ALTER TABLE message_reactions ALTER COLUMN user_id SET NOT NULL;
+ALTER TABLE message_reactions DROP CONSTRAINT IF EXISTS message_reactions_pkey;
+ALTER TABLE message_reactions ADD PRIMARY KEY (message_id, user_id, emoji);
+
+ALTER TABLE room_read_states ALTER COLUMN user_id SET NOT NULL;
+ALTER TABLE room_read_states DROP CONSTRAINT IF EXISTS room_read_states_pkey;
+ALTER TABLE room_read_states ADD PRIMARY KEY (room_id, user_id);
+
+ALTER TABLE message_mentions ALTER COLUMN mentioned_user_id SET NOT NULL;
+ALTER TABLE message_mentions DROP CONSTRAINT IF EXISTS message_mentions_pkey;
+ALTER TABLE message_mentions ADD PRIMARY KEY (message_id, mentioned_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_messages_user
+  ON messages(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_room_participants_user
+  ON room_participants(user_id);
+
+DROP INDEX IF EXISTS idx_room_read_states_user;
+CREATE INDEX idx_room_read_states_user
+  ON room_read_states(user_id);
+
+DROP INDEX IF EXISTS idx_message_mentions_user;
+CREATE INDEX idx_message_mentions_user
+  ON message_mentions(mentioned_user_id, created_at DESC);
+
+DROP FUNCTION IF EXISTS update_user_presence(text, uuid);
+
+-- Rows written by clients belong to the signed-in user. Rows written by other
+-- triggers, such as system messages, are left as they are.
+CREATE OR REPLACE FUNCTION set_row_user()
+RETURNS trigger AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.user_id := OLD.user_id;
+    NEW.user_name := OLD.user_name;
+    RETURN NEW;
+  END IF;
+
+  NEW.user_id := auth.uid();
+  IF NEW.user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  SELECT display_name INTO NEW.user_name
+  FROM profiles
+  WHERE id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_message_user ON messages;
+CREATE TRIGGER trigger_set_message_user
+  BEFORE INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION set_row_user();
+
+DROP TRIGGER IF EXISTS trigger_set_participant_user ON room_participants;
+CREATE TRIGGER trigger_set_participant_user
+  BEFORE INSERT OR UPDATE ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION set_row_user();
+
+DROP TRIGGER IF EXISTS trigger_set_presence_user ON user_presence;
+CREATE TRIGGER trigger_set_presence_user
+  BEFORE INSERT OR UPDATE ON user_presence
+  FOR EACH ROW EXECUTE FUNCTION set_row_user();
+
+DROP TRIGGER IF EXISTS trigger_set_reaction_user ON message_reactions;
+CREATE TRIGGER trigger_set_reaction_user
+  BEFORE INSERT ON message_reactions
+  FOR EACH ROW EXECUTE FUNCTION set_row_user();
+
+DROP TRIGGER IF EXISTS trigger_set_read_state_user ON room_read_states;
+CREATE TRIGGER trigger_set_read_state_user
+  BEFORE INSERT OR UPDATE ON room_read_states
+  FOR EACH ROW EXECUTE FUNCTION set_row_user();
+
+-- Mentions point at the participant's account, so a name freed by a rename
+-- doesn't bring its mentions to whoever takes it next
+CREATE OR REPLACE FUNCTION record_message_mentions()
+RETURNS trigger AS $$
+DECLARE
+  v_content text;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    DELETE FROM message_mentions WHERE message_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  -- Drop fenced and inline code first so snippets don't notify anyone
+  v_content := regexp_replace(NEW.content, '```.*?(```|$)', '', 'g');
+  v_content := regexp_replace(v_content, '`[^`\n]+`', '', 'g');
+
+  INSERT INTO message_mentions (message_id, room_id, mentioned_user_id, mentioned_user, mentioned_by, created_at)
+  SELECT DISTINCT NEW.id, NEW.room_id, rp.user_id, rp.user_name, NEW.user_name, NEW.created_at
+  FROM regexp_matches(v_content, '@\[([^]\n]{1,50})\]', 'g') AS mention(names)
+  JOIN room_participants rp
+    ON rp.room_id = NEW.room_id
+    AND lower(rp.user_name) = lower(mention.names[1])
+  WHERE rp.user_id IS DISTINCT FROM NEW.user_id
+  ON CONFLICT (message_id, mentioned_user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Unread messages per room the signed-in user has read before
+DROP FUNCTION IF EXISTS get_unread_counts(text);
+
+CREATE OR REPLACE FUNCTION get_unread_counts()
+RETURNS TABLE (
+  room_id uuid,
+  unread_count bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT rs.room_id, COUNT(m.id)
+  FROM room_read_states rs
+  JOIN messages m
+    ON m.room_id = rs.room_id
+    AND m.created_at > rs.last_read_at
+  WHERE rs.user_id = auth.uid()
+    AND m.user_id IS DISTINCT FROM auth.uid()
+    AND m.deleted_at IS NULL
+    AND m.message_type IS DISTINCT FROM 'system'
+  GROUP BY rs.room_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The author of a message is fixed, except that renaming a profile updates the
+-- display name on their messages
+CREATE OR REPLACE FUNCTION handle_message_update()
+RETURNS trigger AS $$
+DECLARE
+  v_edit_window integer;
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  NEW.room_id := OLD.room_id;
+  NEW.user_id := OLD.user_id;
+  IF pg_trigger_depth() = 1 THEN
+    NEW.user_name := OLD.user_name;
+  END IF;
+  NEW.created_at := OLD.created_at;
+  NEW.message_type := OLD.message_type;
+  NEW.attachments := OLD.attachments;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.attachments := NULL;
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    SELECT edit_window_minutes INTO v_edit_window
+    FROM rooms
+    WHERE id = OLD.room_id;
+
+    IF v_edit_window IS NOT NULL
+      AND now() > OLD.created_at + make_interval(mins => v_edit_window) THEN
+      RAISE EXCEPTION 'The edit window for this message has expired';
+    END IF;
+
+    INSERT INTO message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep display names in step with the profile
+CREATE OR REPLACE FUNCTION handle_profile_rename()
+RETURNS trigger AS $$
+BEGIN
+  NEW.id := OLD.id;
+  NEW.created_at := OLD.created_at;
+  NEW.display_name := trim(NEW.display_name);
+  NEW.updated_at := now();
+
+  IF NEW.display_name IS DISTINCT FROM OLD.display_name THEN
+    UPDATE messages SET user_name = NEW.display_name
+    WHERE user_id = NEW.id AND deleted_at IS NULL;
+
+    UPDATE room_participants SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE user_presence SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE message_reactions SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE room_read_states SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE message_mentions SET mentioned_user = NEW.display_name
+    WHERE mentioned_user_id = NEW.id;
+
+    UPDATE message_mentions mm SET mentioned_by = NEW.display_name
+    FROM messages m
+    WHERE m.id = mm.message_id AND m.user_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_handle_profile_rename ON profiles;
+CREATE TRIGGER trigger_handle_profile_rename
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION handle_profile_rename();
+
+-- Only the signed-in user can write as themselves
+DROP POLICY IF EXISTS "Anyone can send messages" ON messages;
+DROP POLICY IF EXISTS "Anyone can edit messages" ON messages;
+DROP POLICY IF EXISTS "Anyone can join rooms" ON room_participants;
+DROP POLICY IF EXISTS "Participants can leave rooms" ON room_participants;
+DROP POLICY IF EXISTS "Anyone can update user presence" ON user_presence;
+
+CREATE POLICY "Users can send their own messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can edit their own messages"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can join rooms"
+  ON room_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can leave rooms"
+  ON room_participants
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own presence"
+  ON user_presence
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,347 @@
+/*
+  # Room Passwords Verified on the Server
+
+  1. New Tables
+    - `room_secrets`
+      - `room_id` (uuid, primary key, foreign key to rooms)
+      - `password_hash` (text, bcrypt hash from pgcrypto)
+      - `updated_at` (timestamp)
+    - `room_join_attempts`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, foreign key to rooms)
+      - `user_id` (uuid, foreign key to profiles)
+      - `attempted_at` (timestamp)
+
+  2. Modified Tables
+    - `rooms`
+      - `password_hash` moved to `room_secrets`. Existing values were base64 rather than
+        hashes, so they are decoded and hashed with bcrypt on the way.
+      - `owner_id` (uuid, foreign key to profiles, the user who created the room), set from
+        the signed-in user and fixed afterwards. Existing rooms are matched to the profile
+        named in `created_by`. Display names can change hands, so ownership checks use this.
+
+  3. New Functions
+    - `create_password_room(p_name, p_description, p_max_users, p_password)` creates a
+      password-protected room together with its password, so none exists without one
+    - `set_room_password(p_room_id, p_password)` hashes and stores a room's password.
+      Only the room's owner can call it.
+    - `join_protected_room(p_room_id, p_password)` checks the password and adds the caller
+      as a member. Returns false for a wrong password. After 5 wrong passwords in
+      15 minutes the caller has to wait before trying the room again.
+
+  4. Security
+    - Enable RLS on `room_secrets` and `room_join_attempts` with no policies, so clients
+      can only reach them through the functions above
+    - Users can only join password-protected rooms through `join_protected_room`,
+      except the owner adding themselves
+    - Password-protected rooms can only be created through `create_password_room`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Create room_secrets table
+CREATE TABLE IF NOT EXISTS room_secrets (
+  room_id uuid PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE,
+  password_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE room_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Create room_join_attempts table
+CREATE TABLE IF NOT EXISTS room_join_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  attempted_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_join_attempts_user
+  ON room_join_attempts(user_id, room_id, attempted_at DESC);
+
+ALTER TABLE room_join_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Add owner column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rooms' AND column_name = 'owner_id'
+  ) THEN
+    ALTER TABLE rooms ADD COLUMN owner_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Rooms whose creator never got an account are left without an owner
+UPDATE rooms r
+SET owner_id = p.id
+FROM profiles p
+WHERE r.owner_id IS NULL
+  AND lower(p.display_name) = lower(r.created_by);
+
+CREATE INDEX IF NOT EXISTS idx_rooms_owner
+  ON rooms(owner_id);
+
+-- The owner is whoever creates the room
+CREATE OR REPLACE FUNCTION set_room_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.owner_id := OLD.owner_id;
+    RETURN NEW;
+  END IF;
+
+  NEW.owner_id := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_room_owner ON rooms;
+CREATE TRIGGER trigger_set_room_owner
+  BEFORE INSERT OR UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION set_room_owner();
+
+-- Move existing passwords, which btoa() only encoded, to bcrypt hashes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rooms' AND column_name = 'password_hash'
+  ) THEN
+    INSERT INTO room_secrets (room_id, password_hash)
+    SELECT id, extensions.crypt(
+      convert_from(decode(password_hash, 'base64'), 'LATIN1'),
+      extensions.gen_salt('bf')
+    )
+    FROM rooms
+    WHERE password_hash IS NOT NULL
+    ON CONFLICT (room_id) DO NOTHING;
+
+    ALTER TABLE rooms DROP COLUMN password_hash;
+  END IF;
+END $$;
+
+-- The password is no longer a column of rooms, room_secrets reports its changes
+DROP TRIGGER IF EXISTS trigger_post_room_update_message ON rooms;
+
+CREATE OR REPLACE FUNCTION post_room_update_message()
+RETURNS trigger AS $$
+DECLARE
+  v_changes text[] := ARRAY[]::text[];
+  v_actor text := COALESCE(NEW.updated_by, NEW.created_by);
+  v_content text;
+BEGIN
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    v_changes := array_append(v_changes, 'description');
+  END IF;
+  IF NEW.max_users IS DISTINCT FROM OLD.max_users THEN
+    v_changes := array_append(v_changes, 'member limit');
+  END IF;
+  IF NEW.edit_window_minutes IS DISTINCT FROM OLD.edit_window_minutes THEN
+    v_changes := array_append(v_changes, 'edit window');
+  END IF;
+  IF NEW.max_attachment_mb IS DISTINCT FROM OLD.max_attachment_mb
+    OR NEW.allowed_attachment_types IS DISTINCT FROM OLD.allowed_attachment_types THEN
+    v_changes := array_append(v_changes, 'attachment rules');
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    v_content := v_actor || ' renamed the room to "' || NEW.name || '"';
+    IF array_length(v_changes, 1) > 0 THEN
+      v_content := v_content || ' and updated the ' || array_to_string(v_changes, ', ');
+    END IF;
+    v_changes := array_prepend('name', v_changes);
+  ELSIF array_length(v_changes, 1) > 0 THEN
+    v_content := v_actor || ' updated the ' || array_to_string(v_changes, ', ');
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM post_system_message(
+    NEW.id, v_actor, v_content,
+    jsonb_build_object('event', 'room_updated', 'changes', to_jsonb(v_changes))
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_post_room_update_message
+  AFTER UPDATE OF name, description, max_users, edit_window_minutes,
+    max_attachment_mb, allowed_attachment_types ON rooms
+  FOR EACH ROW EXECUTE FUNCTION post_room_update_message();
+
+-- Set or change a room's password
+CREATE OR REPLACE FUNCTION set_room_password(p_room_id uuid, p_password text)
+RETURNS void AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room
+  FROM rooms
+  WHERE id = p_room_id;
+
+  IF NOT FOUND OR v_room.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the room owner can change its password';
+  END IF;
+
+  IF v_room.type <> 'password' THEN
+    RAISE EXCEPTION 'This room is not password protected';
+  END IF;
+
+  IF char_length(COALESCE(p_password, '')) = 0 THEN
+    RAISE EXCEPTION 'The password cannot be empty';
+  END IF;
+
+  INSERT INTO room_secrets (room_id, password_hash)
+  VALUES (p_room_id, extensions.crypt(p_password, extensions.gen_salt('bf')))
+  ON CONFLICT (room_id) DO UPDATE
+  SET password_hash = EXCLUDED.password_hash,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create a password-protected room and its password in one go
+CREATE OR REPLACE FUNCTION create_password_room(
+  p_name text,
+  p_description text,
+  p_max_users integer,
+  p_password text
+)
+RETURNS rooms AS $$
+DECLARE
+  v_user_name text;
+  v_room rooms%ROWTYPE;
+BEGIN
+  SELECT display_name INTO v_user_name
+  FROM profiles
+  WHERE id = auth.uid();
+
+  IF v_user_name IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  IF char_length(COALESCE(p_password, '')) = 0 THEN
+    RAISE EXCEPTION 'The password cannot be empty';
+  END IF;
+
+  INSERT INTO rooms (name, description, type, max_users, created_by)
+  VALUES (p_name, p_description, 'password', p_max_users, v_user_name)
+  RETURNING * INTO v_room;
+
+  INSERT INTO room_secrets (room_id, password_hash)
+  VALUES (v_room.id, extensions.crypt(p_password, extensions.gen_salt('bf')));
+
+  RETURN v_room;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Password changes are announced like other room settings. Setting the first
+-- one, when the room is created, posts nothing.
+CREATE OR REPLACE FUNCTION post_room_password_message()
+RETURNS trigger AS $$
+DECLARE
+  v_actor text;
+BEGIN
+  SELECT display_name INTO v_actor
+  FROM profiles
+  WHERE id = auth.uid();
+
+  PERFORM post_system_message(
+    NEW.room_id, v_actor, v_actor || ' updated the password',
+    jsonb_build_object('event', 'room_updated', 'changes', to_jsonb(ARRAY['password']))
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_post_room_password_message ON room_secrets;
+CREATE TRIGGER trigger_post_room_password_message
+  AFTER UPDATE OF password_hash ON room_secrets
+  FOR EACH ROW EXECUTE FUNCTION post_room_password_message();
+
+-- Check a room's password and make the caller a member. Wrong passwords are
+-- recorded rather than raised, so they count towards the limit.
+CREATE OR REPLACE FUNCTION join_protected_room(p_room_id uuid, p_password text)
+RETURNS boolean AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_hash text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id AND type = 'password' AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM room_join_attempts
+    WHERE user_id = v_user_id
+      AND room_id = p_room_id
+      AND attempted_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many attempts, try again later';
+  END IF;
+
+  SELECT password_hash INTO v_hash
+  FROM room_secrets
+  WHERE room_id = p_room_id;
+
+  IF v_hash IS NULL OR extensions.crypt(COALESCE(p_password, ''), v_hash) <> v_hash THEN
+    INSERT INTO room_join_attempts (room_id, user_id)
+    VALUES (p_room_id, v_user_id);
+    RETURN false;
+  END IF;
+
+  DELETE FROM room_join_attempts
+  WHERE user_id = v_user_id AND room_id = p_room_id;
+
+  INSERT INTO room_participants (room_id, user_id, user_name, is_admin)
+  SELECT p_room_id, v_user_id, display_name, false
+  FROM profiles
+  WHERE id = v_user_id
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_password_room(text, text, integer, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION create_password_room(text, text, integer, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION set_room_password(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION set_room_password(uuid, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION join_protected_room(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION join_protected_room(uuid, text) TO authenticated;
+
+-- Password-protected rooms are joined through join_protected_room
+DROP POLICY IF EXISTS "Users can join rooms" ON room_participants;
+
+CREATE POLICY "Users can join rooms"
+  ON room_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = room_participants.room_id
+        AND (
+          rooms.type <> 'password'
+          OR rooms.owner_id = auth.uid()
+        )
+    )
+  );
+
+-- Password-protected rooms are created through create_password_room
+DROP POLICY IF EXISTS "Anyone can create rooms" ON rooms;
+
+CREATE POLICY "Anyone can create rooms"
+  ON rooms
+  FOR INSERT
+  WITH CHECK (type <> 'password');
@@ -0,0 +1,365 @@
+/*
+  # Room Access Rules
+
+  1. New Functions
+    - `is_room_member(p_room_id)` whether the signed-in user is a participant of the room
+    - `is_room_owner(p_room_id)` whether the signed-in user owns the room
+    - `is_room_admin(p_room_id)` whether the signed-in user owns the room or is one of its admins
+    - `can_access_room(p_room_id)` whether the signed-in user can read and send messages in
+      the room: anyone in public rooms, members only in private and password-protected ones
+
+  2. Behaviour
+    - `owner_id` and `created_by` are set from the signed-in user when a room is created and
+      can't be changed by clients. `updated_by` is set from the signed-in user on every change.
+    - `created_by` follows renames of the owner's profile
+    - `update_room_participant_count()` runs as its owner, so joining and leaving still update
+      the member count of rooms the user can't edit
+    - `set_room_password()` is allowed for room admins rather than only the creator
+
+  3. Security
+    - Rooms can be viewed by their owner and members as well, so private rooms show up for them
+    - Only signed-in users can create rooms, password-protected ones through
+      `create_password_room()`, and only room admins can update them
+    - Messages, and the edit history, reactions and mentions of messages, can only be viewed
+      in rooms the user can access. Sending needs access to the room too.
+    - Users can only add and remove their own reactions, in rooms they can access, and only
+      mark their own mentions as read
+    - Read positions and call participants are only visible in rooms the user can access,
+      and users can only move their own read position
+    - Participants are only visible in rooms the user can access
+    - Users can join public rooms themselves, other rooms only through functions such as
+      `join_protected_room()`. Only the owner can add themselves as an admin.
+    - Users can leave rooms, and the owner can remove anyone else
+    - The `attachments` bucket is no longer public. Files can only be uploaded to and read
+      from the folders of rooms the user can access, and are served through signed URLs.
+*/
+
+-- Access checks used by the policies below. They run as their owner so that
+-- policies on room_participants can look at room_participants.
+CREATE OR REPLACE FUNCTION is_room_member(p_room_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = p_room_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_room_owner(p_room_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id AND owner_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_room_admin(p_room_id uuid)
+RETURNS boolean AS $$
+  SELECT is_room_owner(p_room_id) OR EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = p_room_id AND user_id = auth.uid() AND is_admin = true
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_access_room(p_room_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id AND type = 'public'
+  ) OR is_room_member(p_room_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The creator's name is set along with the owner. Changes made by other
+-- triggers, such as the member count, are left as they are.
+CREATE OR REPLACE FUNCTION set_room_owner()
+RETURNS trigger AS $$
+DECLARE
+  v_user_name text;
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT display_name INTO v_user_name
+  FROM profiles
+  WHERE id = auth.uid();
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.owner_id := OLD.owner_id;
+    NEW.created_by := OLD.created_by;
+    NEW.updated_by := COALESCE(v_user_name, NEW.updated_by);
+    RETURN NEW;
+  END IF;
+
+  IF v_user_name IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  NEW.owner_id := auth.uid();
+  NEW.created_by := v_user_name;
+  NEW.updated_by := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_room_owner ON rooms;
+CREATE TRIGGER trigger_set_room_owner
+  BEFORE INSERT OR UPDATE ON rooms
+  FOR EACH ROW EXECUTE FUNCTION set_room_owner();
+
+-- Joining must update the count of rooms the member can't edit
+ALTER FUNCTION update_room_participant_count() SECURITY DEFINER SET search_path = public;
+
+-- Keep display names in step with the profile, including the rooms they own
+CREATE OR REPLACE FUNCTION handle_profile_rename()
+RETURNS trigger AS $$
+BEGIN
+  NEW.id := OLD.id;
+  NEW.created_at := OLD.created_at;
+  NEW.display_name := trim(NEW.display_name);
+  NEW.updated_at := now();
+
+  IF NEW.display_name IS DISTINCT FROM OLD.display_name THEN
+    UPDATE messages SET user_name = NEW.display_name
+    WHERE user_id = NEW.id AND deleted_at IS NULL;
+
+    UPDATE room_participants SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE user_presence SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE message_reactions SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE room_read_states SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE message_mentions SET mentioned_user = NEW.display_name
+    WHERE mentioned_user_id = NEW.id;
+
+    UPDATE message_mentions mm SET mentioned_by = NEW.display_name
+    FROM messages m
+    WHERE m.id = mm.message_id AND m.user_id = NEW.id;
+
+    UPDATE rooms SET created_by = NEW.display_name
+    WHERE owner_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Room admins, not only the creator, can change the password
+CREATE OR REPLACE FUNCTION set_room_password(p_room_id uuid, p_password text)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_room_admin(p_room_id) THEN
+    RAISE EXCEPTION 'Only room admins can change its password';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND type = 'password') THEN
+    RAISE EXCEPTION 'This room is not password protected';
+  END IF;
+
+  IF char_length(COALESCE(p_password, '')) = 0 THEN
+    RAISE EXCEPTION 'The password cannot be empty';
+  END IF;
+
+  INSERT INTO room_secrets (room_id, password_hash)
+  VALUES (p_room_id, extensions.crypt(p_password, extensions.gen_salt('bf')))
+  ON CONFLICT (room_id) DO UPDATE
+  SET password_hash = EXCLUDED.password_hash,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rooms
+DROP POLICY IF EXISTS "Anyone can create rooms" ON rooms;
+DROP POLICY IF EXISTS "Room creators can update their rooms" ON rooms;
+
+CREATE POLICY "Members can view their rooms"
+  ON rooms
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid() OR is_room_member(id));
+
+CREATE POLICY "Users can create rooms"
+  ON rooms
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND type <> 'password');
+
+CREATE POLICY "Room admins can update their rooms"
+  ON rooms
+  FOR UPDATE
+  TO authenticated
+  USING (is_room_admin(id))
+  WITH CHECK (is_room_admin(id));
+
+-- Messages and what hangs off them
+DROP POLICY IF EXISTS "Anyone can view messages" ON messages;
+DROP POLICY IF EXISTS "Users can send their own messages" ON messages;
+DROP POLICY IF EXISTS "Anyone can view edit history" ON message_edits;
+DROP POLICY IF EXISTS "Anyone can view reactions" ON message_reactions;
+DROP POLICY IF EXISTS "Anyone can view mentions" ON message_mentions;
+DROP POLICY IF EXISTS "Anyone can add reactions" ON message_reactions;
+DROP POLICY IF EXISTS "Anyone can remove reactions" ON message_reactions;
+DROP POLICY IF EXISTS "Anyone can mark mentions as read" ON message_mentions;
+
+CREATE POLICY "Messages are visible in rooms users can access"
+  ON messages
+  FOR SELECT
+  TO public
+  USING (can_access_room(room_id));
+
+CREATE POLICY "Users can send their own messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND can_access_room(room_id));
+
+-- The subqueries on messages are filtered by its policy above
+CREATE POLICY "Edit history is visible with its message"
+  ON message_edits
+  FOR SELECT
+  TO public
+  USING (EXISTS (SELECT 1 FROM messages WHERE messages.id = message_edits.message_id));
+
+CREATE POLICY "Reactions are visible with their message"
+  ON message_reactions
+  FOR SELECT
+  TO public
+  USING (EXISTS (SELECT 1 FROM messages WHERE messages.id = message_reactions.message_id));
+
+CREATE POLICY "Mentions are visible with their message"
+  ON message_mentions
+  FOR SELECT
+  TO public
+  USING (EXISTS (SELECT 1 FROM messages WHERE messages.id = message_mentions.message_id));
+
+CREATE POLICY "Users can add their own reactions"
+  ON message_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND can_access_room(room_id)
+    AND EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_reactions.message_id
+        AND messages.room_id = message_reactions.room_id
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON message_reactions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Marking as read is the only change clients can make to a mention
+CREATE POLICY "Users can mark their own mentions as read"
+  ON message_mentions
+  FOR UPDATE
+  TO authenticated
+  USING (mentioned_user_id = auth.uid())
+  WITH CHECK (mentioned_user_id = auth.uid());
+
+REVOKE UPDATE ON message_mentions FROM anon, authenticated;
+GRANT UPDATE (read_at) ON message_mentions TO authenticated;
+
+-- Read positions
+DROP POLICY IF EXISTS "Anyone can view read states" ON room_read_states;
+DROP POLICY IF EXISTS "Anyone can create read states" ON room_read_states;
+DROP POLICY IF EXISTS "Anyone can update read states" ON room_read_states;
+
+CREATE POLICY "Read states are visible in rooms users can access"
+  ON room_read_states
+  FOR SELECT
+  TO authenticated
+  USING (can_access_room(room_id));
+
+CREATE POLICY "Users can create their own read state"
+  ON room_read_states
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND can_access_room(room_id));
+
+CREATE POLICY "Users can update their own read state"
+  ON room_read_states
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND can_access_room(room_id));
+
+-- Calls
+DROP POLICY IF EXISTS "Anyone can view call participants" ON call_participants;
+
+CREATE POLICY "Call participants are visible in rooms users can access"
+  ON call_participants
+  FOR SELECT
+  TO authenticated
+  USING (can_access_room(room_id));
+
+-- Participants
+DROP POLICY IF EXISTS "Anyone can view participants" ON room_participants;
+DROP POLICY IF EXISTS "Users can join rooms" ON room_participants;
+DROP POLICY IF EXISTS "Users can leave rooms" ON room_participants;
+
+CREATE POLICY "Participants are visible in rooms users can access"
+  ON room_participants
+  FOR SELECT
+  TO public
+  USING (can_access_room(room_id));
+
+CREATE POLICY "Users can join public rooms"
+  ON room_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      is_room_owner(room_id)
+      OR (
+        is_admin = false
+        AND EXISTS (SELECT 1 FROM rooms WHERE rooms.id = room_participants.room_id AND rooms.type = 'public')
+      )
+    )
+  );
+
+CREATE POLICY "Users can leave rooms"
+  ON room_participants
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Room owners can remove participants"
+  ON room_participants
+  FOR DELETE
+  TO authenticated
+  USING (is_room_owner(room_id));
+
+-- Attachments
+UPDATE storage.buckets SET public = false WHERE id = 'attachments';
+
+DROP POLICY IF EXISTS "Anyone can upload attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can view attachments" ON storage.objects;
+
+-- Files are stored under <room_id>/<uuid>/<file name>
+CREATE POLICY "Attachments can be uploaded to rooms users can access"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND can_access_room((storage.foldername(name))[1]::uuid)
+  );
+
+CREATE POLICY "Attachments are visible in rooms users can access"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND can_access_room((storage.foldername(name))[1]::uuid)
+  );
@@ -0,0 +1,134 @@
+/*
+  # Room Invites
+
+  1. New Tables
+    - `room_invites`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, foreign key to rooms)
+      - `token` (text, unique, random and generated by the database)
+      - `created_by` (uuid, foreign key to profiles)
+      - `created_at` (timestamp)
+      - `expires_at` (timestamp, null for invites that don't expire)
+      - `max_uses` (integer, null for unlimited uses)
+      - `uses` (integer, how many users joined through the invite)
+
+  2. New Functions
+    - `accept_room_invite(p_token)` makes the caller a member of the invite's room and
+      returns its id. Members opening an invite again don't use it up.
+
+  3. Behaviour
+    - The token, creator and use count of a new invite are set by the database
+    - Invites are revoked by deleting them
+
+  4. Security
+    - Enable RLS on `room_invites`
+    - Room admins can view, create and revoke the invites of their rooms. Everyone else
+      only gets in through `accept_room_invite()`, which needs the token.
+*/
+
+-- Create room_invites table
+CREATE TABLE IF NOT EXISTS room_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz,
+  max_uses integer CHECK (max_uses > 0),
+  uses integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_invites_room
+  ON room_invites(room_id, created_at DESC);
+
+ALTER TABLE room_invites ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are 144 random bits, URL safe
+CREATE OR REPLACE FUNCTION set_invite_defaults()
+RETURNS trigger AS $$
+BEGIN
+  NEW.token := translate(encode(extensions.gen_random_bytes(18), 'base64'), '+/', '-_');
+  NEW.created_by := auth.uid();
+  NEW.created_at := now();
+  NEW.uses := 0;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_invite_defaults ON room_invites;
+CREATE TRIGGER trigger_set_invite_defaults
+  BEFORE INSERT ON room_invites
+  FOR EACH ROW EXECUTE FUNCTION set_invite_defaults();
+
+-- Join a room through an invite
+CREATE OR REPLACE FUNCTION accept_room_invite(p_token text)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invite room_invites%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  -- Locked so that concurrent uses can't go over the limit
+  SELECT * INTO v_invite
+  FROM room_invites
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM rooms WHERE id = v_invite.room_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This invite link is invalid or has been revoked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_invite.room_id AND user_id = v_user_id
+  ) THEN
+    RETURN v_invite.room_id;
+  END IF;
+
+  IF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite link has expired';
+  END IF;
+
+  IF v_invite.max_uses IS NOT NULL AND v_invite.uses >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite link has been used up';
+  END IF;
+
+  INSERT INTO room_participants (room_id, user_id, user_name, is_admin)
+  SELECT v_invite.room_id, v_user_id, display_name, false
+  FROM profiles
+  WHERE id = v_user_id;
+
+  UPDATE room_invites
+  SET uses = uses + 1
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_room_invite(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION accept_room_invite(text) TO authenticated;
+
+-- Create policies for room_invites
+CREATE POLICY "Room admins can view invites"
+  ON room_invites
+  FOR SELECT
+  TO authenticated
+  USING (is_room_admin(room_id));
+
+CREATE POLICY "Room admins can create invites"
+  ON room_invites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_room_admin(room_id) AND created_by = auth.uid());
+
+CREATE POLICY "Room admins can revoke invites"
+  ON room_invites
+  FOR DELETE
+  TO authenticated
+  USING (is_room_admin(room_id));
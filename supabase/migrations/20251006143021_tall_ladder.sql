@@ -0,0 +1,508 @@
+/*
+  # Room Roles
+
+  1. Modified Tables
+    - `room_participants`
+      - `role` (text, 'owner', 'moderator' or 'member') replaces `is_admin`. The owner of each
+        room gets 'owner' and former admins become moderators.
+    - `call_participants`
+      - `user_id` (uuid, foreign key to profiles), set from the signed-in user and now part of
+        the primary key instead of `user_name`. Calls in progress are ended, quietly.
+
+  2. Permissions
+    | Permission          | Owner | Moderator | Member |
+    |---------------------|-------|-----------|--------|
+    | `edit_settings`     | yes   |           |        |
+    | `moderate_messages` | yes   | yes       |        |
+    | `manage_invites`    | yes   | yes       |        |
+    | `start_calls`       | yes   | yes       |        |
+
+    Changing roles and transferring ownership is up to the owner alone.
+
+  3. New Functions
+    - `room_role_has_permission(p_role, p_permission)` the table above
+    - `room_role(p_room_id)` the signed-in user's role in the room, null for non-members
+    - `has_room_permission(p_room_id, p_permission)` whether the signed-in user's role allows it
+    - `set_participant_role(p_room_id, p_user_id, p_role)` makes a member a moderator or back
+    - `transfer_room_ownership(p_room_id, p_user_id)` hands the room to another member. The
+      previous owner stays on as a moderator.
+    - `is_room_admin()` is dropped in favour of `has_room_permission()`
+
+  4. Behaviour
+    - `rooms.owner_id` and `created_by` follow the participant with the owner role
+    - Role changes post a `role_changed` system message
+    - The owner can't leave the room without transferring it first
+    - Moderators can delete the messages of others, but not edit them
+    - Members can join calls, starting one needs `start_calls`
+
+  5. Security
+    - Room settings can only be updated with `edit_settings`, invites managed with `manage_invites`
+    - Users join rooms as members. The owner alone joins as owner.
+    - Calls can only be joined in rooms the user can access, and only as themselves. Leaving
+      goes by user id, so renaming during a call doesn't get in the way.
+*/
+
+-- Add role column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'room_participants' AND column_name = 'role'
+  ) THEN
+    ALTER TABLE room_participants ADD COLUMN role text NOT NULL DEFAULT 'member'
+      CHECK (role IN ('owner', 'moderator', 'member'));
+  END IF;
+END $$;
+
+UPDATE room_participants rp
+SET role = 'owner'
+FROM rooms r
+WHERE r.id = rp.room_id AND r.owner_id = rp.user_id;
+
+UPDATE room_participants
+SET role = 'moderator'
+WHERE is_admin = true AND role = 'member';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_room_participants_owner
+  ON room_participants(room_id)
+  WHERE role = 'owner';
+
+-- Policies written against is_admin and is_room_admin() are replaced below
+DROP POLICY IF EXISTS "Users can join public rooms" ON room_participants;
+DROP POLICY IF EXISTS "Room admins can update their rooms" ON rooms;
+DROP POLICY IF EXISTS "Room admins can view invites" ON room_invites;
+DROP POLICY IF EXISTS "Room admins can create invites" ON room_invites;
+DROP POLICY IF EXISTS "Room admins can revoke invites" ON room_invites;
+
+ALTER TABLE room_participants DROP COLUMN IF EXISTS is_admin;
+
+-- The permission matrix
+CREATE OR REPLACE FUNCTION room_role_has_permission(p_role text, p_permission text)
+RETURNS boolean AS $$
+  SELECT CASE p_permission
+    WHEN 'edit_settings' THEN p_role = 'owner'
+    WHEN 'moderate_messages' THEN p_role IN ('owner', 'moderator')
+    WHEN 'manage_invites' THEN p_role IN ('owner', 'moderator')
+    WHEN 'start_calls' THEN p_role IN ('owner', 'moderator')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION room_role(p_room_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN is_room_owner(p_room_id) THEN 'owner'
+    ELSE (
+      SELECT role FROM room_participants
+      WHERE room_id = p_room_id AND user_id = auth.uid()
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_room_permission(p_room_id uuid, p_permission text)
+RETURNS boolean AS $$
+  SELECT COALESCE(room_role_has_permission(room_role(p_room_id), p_permission), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Functions that checked is_room_admin() or wrote is_admin
+CREATE OR REPLACE FUNCTION set_room_password(p_room_id uuid, p_password text)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_room_permission(p_room_id, 'edit_settings') THEN
+    RAISE EXCEPTION 'Only the room owner can change its password';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND type = 'password') THEN
+    RAISE EXCEPTION 'This room is not password protected';
+  END IF;
+
+  IF char_length(COALESCE(p_password, '')) = 0 THEN
+    RAISE EXCEPTION 'The password cannot be empty';
+  END IF;
+
+  INSERT INTO room_secrets (room_id, password_hash)
+  VALUES (p_room_id, extensions.crypt(p_password, extensions.gen_salt('bf')))
+  ON CONFLICT (room_id) DO UPDATE
+  SET password_hash = EXCLUDED.password_hash,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION join_protected_room(p_room_id uuid, p_password text)
+RETURNS boolean AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_hash text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id AND type = 'password' AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM room_join_attempts
+    WHERE user_id = v_user_id
+      AND room_id = p_room_id
+      AND attempted_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many attempts, try again later';
+  END IF;
+
+  SELECT password_hash INTO v_hash
+  FROM room_secrets
+  WHERE room_id = p_room_id;
+
+  IF v_hash IS NULL OR extensions.crypt(COALESCE(p_password, ''), v_hash) <> v_hash THEN
+    INSERT INTO room_join_attempts (room_id, user_id)
+    VALUES (p_room_id, v_user_id);
+    RETURN false;
+  END IF;
+
+  DELETE FROM room_join_attempts
+  WHERE user_id = v_user_id AND room_id = p_room_id;
+
+  INSERT INTO room_participants (room_id, user_id, user_name)
+  SELECT p_room_id, v_user_id, display_name
+  FROM profiles
+  WHERE id = v_user_id
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION accept_room_invite(p_token text)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invite room_invites%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  -- Locked so that concurrent uses can't go over the limit
+  SELECT * INTO v_invite
+  FROM room_invites
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM rooms WHERE id = v_invite.room_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This invite link is invalid or has been revoked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_invite.room_id AND user_id = v_user_id
+  ) THEN
+    RETURN v_invite.room_id;
+  END IF;
+
+  IF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite link has expired';
+  END IF;
+
+  IF v_invite.max_uses IS NOT NULL AND v_invite.uses >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite link has been used up';
+  END IF;
+
+  INSERT INTO room_participants (room_id, user_id, user_name)
+  SELECT v_invite.room_id, v_user_id, display_name
+  FROM profiles
+  WHERE id = v_user_id;
+
+  UPDATE room_invites
+  SET uses = uses + 1
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS is_room_admin(uuid);
+
+-- Promote a member to moderator or demote a moderator
+CREATE OR REPLACE FUNCTION set_participant_role(p_room_id uuid, p_user_id uuid, p_role text)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_room_owner(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room owner can change roles';
+  END IF;
+
+  IF p_role NOT IN ('moderator', 'member') THEN
+    RAISE EXCEPTION 'Ownership is handed over with transfer_room_ownership()';
+  END IF;
+
+  UPDATE room_participants
+  SET role = p_role
+  WHERE room_id = p_room_id AND user_id = p_user_id AND role <> 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This user is not a member of the room';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hand the room to another member
+CREATE OR REPLACE FUNCTION transfer_room_ownership(p_room_id uuid, p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_room_owner(p_room_id) THEN
+    RAISE EXCEPTION 'Only the room owner can transfer it';
+  END IF;
+
+  IF p_user_id = auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = p_room_id AND user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'The room can only be transferred to another member';
+  END IF;
+
+  -- One owner per room, so the current one steps down first
+  UPDATE room_participants
+  SET role = 'moderator'
+  WHERE room_id = p_room_id AND role = 'owner';
+
+  UPDATE room_participants
+  SET role = 'owner'
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_participant_role(uuid, uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION set_participant_role(uuid, uuid, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION transfer_room_ownership(uuid, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION transfer_room_ownership(uuid, uuid) TO authenticated;
+
+-- The room follows its owner, and role changes are announced. The owner
+-- stepping down during a transfer is covered by the new owner's message.
+CREATE OR REPLACE FUNCTION handle_role_change()
+RETURNS trigger AS $$
+DECLARE
+  v_actor text;
+  v_content text;
+BEGIN
+  IF NEW.role = OLD.role OR OLD.role = 'owner' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT display_name INTO v_actor
+  FROM profiles
+  WHERE id = auth.uid();
+  v_actor := COALESCE(v_actor, NEW.user_name);
+
+  IF NEW.role = 'owner' THEN
+    UPDATE rooms
+    SET owner_id = NEW.user_id, created_by = NEW.user_name
+    WHERE id = NEW.room_id;
+
+    v_content := v_actor || ' transferred the room to ' || NEW.user_name;
+  ELSIF NEW.role = 'moderator' THEN
+    v_content := v_actor || ' made ' || NEW.user_name || ' a moderator';
+  ELSE
+    v_content := v_actor || ' removed ' || NEW.user_name || ' as moderator';
+  END IF;
+
+  PERFORM post_system_message(
+    NEW.room_id, v_actor, v_content,
+    jsonb_build_object('event', 'role_changed', 'user_name', NEW.user_name, 'role', NEW.role)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_handle_role_change ON room_participants;
+CREATE TRIGGER trigger_handle_role_change
+  AFTER UPDATE OF role ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION handle_role_change();
+
+-- A room always keeps its owner. Deletes cascading from elsewhere are let through.
+CREATE OR REPLACE FUNCTION protect_room_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 AND OLD.role = 'owner' THEN
+    RAISE EXCEPTION 'Transfer the room to another member before leaving it';
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_room_owner ON room_participants;
+CREATE TRIGGER trigger_protect_room_owner
+  BEFORE DELETE ON room_participants
+  FOR EACH ROW EXECUTE FUNCTION protect_room_owner();
+
+-- Moderators may delete the messages of others, nothing else
+CREATE OR REPLACE FUNCTION handle_message_update()
+RETURNS trigger AS $$
+DECLARE
+  v_edit_window integer;
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  IF pg_trigger_depth() = 1 AND auth.uid() IS NOT NULL
+    AND OLD.user_id IS DISTINCT FROM auth.uid() AND NEW.deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Messages of others can only be deleted';
+  END IF;
+
+  NEW.room_id := OLD.room_id;
+  NEW.user_id := OLD.user_id;
+  IF pg_trigger_depth() = 1 THEN
+    NEW.user_name := OLD.user_name;
+  END IF;
+  NEW.created_at := OLD.created_at;
+  NEW.message_type := OLD.message_type;
+  NEW.attachments := OLD.attachments;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.attachments := NULL;
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM message_edits WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    SELECT edit_window_minutes INTO v_edit_window
+    FROM rooms
+    WHERE id = OLD.room_id;
+
+    IF v_edit_window IS NOT NULL
+      AND now() > OLD.created_at + make_interval(mins => v_edit_window) THEN
+      RAISE EXCEPTION 'The edit window for this message has expired';
+    END IF;
+
+    INSERT INTO message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Call participants are keyed on their user like memberships. Rows from
+-- before have no user, so those calls are dropped without announcing an end.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'call_participants' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE call_participants ADD COLUMN user_id uuid REFERENCES profiles(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+ALTER TABLE call_participants DISABLE TRIGGER trigger_post_call_message;
+DELETE FROM call_participants WHERE user_id IS NULL;
+ALTER TABLE call_participants ENABLE TRIGGER trigger_post_call_message;
+
+ALTER TABLE call_participants ALTER COLUMN user_id SET NOT NULL;
+ALTER TABLE call_participants DROP CONSTRAINT IF EXISTS call_participants_pkey;
+ALTER TABLE call_participants ADD PRIMARY KEY (room_id, user_id);
+
+DROP TRIGGER IF EXISTS trigger_set_call_participant_user ON call_participants;
+CREATE TRIGGER trigger_set_call_participant_user
+  BEFORE INSERT ON call_participants
+  FOR EACH ROW EXECUTE FUNCTION set_row_user();
+
+-- Starting a call needs start_calls, joining one in progress doesn't
+CREATE OR REPLACE FUNCTION check_call_start()
+RETURNS trigger AS $$
+BEGIN
+  IF pg_trigger_depth() = 1
+    AND NOT EXISTS (SELECT 1 FROM call_participants WHERE room_id = NEW.room_id)
+    AND NOT has_room_permission(NEW.room_id, 'start_calls') THEN
+    RAISE EXCEPTION 'Only the owner and moderators can start calls in this room';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_call_start ON call_participants;
+CREATE TRIGGER trigger_check_call_start
+  BEFORE INSERT ON call_participants
+  FOR EACH ROW EXECUTE FUNCTION check_call_start();
+
+-- Rooms and invites
+CREATE POLICY "Room owners can update their rooms"
+  ON rooms
+  FOR UPDATE
+  TO authenticated
+  USING (has_room_permission(id, 'edit_settings'))
+  WITH CHECK (has_room_permission(id, 'edit_settings'));
+
+CREATE POLICY "Invites are visible to those who manage them"
+  ON room_invites
+  FOR SELECT
+  TO authenticated
+  USING (has_room_permission(room_id, 'manage_invites'));
+
+CREATE POLICY "Invites can be created by those who manage them"
+  ON room_invites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_room_permission(room_id, 'manage_invites') AND created_by = auth.uid());
+
+CREATE POLICY "Invites can be revoked by those who manage them"
+  ON room_invites
+  FOR DELETE
+  TO authenticated
+  USING (has_room_permission(room_id, 'manage_invites'));
+
+-- Participants
+CREATE POLICY "Users can join public rooms"
+  ON room_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      (role = 'owner' AND is_room_owner(room_id))
+      OR (
+        role = 'member'
+        AND EXISTS (SELECT 1 FROM rooms WHERE rooms.id = room_participants.room_id AND rooms.type = 'public')
+      )
+    )
+  );
+
+-- Messages
+CREATE POLICY "Moderators can delete messages"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (has_room_permission(room_id, 'moderate_messages'))
+  WITH CHECK (has_room_permission(room_id, 'moderate_messages'));
+
+-- Calls
+DROP POLICY IF EXISTS "Anyone can join calls" ON call_participants;
+DROP POLICY IF EXISTS "Anyone can leave calls" ON call_participants;
+
+CREATE POLICY "Users can join calls in rooms they can access"
+  ON call_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_access_room(room_id) AND user_id = auth.uid());
+
+CREATE POLICY "Users can leave calls"
+  ON call_participants
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
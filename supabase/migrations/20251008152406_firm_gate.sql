@@ -0,0 +1,506 @@
+/*
+  # Kick, Ban and Timeout
+
+  1. New Tables
+    - `room_sanctions`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, foreign key to rooms)
+      - `user_id` (uuid, foreign key to profiles, the member it applies to)
+      - `user_name` (text, display name of that member)
+      - `kind` (text, 'kick', 'ban' or 'timeout')
+      - `created_by` (uuid, foreign key to profiles, the moderator)
+      - `created_at` (timestamp)
+      - `expires_at` (timestamp, null for bans that don't expire. Kicks expire right away.)
+      - `lifted_by` (uuid, foreign key to profiles, set when a moderator ends it early)
+
+  2. Permissions
+    - `moderate_members` for the owner and moderators. Moderators can only act on members,
+      the owner on moderators too, and nobody on the owner.
+
+  3. New Functions
+    - `has_room_sanction(p_room_id, p_kind)` whether the signed-in user is banned or timed out
+    - `sanction_room_participant(p_room_id, p_user_id, p_kind, p_minutes)` kicks, bans or times
+      out a member. Kicks and bans remove the membership.
+    - `lift_room_sanction(p_room_id, p_user_id, p_kind)` ends a ban or timeout early
+    - `can_access_room(p_room_id)` is false while the signed-in user is banned from the room
+
+  4. Behaviour
+    - Sanctions post a `member_kicked`, `member_banned` or `member_timed_out` system message
+      instead of the usual leave message. Lifting one posts `sanction_lifted`.
+    - A new ban or timeout replaces the one in force
+
+  5. Security
+    - Enable RLS on `room_sanctions`. Members see their own sanctions, moderators those of
+      their rooms. Changes only go through the functions above.
+    - Banned users can't join the room again, neither directly nor with a password or invite.
+      They can't read or post in it either, public rooms included.
+    - Timed out users can read but not post
+*/
+
+-- Create room_sanctions table
+CREATE TABLE IF NOT EXISTS room_sanctions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('kick', 'ban', 'timeout')),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz,
+  lifted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  CHECK (kind <> 'timeout' OR expires_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_sanctions_room_user
+  ON room_sanctions(room_id, user_id, kind);
+
+ALTER TABLE room_sanctions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE room_sanctions;
+  END IF;
+END $$;
+
+-- The permission matrix gains moderate_members
+CREATE OR REPLACE FUNCTION room_role_has_permission(p_role text, p_permission text)
+RETURNS boolean AS $$
+  SELECT CASE p_permission
+    WHEN 'edit_settings' THEN p_role = 'owner'
+    WHEN 'moderate_messages' THEN p_role IN ('owner', 'moderator')
+    WHEN 'moderate_members' THEN p_role IN ('owner', 'moderator')
+    WHEN 'manage_invites' THEN p_role IN ('owner', 'moderator')
+    WHEN 'start_calls' THEN p_role IN ('owner', 'moderator')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION room_role_rank(p_role text)
+RETURNS integer AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN 3
+    WHEN 'moderator' THEN 2
+    WHEN 'member' THEN 1
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION has_room_sanction(p_room_id uuid, p_kind text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_sanctions
+    WHERE room_id = p_room_id
+      AND user_id = auth.uid()
+      AND kind = p_kind
+      AND (expires_at IS NULL OR expires_at > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Public rooms are open to everyone except those banned from them
+CREATE OR REPLACE FUNCTION can_access_room(p_room_id uuid)
+RETURNS boolean AS $$
+  SELECT NOT has_room_sanction(p_room_id, 'ban') AND (
+    EXISTS (
+      SELECT 1 FROM rooms
+      WHERE id = p_room_id AND type = 'public'
+    ) OR is_room_member(p_room_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Kick, ban or time out a member
+CREATE OR REPLACE FUNCTION sanction_room_participant(
+  p_room_id uuid,
+  p_user_id uuid,
+  p_kind text,
+  p_minutes integer DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_target room_participants%ROWTYPE;
+BEGIN
+  IF NOT has_room_permission(p_room_id, 'moderate_members') THEN
+    RAISE EXCEPTION 'Only the owner and moderators can moderate members';
+  END IF;
+
+  IF p_kind NOT IN ('kick', 'ban', 'timeout') THEN
+    RAISE EXCEPTION 'Unknown moderation action';
+  END IF;
+
+  IF p_kind = 'timeout' AND p_minutes IS NULL THEN
+    RAISE EXCEPTION 'A timeout needs a duration';
+  END IF;
+
+  IF p_minutes IS NOT NULL AND p_minutes <= 0 THEN
+    RAISE EXCEPTION 'The duration must be at least a minute';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM room_participants
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This user is not a member of the room';
+  END IF;
+
+  IF room_role_rank(v_target.role) >= room_role_rank(room_role(p_room_id)) THEN
+    RAISE EXCEPTION 'You can only moderate members below your own role';
+  END IF;
+
+  -- Ended without lifted_by, so no lift is announced
+  UPDATE room_sanctions
+  SET expires_at = now()
+  WHERE room_id = p_room_id
+    AND user_id = p_user_id
+    AND kind = p_kind
+    AND (expires_at IS NULL OR expires_at > now());
+
+  INSERT INTO room_sanctions (room_id, user_id, user_name, kind, created_by, expires_at)
+  VALUES (
+    p_room_id, p_user_id, v_target.user_name, p_kind, auth.uid(),
+    CASE
+      WHEN p_kind = 'kick' THEN now()
+      WHEN p_minutes IS NOT NULL THEN now() + make_interval(mins => p_minutes)
+    END
+  );
+
+  IF p_kind IN ('kick', 'ban') THEN
+    DELETE FROM call_participants
+    WHERE room_id = p_room_id AND user_id = p_user_id;
+
+    DELETE FROM room_participants
+    WHERE room_id = p_room_id AND user_id = p_user_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- End a ban or timeout early
+CREATE OR REPLACE FUNCTION lift_room_sanction(p_room_id uuid, p_user_id uuid, p_kind text)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_room_permission(p_room_id, 'moderate_members') THEN
+    RAISE EXCEPTION 'Only the owner and moderators can moderate members';
+  END IF;
+
+  UPDATE room_sanctions
+  SET expires_at = now(), lifted_by = auth.uid()
+  WHERE room_id = p_room_id
+    AND user_id = p_user_id
+    AND kind = p_kind
+    AND (expires_at IS NULL OR expires_at > now());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is nothing to lift';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sanction_room_participant(uuid, uuid, text, integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION sanction_room_participant(uuid, uuid, text, integer) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION lift_room_sanction(uuid, uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION lift_room_sanction(uuid, uuid, text) TO authenticated;
+
+-- Sanctions are announced in the room; the client adds the duration
+CREATE OR REPLACE FUNCTION post_sanction_message()
+RETURNS trigger AS $$
+DECLARE
+  v_actor text;
+BEGIN
+  SELECT display_name INTO v_actor
+  FROM profiles
+  WHERE id = auth.uid();
+  v_actor := COALESCE(v_actor, 'A moderator');
+
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM post_system_message(
+      NEW.room_id, v_actor,
+      CASE NEW.kind
+        WHEN 'ban' THEN v_actor || ' lifted the ban on ' || NEW.user_name
+        ELSE v_actor || ' ended the timeout of ' || NEW.user_name
+      END,
+      jsonb_build_object('event', 'sanction_lifted', 'user_name', NEW.user_name)
+    );
+    RETURN NEW;
+  END IF;
+
+  PERFORM post_system_message(
+    NEW.room_id, v_actor,
+    CASE NEW.kind
+      WHEN 'kick' THEN v_actor || ' removed ' || NEW.user_name || ' from the room'
+      WHEN 'ban' THEN v_actor || ' banned ' || NEW.user_name
+      ELSE v_actor || ' timed out ' || NEW.user_name
+    END,
+    jsonb_build_object(
+      'event', CASE NEW.kind
+        WHEN 'kick' THEN 'member_kicked'
+        WHEN 'ban' THEN 'member_banned'
+        ELSE 'member_timed_out'
+      END,
+      'user_name', NEW.user_name
+    ) || CASE
+      WHEN NEW.kind <> 'kick' AND NEW.expires_at IS NOT NULL
+        THEN jsonb_build_object('duration_minutes', round(extract(epoch FROM NEW.expires_at - NEW.created_at) / 60))
+      ELSE '{}'::jsonb
+    END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_post_sanction_message ON room_sanctions;
+CREATE TRIGGER trigger_post_sanction_message
+  AFTER INSERT ON room_sanctions
+  FOR EACH ROW EXECUTE FUNCTION post_sanction_message();
+
+DROP TRIGGER IF EXISTS trigger_post_sanction_lifted_message ON room_sanctions;
+CREATE TRIGGER trigger_post_sanction_lifted_message
+  AFTER UPDATE OF lifted_by ON room_sanctions
+  FOR EACH ROW
+  WHEN (OLD.lifted_by IS NULL AND NEW.lifted_by IS NOT NULL)
+  EXECUTE FUNCTION post_sanction_message();
+
+-- Join and leave events; members removed by a moderator are announced by the sanction
+CREATE OR REPLACE FUNCTION post_membership_message()
+RETURNS trigger AS $$
+DECLARE
+  v_last messages%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT * INTO v_last
+    FROM messages
+    WHERE room_id = NEW.room_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- A quick rejoin just cancels the leave message
+    IF v_last.message_type = 'system'
+      AND v_last.user_name = NEW.user_name
+      AND v_last.metadata->>'event' = 'member_left'
+      AND v_last.created_at > now() - interval '2 minutes' THEN
+      DELETE FROM messages WHERE id = v_last.id;
+      RETURN NEW;
+    END IF;
+
+    PERFORM post_system_message(
+      NEW.room_id, NEW.user_name, NEW.user_name || ' joined the room',
+      jsonb_build_object('event', 'member_joined')
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Skip leave messages for rooms that are being deleted
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = OLD.room_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM room_sanctions
+      WHERE room_id = OLD.room_id
+        AND user_id = OLD.user_id
+        AND kind IN ('kick', 'ban')
+        AND created_at = now()
+    ) THEN
+    PERFORM post_system_message(
+      OLD.room_id, OLD.user_name, OLD.user_name || ' left the room',
+      jsonb_build_object('event', 'member_left')
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Renames reach sanctions too
+CREATE OR REPLACE FUNCTION handle_profile_rename()
+RETURNS trigger AS $$
+BEGIN
+  NEW.id := OLD.id;
+  NEW.created_at := OLD.created_at;
+  NEW.display_name := trim(NEW.display_name);
+  NEW.updated_at := now();
+
+  IF NEW.display_name IS DISTINCT FROM OLD.display_name THEN
+    UPDATE messages SET user_name = NEW.display_name
+    WHERE user_id = NEW.id AND deleted_at IS NULL;
+
+    UPDATE room_participants SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE user_presence SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE message_reactions SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE room_read_states SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE message_mentions SET mentioned_user = NEW.display_name
+    WHERE mentioned_user_id = NEW.id;
+
+    UPDATE message_mentions mm SET mentioned_by = NEW.display_name
+    FROM messages m
+    WHERE m.id = mm.message_id AND m.user_id = NEW.id;
+
+    UPDATE rooms SET created_by = NEW.display_name
+    WHERE owner_id = NEW.id;
+
+    UPDATE room_sanctions SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+
+    UPDATE call_participants SET user_name = NEW.display_name
+    WHERE user_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Functions that add members bypass RLS, so they check bans themselves
+CREATE OR REPLACE FUNCTION join_protected_room(p_room_id uuid, p_password text)
+RETURNS boolean AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_hash text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id AND type = 'password' AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF has_room_sanction(p_room_id, 'ban') THEN
+    RAISE EXCEPTION 'You are banned from this room';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM room_join_attempts
+    WHERE user_id = v_user_id
+      AND room_id = p_room_id
+      AND attempted_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many attempts, try again later';
+  END IF;
+
+  SELECT password_hash INTO v_hash
+  FROM room_secrets
+  WHERE room_id = p_room_id;
+
+  IF v_hash IS NULL OR extensions.crypt(COALESCE(p_password, ''), v_hash) <> v_hash THEN
+    INSERT INTO room_join_attempts (room_id, user_id)
+    VALUES (p_room_id, v_user_id);
+    RETURN false;
+  END IF;
+
+  DELETE FROM room_join_attempts
+  WHERE user_id = v_user_id AND room_id = p_room_id;
+
+  INSERT INTO room_participants (room_id, user_id, user_name)
+  SELECT p_room_id, v_user_id, display_name
+  FROM profiles
+  WHERE id = v_user_id
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION accept_room_invite(p_token text)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invite room_invites%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in';
+  END IF;
+
+  -- Locked so that concurrent uses can't go over the limit
+  SELECT * INTO v_invite
+  FROM room_invites
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM rooms WHERE id = v_invite.room_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'This invite link is invalid or has been revoked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = v_invite.room_id AND user_id = v_user_id
+  ) THEN
+    RETURN v_invite.room_id;
+  END IF;
+
+  IF has_room_sanction(v_invite.room_id, 'ban') THEN
+    RAISE EXCEPTION 'You are banned from this room';
+  END IF;
+
+  IF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite link has expired';
+  END IF;
+
+  IF v_invite.max_uses IS NOT NULL AND v_invite.uses >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite link has been used up';
+  END IF;
+
+  INSERT INTO room_participants (room_id, user_id, user_name)
+  SELECT v_invite.room_id, v_user_id, display_name
+  FROM profiles
+  WHERE id = v_user_id;
+
+  UPDATE room_invites
+  SET uses = uses + 1
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Policies
+CREATE POLICY "Users can view their own sanctions"
+  ON room_sanctions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Moderators can view sanctions in their rooms"
+  ON room_sanctions
+  FOR SELECT
+  TO authenticated
+  USING (has_room_permission(room_id, 'moderate_members'));
+
+DROP POLICY IF EXISTS "Users can join public rooms" ON room_participants;
+
+CREATE POLICY "Users can join public rooms"
+  ON room_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND NOT has_room_sanction(room_id, 'ban')
+    AND (
+      (role = 'owner' AND is_room_owner(room_id))
+      OR (
+        role = 'member'
+        AND EXISTS (SELECT 1 FROM rooms WHERE rooms.id = room_participants.room_id AND rooms.type = 'public')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can send their own messages" ON messages;
+
+CREATE POLICY "Users can send their own messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND can_access_room(room_id)
+    AND NOT has_room_sanction(room_id, 'ban')
+    AND NOT has_room_sanction(room_id, 'timeout')
+  );
@@ -0,0 +1,382 @@
+/*
+  # Room Access Rules
+
+  Checks the row level security of rooms, messages and participants, of what
+  hangs off messages (reactions, mentions and read positions), of calls and of
+  attachment files, and the password check of protected rooms. Run with
+  `supabase test db`.
+
+  Users: owner creates a public, a password-protected and a private room. moderator
+  moderates the private room, member belongs to the private and the
+  password-protected room, outsider belongs to none of them.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(44);
+
+-- Users, whose profiles are created by handle_new_user()
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'owner@example.com', '{"display_name": "Owner"}'),
+  ('00000000-0000-4000-8000-000000000002', 'moderator@example.com', '{"display_name": "Moderator"}'),
+  ('00000000-0000-4000-8000-000000000003', 'member@example.com', '{"display_name": "Member"}'),
+  ('00000000-0000-4000-8000-000000000004', 'outsider@example.com', '{"display_name": "Outsider"}');
+
+-- The owner creates the rooms, joins them and says hello
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+INSERT INTO rooms (id, name, type) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'Public', 'public'),
+  ('10000000-0000-4000-8000-000000000003', 'Private', 'private');
+
+-- Clients create protected rooms through create_password_room(), which picks
+-- its own id, so this one is inserted past the policies
+RESET role;
+INSERT INTO rooms (id, name, type) VALUES
+  ('10000000-0000-4000-8000-000000000002', 'Protected', 'password');
+SET LOCAL role authenticated;
+
+INSERT INTO room_participants (room_id, role) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'owner'),
+  ('10000000-0000-4000-8000-000000000002', 'owner'),
+  ('10000000-0000-4000-8000-000000000003', 'owner');
+
+SELECT lives_ok(
+  $$ SELECT set_room_password('10000000-0000-4000-8000-000000000002', 'open sesame') $$,
+  'Owners can set the password of their room'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO rooms (name, type) VALUES ('No password', 'password') $$,
+  '42501',
+  NULL,
+  'Protected rooms cannot be created without a password'
+);
+
+SELECT throws_ok(
+  $$ SELECT create_password_room('Empty password', NULL, NULL, '') $$,
+  'P0001',
+  'The password cannot be empty',
+  'Protected rooms need a password that is not empty'
+);
+
+SELECT lives_ok(
+  $$ SELECT create_password_room('Study group', NULL, NULL, 'hunter2') $$,
+  'Protected rooms are created along with their password'
+);
+
+INSERT INTO messages (room_id, content) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'Hello everyone'),
+  ('10000000-0000-4000-8000-000000000002', 'Hello protected'),
+  ('10000000-0000-4000-8000-000000000003', 'Hello private');
+
+-- The member joins the protected room with its password
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+SELECT is(
+  join_protected_room('10000000-0000-4000-8000-000000000002', 'open sesame'),
+  true,
+  'The right password grants membership of a protected room'
+);
+
+-- Memberships of the private room are granted directly, as an invite would
+RESET role;
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+INSERT INTO room_participants (room_id) VALUES
+  ('10000000-0000-4000-8000-000000000001'),
+  ('10000000-0000-4000-8000-000000000003');
+UPDATE room_participants SET role = 'moderator'
+WHERE room_id = '10000000-0000-4000-8000-000000000003'
+  AND user_id = '00000000-0000-4000-8000-000000000002';
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+INSERT INTO room_participants (room_id) VALUES
+  ('10000000-0000-4000-8000-000000000003');
+
+-- The owner reacts, reads both rooms, mentions the member, shares a file and starts a call
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+INSERT INTO messages (id, room_id, content) VALUES
+  ('20000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000003', 'Welcome @[Member]');
+
+INSERT INTO message_reactions (message_id, room_id, emoji)
+SELECT id, room_id, '👍' FROM messages WHERE content IN ('Hello everyone', 'Hello private');
+
+INSERT INTO room_read_states (room_id, last_read_message_id)
+SELECT room_id, id FROM messages WHERE content IN ('Hello everyone', 'Hello private');
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('attachments', '10000000-0000-4000-8000-000000000003/30000000-0000-4000-8000-000000000001/notes.txt');
+
+INSERT INTO call_participants (room_id) VALUES
+  ('10000000-0000-4000-8000-000000000003');
+
+-- Outsider
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM messages WHERE room_id = '10000000-0000-4000-8000-000000000001' $$,
+  'Anyone can read messages in public rooms'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM messages WHERE room_id = '10000000-0000-4000-8000-000000000002' $$,
+  'Non-members cannot read messages in protected rooms'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM messages WHERE room_id = '10000000-0000-4000-8000-000000000003' $$,
+  'Non-members cannot read messages in private rooms'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM rooms WHERE id = '10000000-0000-4000-8000-000000000003' $$,
+  'Non-members cannot see private rooms'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM room_participants WHERE room_id = '10000000-0000-4000-8000-000000000003' $$,
+  'Non-members cannot see who is in a private room'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO messages (room_id, content) VALUES ('10000000-0000-4000-8000-000000000001', 'Hi') $$,
+  'Anyone can send messages in public rooms'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO messages (room_id, content) VALUES ('10000000-0000-4000-8000-000000000003', 'Hi') $$,
+  '42501',
+  NULL,
+  'Non-members cannot send messages in private rooms'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000003') $$,
+  '42501',
+  NULL,
+  'Private rooms cannot be joined directly'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000002') $$,
+  '42501',
+  NULL,
+  'Protected rooms cannot be joined without the password'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO room_participants (room_id, role) VALUES ('10000000-0000-4000-8000-000000000001', 'moderator') $$,
+  '42501',
+  NULL,
+  'Users cannot join a room as a moderator'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM room_secrets $$,
+  'Password hashes cannot be read'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO message_reactions (message_id, room_id, emoji) VALUES
+     ('20000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000003', '👀') $$,
+  '42501',
+  NULL,
+  'Non-members cannot react in private rooms'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO message_reactions (message_id, room_id, emoji) VALUES
+     ('20000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000001', '👀') $$,
+  '42501',
+  NULL,
+  'Reactions must be in the room of their message'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM message_reactions
+     WHERE user_id = '00000000-0000-4000-8000-000000000001'
+     RETURNING message_id $$,
+  'Users cannot remove the reactions of others'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM room_read_states WHERE room_id = '10000000-0000-4000-8000-000000000003' $$,
+  'Non-members cannot see read positions in private rooms'
+);
+
+SELECT is_empty(
+  $$ UPDATE room_read_states SET last_read_message_id = NULL
+     WHERE user_id = '00000000-0000-4000-8000-000000000001'
+     RETURNING room_id $$,
+  'Users cannot move the read position of others'
+);
+
+SELECT is_empty(
+  $$ UPDATE message_mentions SET read_at = now() RETURNING message_id $$,
+  'Users cannot mark the mentions of others as read'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM call_participants WHERE room_id = '10000000-0000-4000-8000-000000000003' $$,
+  'Non-members cannot see who is in a call in private rooms'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM storage.objects WHERE name LIKE '10000000-0000-4000-8000-000000000003/%' $$,
+  'Non-members cannot download attachments of private rooms'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES
+     ('attachments', '10000000-0000-4000-8000-000000000003/30000000-0000-4000-8000-000000000002/spam.txt') $$,
+  '42501',
+  NULL,
+  'Non-members cannot upload attachments to private rooms'
+);
+
+SELECT is_empty(
+  $$ UPDATE rooms SET name = 'Taken over' WHERE id = '10000000-0000-4000-8000-000000000001' RETURNING id $$,
+  'Non-members cannot update rooms'
+);
+
+SELECT is(
+  join_protected_room('10000000-0000-4000-8000-000000000002', 'wrong'),
+  false,
+  'A wrong password is refused'
+);
+
+SELECT is(
+  (SELECT count(*) FROM generate_series(1, 4)
+   WHERE NOT join_protected_room('10000000-0000-4000-8000-000000000002', 'still wrong')),
+  4::bigint,
+  'Every wrong password is refused'
+);
+
+SELECT throws_ok(
+  $$ SELECT join_protected_room('10000000-0000-4000-8000-000000000002', 'open sesame') $$,
+  'P0001',
+  'Too many attempts, try again later',
+  'Five wrong passwords block further attempts, even the right one'
+);
+
+-- Member
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM messages WHERE room_id = '10000000-0000-4000-8000-000000000002' $$,
+  'Members can read messages in protected rooms'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM messages WHERE room_id = '10000000-0000-4000-8000-000000000003' $$,
+  'Members can read messages in private rooms'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO messages (room_id, content) VALUES ('10000000-0000-4000-8000-000000000003', 'Hi') $$,
+  'Members can send messages in private rooms'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO message_reactions (message_id, room_id, emoji) VALUES
+     ('20000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000003', '🎉') $$,
+  'Members can react in private rooms'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE message_mentions SET read_at = now()
+     WHERE mentioned_user_id = '00000000-0000-4000-8000-000000000003'
+     RETURNING message_id $$,
+  'Users can mark their own mentions as read'
+);
+
+SELECT throws_ok(
+  $$ UPDATE message_mentions SET mentioned_by = 'Someone else'
+     WHERE mentioned_user_id = '00000000-0000-4000-8000-000000000003' $$,
+  '42501',
+  NULL,
+  'Mentions cannot be changed other than being read'
+);
+
+SELECT is_empty(
+  $$ UPDATE rooms SET name = 'Renamed' WHERE id = '10000000-0000-4000-8000-000000000003' RETURNING id $$,
+  'Members cannot update rooms'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM room_participants
+     WHERE room_id = '10000000-0000-4000-8000-000000000003'
+       AND user_id = '00000000-0000-4000-8000-000000000002'
+     RETURNING user_id $$,
+  'Members cannot remove other participants'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM room_participants
+     WHERE room_id = '10000000-0000-4000-8000-000000000002'
+       AND user_id = '00000000-0000-4000-8000-000000000003'
+     RETURNING user_id $$,
+  'Members can leave rooms'
+);
+
+-- Moderator
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+SELECT is_empty(
+  $$ UPDATE rooms SET name = 'Private lounge' WHERE id = '10000000-0000-4000-8000-000000000003' RETURNING id $$,
+  'Moderators cannot update room settings'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM room_participants
+     WHERE room_id = '10000000-0000-4000-8000-000000000003'
+       AND user_id = '00000000-0000-4000-8000-000000000003'
+     RETURNING user_id $$,
+  'Moderators cannot remove other participants'
+);
+
+-- Owner
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+SELECT isnt_empty(
+  $$ UPDATE rooms SET description = 'Open to all' WHERE id = '10000000-0000-4000-8000-000000000001' RETURNING id $$,
+  'Owners can update rooms'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM room_participants
+     WHERE room_id = '10000000-0000-4000-8000-000000000003'
+       AND user_id = '00000000-0000-4000-8000-000000000002'
+     RETURNING user_id $$,
+  'Owners can remove other participants'
+);
+
+UPDATE rooms SET owner_id = '00000000-0000-4000-8000-000000000004'
+WHERE id = '10000000-0000-4000-8000-000000000001';
+
+SELECT is(
+  (SELECT owner_id FROM rooms WHERE id = '10000000-0000-4000-8000-000000000001'),
+  '00000000-0000-4000-8000-000000000001'::uuid,
+  'The owner of a room cannot be changed by updating it'
+);
+
+-- Signed out
+SET LOCAL role anon;
+SET LOCAL request.jwt.claims TO '{"role": "anon"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO message_reactions (message_id, room_id, emoji)
+     SELECT id, room_id, '👀' FROM messages WHERE content = 'Hello everyone' $$,
+  'P0001',
+  'You need to be signed in',
+  'Signed out clients cannot add reactions'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
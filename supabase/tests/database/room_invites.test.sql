@@ -0,0 +1,133 @@
+/*
+  # Room Invites
+
+  Checks who can manage invites and the limits of `accept_room_invite()`.
+  Run with `supabase test db`.
+
+  Users: owner creates a private room and its invites, guest joins through one,
+  latecomer finds every invite unusable.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'owner@example.com', '{"display_name": "Owner"}'),
+  ('00000000-0000-4000-8000-000000000002', 'guest@example.com', '{"display_name": "Guest"}'),
+  ('00000000-0000-4000-8000-000000000003', 'latecomer@example.com', '{"display_name": "Latecomer"}');
+
+-- Owner
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+INSERT INTO rooms (id, name, type) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'Private', 'private');
+
+INSERT INTO room_participants (room_id, role) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'owner');
+
+SELECT lives_ok(
+  $$ INSERT INTO room_invites (room_id, max_uses, token)
+     VALUES ('10000000-0000-4000-8000-000000000001', 1, 'chosen-by-client') $$,
+  'Owners can create invites'
+);
+
+INSERT INTO room_invites (room_id, expires_at) VALUES
+  ('10000000-0000-4000-8000-000000000001', now() - interval '1 minute');
+INSERT INTO room_invites (room_id) VALUES
+  ('10000000-0000-4000-8000-000000000001');
+
+SELECT is(
+  (SELECT count(*) FROM room_invites WHERE token = 'chosen-by-client'),
+  0::bigint,
+  'Tokens are generated by the database'
+);
+
+-- Tokens are kept in settings, which every role can read
+SELECT
+  set_config('tests.single_use_token', (SELECT token FROM room_invites WHERE max_uses = 1), true),
+  set_config('tests.expired_token', (SELECT token FROM room_invites WHERE expires_at IS NOT NULL), true),
+  set_config('tests.revoked_token', (SELECT token FROM room_invites WHERE expires_at IS NULL AND max_uses IS NULL), true);
+
+-- Guest
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+SELECT is_empty(
+  $$ SELECT 1 FROM room_invites $$,
+  'Invites are hidden from members'
+);
+
+SELECT is(
+  accept_room_invite(current_setting('tests.single_use_token')),
+  '10000000-0000-4000-8000-000000000001'::uuid,
+  'Accepting an invite returns its room'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM rooms WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  'Accepting an invite grants membership'
+);
+
+SELECT lives_ok(
+  $$ SELECT accept_room_invite(current_setting('tests.single_use_token')) $$,
+  'Members can open an invite again'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO room_invites (room_id) VALUES ('10000000-0000-4000-8000-000000000001') $$,
+  '42501',
+  NULL,
+  'Members cannot create invites'
+);
+
+-- Owner revokes the unlimited invite
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+SELECT isnt_empty(
+  $$ DELETE FROM room_invites WHERE token = current_setting('tests.revoked_token') RETURNING id $$,
+  'Owners can revoke invites'
+);
+
+SELECT is(
+  (SELECT uses FROM room_invites WHERE token = current_setting('tests.single_use_token')),
+  1,
+  'Opening an invite again as a member does not use it up'
+);
+
+-- Latecomer
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+SELECT throws_ok(
+  $$ SELECT accept_room_invite(current_setting('tests.single_use_token')) $$,
+  'P0001',
+  'This invite link has been used up',
+  'Invites cannot be used more than their limit'
+);
+
+SELECT throws_ok(
+  $$ SELECT accept_room_invite(current_setting('tests.expired_token')) $$,
+  'P0001',
+  'This invite link has expired',
+  'Expired invites cannot be used'
+);
+
+SELECT throws_ok(
+  $$ SELECT accept_room_invite(current_setting('tests.revoked_token')) $$,
+  'P0001',
+  'This invite link is invalid or has been revoked',
+  'Revoked invites cannot be used'
+);
+
+SELECT throws_ok(
+  $$ SELECT accept_room_invite('not-a-token') $$,
+  'P0001',
+  'This invite link is invalid or has been revoked',
+  'Unknown tokens cannot be used'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,210 @@
+/*
+  # Room Roles
+
+  Checks the permission matrix, role changes and ownership transfer.
+  Run with `supabase test db`.
+
+  Users: owner creates a public room, moderator and member join it. The owner
+  makes moderator a moderator and later hands the room to member.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(21);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'owner@example.com', '{"display_name": "Owner"}'),
+  ('00000000-0000-4000-8000-000000000002', 'moderator@example.com', '{"display_name": "Moderator"}'),
+  ('00000000-0000-4000-8000-000000000003', 'member@example.com', '{"display_name": "Member"}');
+
+-- Owner
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+INSERT INTO rooms (id, name, type) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'Public', 'public');
+
+INSERT INTO room_participants (room_id, role) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'owner');
+
+INSERT INTO messages (id, room_id, content) VALUES
+  ('20000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000001', 'Welcome');
+
+-- The others join as members
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001');
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001');
+INSERT INTO messages (id, room_id, content) VALUES
+  ('20000000-0000-4000-8000-000000000002', '10000000-0000-4000-8000-000000000001', 'Spam'),
+  ('20000000-0000-4000-8000-000000000003', '10000000-0000-4000-8000-000000000001', 'Hello');
+
+SELECT throws_ok(
+  $$ SELECT set_participant_role('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003', 'moderator') $$,
+  'P0001',
+  'Only the room owner can change roles',
+  'Members cannot change roles'
+);
+
+-- Owner promotes moderator
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$ SELECT set_participant_role('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002', 'moderator') $$,
+  'The owner can make a member a moderator'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM messages
+     WHERE room_id = '10000000-0000-4000-8000-000000000001'
+       AND metadata->>'event' = 'role_changed'
+       AND content = 'Owner made Moderator a moderator' $$,
+  'Role changes are announced in the room'
+);
+
+-- Moderator
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+SELECT is(
+  room_role('10000000-0000-4000-8000-000000000001'),
+  'moderator',
+  'The promoted member is a moderator'
+);
+
+SELECT is(
+  has_room_permission('10000000-0000-4000-8000-000000000001', 'edit_settings'),
+  false,
+  'Moderators cannot edit room settings'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE messages SET deleted_at = now()
+     WHERE id = '20000000-0000-4000-8000-000000000002' RETURNING id $$,
+  'Moderators can delete the messages of others'
+);
+
+SELECT throws_ok(
+  $$ UPDATE messages SET content = 'Edited by a moderator'
+     WHERE id = '20000000-0000-4000-8000-000000000003' $$,
+  'P0001',
+  'Messages of others can only be deleted',
+  'Moderators cannot edit the messages of others'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO call_participants (room_id)
+     VALUES ('10000000-0000-4000-8000-000000000001') $$,
+  'Moderators can start calls'
+);
+
+-- Member
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+SELECT is(
+  has_room_permission('10000000-0000-4000-8000-000000000001', 'moderate_messages'),
+  false,
+  'Members cannot moderate messages'
+);
+
+SELECT is_empty(
+  $$ UPDATE messages SET deleted_at = now()
+     WHERE id = '20000000-0000-4000-8000-000000000001' RETURNING id $$,
+  'Members cannot delete the messages of others'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO call_participants (room_id)
+     VALUES ('10000000-0000-4000-8000-000000000001') $$,
+  'Members can join a call in progress'
+);
+
+-- Renaming during a call doesn't stop the member from leaving it
+UPDATE profiles SET display_name = 'Member on a call'
+WHERE id = '00000000-0000-4000-8000-000000000003';
+
+SELECT isnt_empty(
+  $$ DELETE FROM call_participants
+     WHERE room_id = '10000000-0000-4000-8000-000000000001'
+       AND user_id = '00000000-0000-4000-8000-000000000003'
+     RETURNING user_id $$,
+  'Users can leave a call after renaming themselves'
+);
+
+UPDATE profiles SET display_name = 'Member'
+WHERE id = '00000000-0000-4000-8000-000000000003';
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+DELETE FROM call_participants WHERE room_id = '10000000-0000-4000-8000-000000000001';
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO call_participants (room_id)
+     VALUES ('10000000-0000-4000-8000-000000000001') $$,
+  'P0001',
+  'Only the owner and moderators can start calls in this room',
+  'Members cannot start calls'
+);
+
+SELECT throws_ok(
+  $$ SELECT transfer_room_ownership('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003') $$,
+  'P0001',
+  'Only the room owner can transfer it',
+  'Members cannot take over a room'
+);
+
+-- Owner hands the room over
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+SELECT throws_ok(
+  $$ DELETE FROM room_participants
+     WHERE room_id = '10000000-0000-4000-8000-000000000001'
+       AND user_id = '00000000-0000-4000-8000-000000000001' $$,
+  'P0001',
+  'Transfer the room to another member before leaving it',
+  'The owner cannot leave their room'
+);
+
+SELECT lives_ok(
+  $$ SELECT transfer_room_ownership('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003') $$,
+  'The owner can transfer the room to a member'
+);
+
+SELECT is(
+  (SELECT owner_id FROM rooms WHERE id = '10000000-0000-4000-8000-000000000001'),
+  '00000000-0000-4000-8000-000000000003'::uuid,
+  'The room belongs to its new owner'
+);
+
+SELECT is(
+  (SELECT created_by FROM rooms WHERE id = '10000000-0000-4000-8000-000000000001'),
+  'Member',
+  'The room is credited to its new owner'
+);
+
+SELECT is(
+  room_role('10000000-0000-4000-8000-000000000001'),
+  'moderator',
+  'The previous owner stays on as a moderator'
+);
+
+SELECT throws_ok(
+  $$ SELECT set_participant_role('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002', 'member') $$,
+  'P0001',
+  'Only the room owner can change roles',
+  'The previous owner can no longer change roles'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM messages
+     WHERE room_id = '10000000-0000-4000-8000-000000000001'
+       AND metadata->>'event' = 'role_changed'
+       AND content = 'Owner transferred the room to Member' $$,
+  'Ownership transfers are announced in the room'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,183 @@
+/*
+  # Room Sanctions
+
+  Checks who can kick, ban and time out whom, and what a sanction blocks.
+  Run with `supabase test db`.
+
+  Users: owner creates a public room and makes moderator a moderator. Member
+  gets timed out and kicked, troll gets banned.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(19);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'owner@example.com', '{"display_name": "Owner"}'),
+  ('00000000-0000-4000-8000-000000000002', 'moderator@example.com', '{"display_name": "Moderator"}'),
+  ('00000000-0000-4000-8000-000000000003', 'member@example.com', '{"display_name": "Member"}'),
+  ('00000000-0000-4000-8000-000000000004', 'troll@example.com', '{"display_name": "Troll"}');
+
+-- Owner
+SET LOCAL role authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+INSERT INTO rooms (id, name, type) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'Public', 'public');
+
+INSERT INTO room_participants (room_id, role) VALUES
+  ('10000000-0000-4000-8000-000000000001', 'owner');
+
+-- The others join as members
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001');
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001');
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001');
+
+SELECT throws_ok(
+  $$ SELECT sanction_room_participant('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000004', 'timeout', 10) $$,
+  'P0001',
+  'Only the owner and moderators can moderate members',
+  'Members cannot moderate others'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+SELECT set_participant_role('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002', 'moderator');
+
+-- Moderator times out member and bans troll
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+SELECT throws_ok(
+  $$ SELECT sanction_room_participant('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000001', 'kick') $$,
+  'P0001',
+  'You can only moderate members below your own role',
+  'Moderators cannot moderate the owner'
+);
+
+SELECT lives_ok(
+  $$ SELECT sanction_room_participant('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003', 'timeout', 10) $$,
+  'Moderators can time out members'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM messages
+     WHERE room_id = '10000000-0000-4000-8000-000000000001'
+       AND content = 'Moderator timed out Member'
+       AND metadata->>'event' = 'member_timed_out'
+       AND metadata->>'duration_minutes' = '10' $$,
+  'Timeouts are announced with their duration'
+);
+
+SELECT lives_ok(
+  $$ SELECT sanction_room_participant('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000004', 'ban') $$,
+  'Moderators can ban members'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM room_participants
+     WHERE room_id = '10000000-0000-4000-8000-000000000001'
+       AND user_id = '00000000-0000-4000-8000-000000000004' $$,
+  'Banning removes the membership'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM messages
+     WHERE room_id = '10000000-0000-4000-8000-000000000001'
+       AND content = 'Troll left the room' $$,
+  'Banned members are not announced as leaving'
+);
+
+-- Member
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO messages (room_id, content) VALUES ('10000000-0000-4000-8000-000000000001', 'Let me talk') $$,
+  '42501',
+  NULL,
+  'Timed out members cannot post'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM messages WHERE room_id = '10000000-0000-4000-8000-000000000001' $$,
+  'Timed out members can still read'
+);
+
+-- Troll
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO messages (room_id, content) VALUES ('10000000-0000-4000-8000-000000000001', 'Still here') $$,
+  '42501',
+  NULL,
+  'Banned users cannot post in a public room'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM messages WHERE room_id = '10000000-0000-4000-8000-000000000001' $$,
+  'Banned users cannot read a public room'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001') $$,
+  '42501',
+  NULL,
+  'Banned users cannot join again'
+);
+
+SELECT is(
+  (SELECT count(*) FROM room_sanctions),
+  1::bigint,
+  'Users only see their own sanctions'
+);
+
+-- Moderator ends the timeout and kicks member
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$ SELECT lift_room_sanction('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003', 'timeout') $$,
+  'Moderators can end a timeout early'
+);
+
+SELECT lives_ok(
+  $$ SELECT sanction_room_participant('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003', 'kick') $$,
+  'Moderators can kick members'
+);
+
+-- Member
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001') $$,
+  'Kicked members can join again'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO messages (room_id, content) VALUES ('10000000-0000-4000-8000-000000000001', 'Sorry') $$,
+  'Members can post again once their timeout ends'
+);
+
+-- Owner lifts the ban
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$ SELECT lift_room_sanction('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000004', 'ban') $$,
+  'The owner can lift a ban'
+);
+
+-- Troll
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO room_participants (room_id) VALUES ('10000000-0000-4000-8000-000000000001') $$,
+  'Users can join again once their ban is lifted'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;